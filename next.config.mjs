@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  reactStrictMode: true
+  reactStrictMode: true,
+  experimental: {
+    // sql.js loads its WebAssembly binary from node_modules at runtime, so keep it out of the server bundle.
+    serverComponentsExternalPackages: ["sql.js"]
+  }
 };
 
 export default nextConfig;
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "../../../lib/api-responses";
+import { getBookCatalogue } from "../../../lib/book-catalogue-config";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const BOOK_QUERY_MAX_LENGTH = 200;
+
+export async function GET(request: Request) {
+  const query = new URL(request.url).searchParams.get("q")?.trim() ?? "";
+  if (!query) {
+    return errorResponse(400, 'Add an ISBN or title to search for as "q".');
+  }
+  if (query.length > BOOK_QUERY_MAX_LENGTH) {
+    return errorResponse(400, `Searches are limited to ${BOOK_QUERY_MAX_LENGTH} characters.`);
+  }
+  const books = await getBookCatalogue().lookup(query);
+  return NextResponse.json({ books });
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+
+import {
+  designStoreUnavailable,
+  errorResponse,
+  productionProfilesUnavailable,
+  readJsonBody,
+} from "../../../../lib/api-responses";
+import { getDesignStore } from "../../../../lib/design-store";
+import { validateDesignInput } from "../../../../lib/design-validation";
+import { loadProductionProfiles } from "../../../../lib/production-config";
+import type { ProductionProfile } from "../../../../lib/production-profiles";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: { id: string } };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const design = await getDesignStore().get(params.id);
+    if (!design) {
+      return errorResponse(404, "Design not found.");
+    }
+    return NextResponse.json({ design });
+  } catch (error) {
+    return designStoreUnavailable(error);
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const body = await readJsonBody(request);
+  if (body === undefined) {
+    return errorResponse(400, "The request body must be valid JSON.");
+  }
+  let profiles: ProductionProfile[];
+  try {
+    profiles = await loadProductionProfiles();
+  } catch (error) {
+    return productionProfilesUnavailable(error);
+  }
+  const result = validateDesignInput(body, profiles);
+  if (!result.ok) {
+    return errorResponse(422, "The design did not pass validation.", result.issues);
+  }
+  try {
+    const design = await getDesignStore().update(params.id, { name: result.name, document: result.document });
+    if (!design) {
+      return errorResponse(404, "Design not found.");
+    }
+    return NextResponse.json({ design });
+  } catch (error) {
+    return designStoreUnavailable(error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const removed = await getDesignStore().remove(params.id);
+    if (!removed) {
+      return errorResponse(404, "Design not found.");
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return designStoreUnavailable(error);
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+
+import {
+  designStoreUnavailable,
+  errorResponse,
+  productionProfilesUnavailable,
+  readJsonBody,
+} from "../../../lib/api-responses";
+import { getDesignStore } from "../../../lib/design-store";
+import { validateDesignInput } from "../../../lib/design-validation";
+import { loadProductionProfiles } from "../../../lib/production-config";
+import type { ProductionProfile } from "../../../lib/production-profiles";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const designs = await getDesignStore().list();
+    return NextResponse.json({ designs });
+  } catch (error) {
+    return designStoreUnavailable(error);
+  }
+}
+
+export async function POST(request: Request) {
+  const body = await readJsonBody(request);
+  if (body === undefined) {
+    return errorResponse(400, "The request body must be valid JSON.");
+  }
+  let profiles: ProductionProfile[];
+  try {
+    profiles = await loadProductionProfiles();
+  } catch (error) {
+    return productionProfilesUnavailable(error);
+  }
+  const result = validateDesignInput(body, profiles);
+  if (!result.ok) {
+    return errorResponse(422, "The design did not pass validation.", result.issues);
+  }
+  try {
+    const design = await getDesignStore().create({ name: result.name, document: result.document });
+    return NextResponse.json({ design }, { status: 201, headers: { Location: `/api/designs/${design.id}` } });
+  } catch (error) {
+    return designStoreUnavailable(error);
+  }
+}
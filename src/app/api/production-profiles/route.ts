@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+
+import { productionProfilesUnavailable } from "../../../lib/api-responses";
+import { loadProductionProfiles } from "../../../lib/production-config";
+import type { ProductionProfile } from "../../../lib/production-profiles";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  let profiles: ProductionProfile[];
+  try {
+    profiles = await loadProductionProfiles();
+  } catch (error) {
+    return productionProfilesUnavailable(error);
+  }
+  return NextResponse.json({ profiles });
+}
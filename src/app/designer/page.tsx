@@ -1,229 +1,933 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
-
-type BookFormState = {
-  id: number;
-  label: string;
-  heightCm: number;
-  spineWidthCm: number;
-  color: string;
-};
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type CSSProperties,
+  type DragEvent as ReactDragEvent,
+  type KeyboardEvent as ReactKeyboardEvent,
+  type PointerEvent as ReactPointerEvent,
+} from "react";
+
+import { ArtworkOverlaysPanel } from "../../components/designer/ArtworkOverlaysPanel";
+import { BookCsvPanel, type BookImportMode } from "../../components/designer/BookCsvPanel";
+import { BookLookup, type BookLookupPatch } from "../../components/designer/BookLookup";
+import { ColorProofPanel } from "../../components/designer/ColorProofPanel";
+import { HistoryPanel } from "../../components/designer/HistoryPanel";
+import { LengthInput } from "../../components/designer/LengthInput";
+import { PaperSizePicker } from "../../components/designer/PaperSizePicker";
+import { PrintMarginsPanel } from "../../components/designer/PrintMarginsPanel";
+import { PrintZonesOverlay } from "../../components/designer/PrintZonesOverlay";
+import { ProductionMarksOverlay } from "../../components/designer/ProductionMarksOverlay";
+import { ProductionProfilePicker } from "../../components/designer/ProductionProfilePicker";
+import { ProjectPanel } from "../../components/designer/ProjectPanel";
+import { ResolutionPanel } from "../../components/designer/ResolutionPanel";
+import { SpineTextEditor } from "../../components/designer/SpineTextEditor";
+import { TextLayersPanel } from "../../components/designer/TextLayersPanel";
+import {
+  ARTWORK_BLEND_MODES,
+  artworkSourceUrl,
+  clampArtworkOverlay,
+  computeOverlayOffsetLimits,
+  createArtworkOverlay,
+  cssBlendMode,
+  overlayDimensionsMm,
+  overlaySpines,
+  resolveOverlayPlacements,
+  type ArtworkBlendMode,
+  type ArtworkOverlay,
+} from "../../lib/artwork-layers";
+import {
+  ARTWORK_MAX_ZOOM,
+  ARTWORK_NUDGE_LARGE_MM,
+  ARTWORK_NUDGE_MM,
+  ARTWORK_MIN_CROP,
+  ARTWORK_ZOOM_STEP,
+  DEFAULT_ARTWORK_ORIENTATION,
+  clampArtworkCrop,
+  croppedArtworkDimensionsMm,
+  isFullArtworkCrop,
+  normaliseRotationDeg,
+  panArtwork,
+  previewPointToShelf,
+  rotateArtworkQuarter,
+  zoomArtworkAt,
+  type ArtworkCrop,
+  type ArtworkOrientation,
+  type ArtworkTransform,
+  type PointMm,
+} from "../../lib/artwork-transform";
+import type { BookMetadata } from "../../lib/book-catalogue";
+import { formatBooksCsv, type ImportedBook } from "../../lib/book-csv";
+import {
+  BUNDLED_FONTS,
+  buildFontLibrary,
+  readUploadedFont,
+  registerFontFaces,
+  uploadedFontDefinition,
+  type UploadedFont,
+} from "../../lib/fonts";
+import {
+  DEFAULT_PRINT_MARGINS,
+  DEFAULT_STACK_ALIGNMENT,
+  JACKET_PANEL_LABELS,
+  MAX_BOOK_OFFSET_MM,
+  STACK_ALIGNMENTS,
+  clamp,
+  cmToMm,
+  computeArtworkBounds,
+  computeOffsetLimits,
+  computeStackLayout,
+  mmToCm,
+  type ArtworkDimensionsMm,
+  type BookFormState,
+  type BookRect,
+  type LayoutMode,
+  type PrintMargins,
+  type StackAlignment,
+  type StackMetrics,
+} from "../../lib/geometry";
+import {
+  DEFAULT_PRINT_PROFILE_ID,
+  PRINT_PROFILES,
+  assessColorGamut,
+  findPrintProfile,
+  proofColor,
+  proofImage,
+} from "../../lib/color-proof";
+import {
+  createJacketPdf,
+  loadArtworkImage,
+  type ExportPageSize,
+} from "../../lib/pdf-export";
+import {
+  amendHistory,
+  createHistory,
+  jumpToHistory,
+  recordHistory,
+  type HistoryState,
+} from "../../lib/history";
+import {
+  DEFAULT_PAPER_ID,
+  PAPER_SIZES,
+  describeSheet,
+  findPaperSize,
+  resolveSheet,
+  type PaperOrientation,
+  type PaperSize,
+} from "../../lib/paper-sizes";
+import {
+  DEFAULT_DPI_THRESHOLDS,
+  assessArtworkResolution,
+  type ArtworkPixelSize,
+  type DpiThresholds,
+  type ResolutionLevel,
+} from "../../lib/print-resolution";
+import { computePrintZones } from "../../lib/print-zones";
+import { computeProductionMarks } from "../../lib/production-marks";
+import {
+  DEFAULT_PRODUCTION_PROFILE,
+  PRODUCTION_PROFILES,
+  checkBookRanges,
+  findProductionProfile,
+  mergeProductionProfiles,
+  parseProductionProfiles,
+  type ProductionProfile,
+} from "../../lib/production-profiles";
+import {
+  composeSpineLine,
+  createCanvasTextMeasure,
+  createSpineText,
+  fitSpineText,
+  type FittedSpineText,
+  type SpineText,
+  type SpineTextStyle,
+  type TextMeasure,
+} from "../../lib/spine-text";
+import {
+  createTextLayer,
+  resolveTextLayerBoxes,
+  textLayerCentreMm,
+  textLayerWrapWidthMm,
+  type TextLayer,
+  type TextLayerBox,
+} from "../../lib/text-layers";
+import { assessTextLayers, type TextLayerAssessment, type TextReport } from "../../lib/text-validation";
+import {
+  DEFAULT_UNIT_SYSTEM,
+  UNIT_SYSTEMS,
+  formatLength,
+  formatLengthValue,
+  unitSymbol,
+  type UnitSystem,
+} from "../../lib/units";
+import {
+  PROJECT_FILE_EXTENSION,
+  PROJECT_FORMAT,
+  PROJECT_SCHEMA_VERSION,
+  ProjectFileError,
+  embedProjectArtwork,
+  parseProjectDocument,
+  readAutosave,
+  serializeProjectDocument,
+  withoutArtwork,
+  writeAutosave,
+  type ProjectDocument,
+} from "../../lib/project-file";
+
+const PREVIEW_SCALE = 2; // pixels per millimetre for the preview canvas.
+const SHEET_PREVIEW_SCALE = 0.75; // pixels per millimetre for the per-sheet thumbnails.
+const DEFAULT_ARTWORK_SRC = "/desert-sunrise-plateau.svg";
+const AUTOSAVE_DELAY_MS = 800;
+/** Long edge of the soft-proofed preview images; the preview never shows artwork larger than this. */
+const PROOF_MAX_EDGE_PX = 1600;
 
-type BookRect = {
-  id: number;
-  label: string;
-  widthMm: number;
-  heightMm: number;
-  xMm: number;
-  yMm: number;
-  color: string;
+type ExportColorSpace = "rgb" | "cmyk";
+
+/** Object URLs for an image's soft-proofed appearance and its out-of-gamut highlight. */
+type ImagePreviewProof = {
+  proofUrl: string;
+  maskUrl: string;
+  outOfGamutShare: number;
 };
 
-type StackMetrics = {
-  totalWidthMm: number;
-  maxHeightMm: number;
-  minHeightMm: number;
-  requiredWidthMm: number;
-  requiredHeightMm: number;
-  collectionWidthCm: number;
-  fitsOnTabloid: boolean;
+const DEFAULT_BOOKS: BookFormState[] = [
+  {
+    id: 1,
+    label: "Book 1",
+    heightCm: 23.5,
+    spineWidthCm: 4.25,
+    coverWidthCm: 15.5,
+    flapWidthCm: 8,
+    color: "#2563eb",
+    isbn: null,
+    verticalOffsetMm: 0,
+    spineText: createSpineText(),
+  },
+  {
+    id: 2,
+    label: "Book 2",
+    heightCm: 23.5,
+    spineWidthCm: 4,
+    coverWidthCm: 15.5,
+    flapWidthCm: 8,
+    color: "#10b981",
+    isbn: null,
+    verticalOffsetMm: 0,
+    spineText: createSpineText(),
+  },
+  {
+    id: 3,
+    label: "Book 3",
+    heightCm: 23.5,
+    spineWidthCm: 4.75,
+    coverWidthCm: 15.5,
+    flapWidthCm: 8,
+    color: "#f97316",
+    isbn: null,
+    verticalOffsetMm: 0,
+    spineText: createSpineText(),
+  },
+  {
+    id: 4,
+    label: "Book 4",
+    heightCm: 23.5,
+    spineWidthCm: 2.25,
+    coverWidthCm: 15.5,
+    flapWidthCm: 8,
+    color: "#6366f1",
+    isbn: null,
+    verticalOffsetMm: 0,
+    spineText: createSpineText(),
+  },
+];
+
+const DEFAULT_LAYOUT = computeStackLayout(DEFAULT_BOOKS);
+
+const SPINE_RESOLUTION_TINTS: Record<ResolutionLevel, string> = {
+  ok: "transparent",
+  warning: "rgba(245, 158, 11, 0.25)",
+  error: "rgba(244, 63, 94, 0.3)",
 };
 
-type StackLayout = {
-  metrics: StackMetrics;
-  rects: BookRect[];
+type EditableBookField = Exclude<keyof BookFormState, "id" | "isbn" | "spineText">;
+
+const BOOK_FIELD_LABELS: Record<EditableBookField, string> = {
+  label: "name",
+  heightCm: "height",
+  spineWidthCm: "spine width",
+  coverWidthCm: "cover width",
+  flapWidthCm: "flap width",
+  color: "colour",
+  verticalOffsetMm: "vertical offset",
 };
 
-const CM_TO_MM = 10;
-const GAP_MM = 2;
-const CLEARANCE_SIDE_MM = 10;
-const CLEARANCE_TOP_MM = 2;
-const CLEARANCE_BOTTOM_MM = 2;
-const ART_SAFE_MARGIN_SIDE_MM = 10;
-const ART_SAFE_MARGIN_VERTICAL_MM = 2;
-const TABLOID_WIDTH_MM = 17 * 25.4;
-const TABLOID_HEIGHT_MM = 11 * 25.4;
-const PREVIEW_SCALE = 2; // pixels per millimetre for the preview canvas.
-const DEFAULT_ARTWORK_SRC = "/desert-sunrise-plateau.svg";
+type EditableTextLayerField = Exclude<keyof TextLayer, "id">;
 
-const DEFAULT_BOOKS: BookFormState[] = [
-  { id: 1, label: "Book 1", heightCm: 23.5, spineWidthCm: 4.25, color: "#2563eb" },
-  { id: 2, label: "Book 2", heightCm: 23.5, spineWidthCm: 4, color: "#10b981" },
-  { id: 3, label: "Book 3", heightCm: 23.5, spineWidthCm: 4.75, color: "#f97316" },
-  { id: 4, label: "Book 4", heightCm: 23.5, spineWidthCm: 2.25, color: "#6366f1" },
-];
+const TEXT_LAYER_FIELD_LABELS: Record<EditableTextLayerField, string> = {
+  name: "name",
+  text: "text",
+  visible: "visibility",
+  anchor: "anchor",
+  fontFamily: "font",
+  sizeMm: "size",
+  autoShrink: "shrink to fit",
+  weight: "weight",
+  color: "colour",
+  letterSpacingMm: "letter spacing",
+  lineHeight: "line height",
+  align: "alignment",
+  gutterMode: "gutter handling",
+  rotationDeg: "rotation",
+  offsetMm: "position",
+  outline: "outline",
+  shadow: "shadow",
+};
 
-const FONT_OPTIONS = [
-  { label: "Inter", value: "'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif" },
-  { label: "Playfair Display", value: "'Playfair Display', 'Times New Roman', serif" },
-  { label: "Crimson Text", value: "'Crimson Text', Georgia, serif" },
-  { label: "Montserrat", value: "'Montserrat', 'Helvetica Neue', sans-serif" },
-  { label: "Libre Baskerville", value: "'Libre Baskerville', 'Times New Roman', serif" },
-] as const;
+type EditableOverlayField = Exclude<keyof ArtworkOverlay, "id">;
 
-/**
- * Converts a numeric value in centimetres to millimetres so geometry rules can share a consistent unit.
- */
-function cmToMm(valueCm: number): number {
-  return valueCm * CM_TO_MM;
-}
+const OVERLAY_FIELD_LABELS: Record<EditableOverlayField, string> = {
+  name: "name",
+  visible: "visibility",
+  source: "image",
+  pixelSize: "image",
+  bookIds: "spines",
+  edge: "edge",
+  offsetMm: "position",
+  zoom: "size",
+  opacity: "opacity",
+  blendMode: "blend mode",
+};
 
 /**
- * Calculates stack metrics and per-book rectangles for the preview canvas while enforcing gap and clearance rules.
+ * In-progress pointer gesture on the preview. Gestures always recompute from their starting transform so clamping at
+ * a limit never accumulates drift.
  */
-function computeStackLayout(books: BookFormState[]): StackLayout {
-  const heightsMm = books.map((book) => cmToMm(book.heightCm));
-  const widthsMm = books.map((book) => cmToMm(book.spineWidthCm));
-  const maxHeightMm = heightsMm.length ? Math.max(...heightsMm) : 0;
-  const minHeightMm = heightsMm.length ? Math.min(...heightsMm) : 0;
-  const totalWidthMm = widthsMm.reduce((acc, width, index) => {
-    const gap = index === 0 ? 0 : GAP_MM;
-    return acc + width + gap;
-  }, 0);
-
-  const rects: BookRect[] = [];
-  let cursorMm = CLEARANCE_SIDE_MM;
-  books.forEach((book, index) => {
-    const widthMm = cmToMm(book.spineWidthCm);
-    const heightMm = cmToMm(book.heightCm);
-    if (index > 0) {
-      cursorMm += GAP_MM;
-    }
-    const xMm = cursorMm;
-    const yMm = CLEARANCE_TOP_MM + (maxHeightMm - heightMm);
-    rects.push({
-      id: book.id,
-      label: book.label,
-      widthMm,
-      heightMm,
-      xMm,
-      yMm,
-      color: book.color,
-    });
-    cursorMm += widthMm;
-  });
-
-  const requiredWidthMm = totalWidthMm + CLEARANCE_SIDE_MM * 2;
-  const requiredHeightMm = maxHeightMm + CLEARANCE_TOP_MM + CLEARANCE_BOTTOM_MM;
-  const fitsOnTabloid = requiredWidthMm <= TABLOID_WIDTH_MM && requiredHeightMm <= TABLOID_HEIGHT_MM;
-
-  return {
-    metrics: {
-      totalWidthMm,
-      maxHeightMm,
-      minHeightMm,
-      requiredWidthMm,
-      requiredHeightMm,
-      collectionWidthCm: totalWidthMm / CM_TO_MM,
-      fitsOnTabloid,
-    },
-    rects,
-  };
-}
+type ArtworkGesture =
+  | { kind: "pan"; startPoint: PointMm; startTransform: ArtworkTransform }
+  | {
+      kind: "pinch";
+      startDistance: number;
+      startMidpoint: PointMm;
+      startAnchorMm: PointMm;
+      startTransform: ArtworkTransform;
+    };
 
-const DEFAULT_LAYOUT = computeStackLayout(DEFAULT_BOOKS);
+const WHEEL_ZOOM_SENSITIVITY = 0.002;
 
-function formatMillimetres(valueMm: number): string {
-  return `${(valueMm / CM_TO_MM).toFixed(1)} cm`;
+function distanceBetween(a: PointMm, b: PointMm): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
 }
 
-function formatClearanceSummary(metrics: StackMetrics): string {
-  const widthCm = (metrics.requiredWidthMm / CM_TO_MM).toFixed(2);
-  const heightCm = (metrics.requiredHeightMm / CM_TO_MM).toFixed(2);
-  return `${widthCm} cm × ${heightCm} cm required including clearances`;
+function midpointOf(a: PointMm, b: PointMm): PointMm {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
 }
 
-function clamp(value: number, min: number, max: number): number {
-  return Math.min(Math.max(value, min), max);
+/**
+ * What the next change to the design state represents: a labelled user edit, a jump through history, or a fresh
+ * starting point (restored session). Changes with no intent are automatic adjustments and fold into the current step.
+ */
+type HistoryIntent =
+  | { kind: "record"; label: string; coalesceKey: string | null }
+  | { kind: "restore" }
+  | { kind: "reset"; label: string };
+
+function formatStackSize(metrics: StackMetrics, units: UnitSystem): string {
+  return `${formatLengthValue(metrics.requiredWidthMm, units)} × ${formatLength(metrics.requiredHeightMm, units)}`;
 }
 
-type ArtworkDimensionsMm = {
-  widthMm: number;
-  heightMm: number;
-};
+function formatClearanceSummary(metrics: StackMetrics, units: UnitSystem): string {
+  return `${formatStackSize(metrics, units)} required including clearances`;
+}
 
-function computeArtworkBounds(metrics: StackMetrics, artworkDimensions: ArtworkDimensionsMm) {
-  const safeWidthMm = metrics.totalWidthMm + ART_SAFE_MARGIN_SIDE_MM * 2;
-  const safeHeightMm = metrics.maxHeightMm + ART_SAFE_MARGIN_VERTICAL_MM * 2;
-  const fallbackWidthMm = metrics.requiredWidthMm || safeWidthMm;
-  const fallbackHeightMm = metrics.requiredHeightMm || safeHeightMm;
-  const baseWidthMm = artworkDimensions.widthMm || fallbackWidthMm;
-  const baseHeightMm = artworkDimensions.heightMm || fallbackHeightMm;
-  const minZoomRaw = Math.max(safeWidthMm / baseWidthMm, safeHeightMm / baseHeightMm);
-  const minZoom = Number.isFinite(minZoomRaw) && minZoomRaw > 0 ? minZoomRaw : 1;
-
-  return {
-    safeWidthMm,
-    safeHeightMm,
-    containerWidthMm: metrics.requiredWidthMm,
-    containerHeightMm: metrics.requiredHeightMm,
-    minZoom,
-  } as const;
+/** Fields where Ctrl/Cmd+Z should undo typing rather than the design. */
+function isEditableTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.tagName === "SELECT")
+  );
 }
 
-function computeOffsetLimits(
-  bounds: ReturnType<typeof computeArtworkBounds>,
-  artworkDimensions: ArtworkDimensionsMm,
-  zoom: number,
-) {
-  const baseWidthMm = artworkDimensions.widthMm || bounds.safeWidthMm;
-  const baseHeightMm = artworkDimensions.heightMm || bounds.safeHeightMm;
-  const artWidthMm = baseWidthMm * zoom;
-  const artHeightMm = baseHeightMm * zoom;
-  const horizontalRoomMm = Math.max((artWidthMm - bounds.safeWidthMm) / 2, 0);
-  const verticalRoomMm = Math.max((artHeightMm - bounds.safeHeightMm) / 2, 0);
-
-  return {
-    minX: -horizontalRoomMm,
-    maxX: horizontalRoomMm,
-    minY: -verticalRoomMm,
-    maxY: verticalRoomMm,
-  } as const;
+/**
+ * Saves `blob` under `fileName`. The object URL is revoked a tick later because some browsers (Firefox and Safari
+ * among them) start the download asynchronously and save nothing if it is revoked straight after the click.
+ */
+function downloadBlob(blob: Blob, fileName: string) {
+  const objectUrl = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = objectUrl;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(objectUrl), 0);
 }
 
 export default function DesignerPage() {
   const [books, setBooks] = useState<BookFormState[]>(DEFAULT_BOOKS);
   const [nextId, setNextId] = useState<number>(DEFAULT_BOOKS.length + 1);
+  const [draggedBookId, setDraggedBookId] = useState<number | null>(null);
+  const [bookDropTargetId, setBookDropTargetId] = useState<number | null>(null);
   const [artOffsetMm, setArtOffsetMm] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
   const [artZoom, setArtZoom] = useState<number>(1);
   const [artworkSrc, setArtworkSrc] = useState<string>(DEFAULT_ARTWORK_SRC);
-  const artworkObjectUrlRef = useRef<string | null>(null);
+  // Object URLs for uploaded artwork stay alive until unmount so undo can return to an earlier upload.
+  const artworkObjectUrlsRef = useRef<Set<string>>(new Set());
+  // Proofs are kept per profile and source so switching back and forth does not re-proof the artwork.
+  const imageProofCacheRef = useRef<Map<string, ImagePreviewProof>>(new Map());
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [uploadedArtworkName, setUploadedArtworkName] = useState<string | null>(null);
   const [hasManualZoom, setHasManualZoom] = useState<boolean>(false);
   const [hasManualOffset, setHasManualOffset] = useState<boolean>(false);
-  const [showLargeText, setShowLargeText] = useState<boolean>(false);
-  const [largeText, setLargeText] = useState<string>("Collection Title");
-  const [largeTextFont, setLargeTextFont] = useState<string>(FONT_OPTIONS[0]?.value ?? "sans-serif");
-  const [largeTextSizePx, setLargeTextSizePx] = useState<number>(72);
+  const [artOrientation, setArtOrientation] = useState<ArtworkOrientation>(DEFAULT_ARTWORK_ORIENTATION);
+  const [artOpacity, setArtOpacity] = useState<number>(1);
+  const [artBlendMode, setArtBlendMode] = useState<ArtworkBlendMode>("normal");
+  const [artworkOverlays, setArtworkOverlays] = useState<ArtworkOverlay[]>([]);
+  const [activeOverlayId, setActiveOverlayId] = useState<number | null>(null);
+  const [overlayUploadError, setOverlayUploadError] = useState<string | null>(null);
+  const [textLayers, setTextLayers] = useState<TextLayer[]>([]);
+  const [activeTextLayerId, setActiveTextLayerId] = useState<number | null>(null);
+  const [uploadedFonts, setUploadedFonts] = useState<UploadedFont[]>([]);
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>("spines");
+  const [stackAlignment, setStackAlignment] = useState<StackAlignment>(DEFAULT_STACK_ALIGNMENT);
+  const [exportPageSize, setExportPageSize] = useState<ExportPageSize>("sheet");
+  const [exportProductionMarks, setExportProductionMarks] = useState<boolean>(true);
+  const [showProductionMarks, setShowProductionMarks] = useState<boolean>(false);
+  const [printMargins, setPrintMargins] = useState<PrintMargins>(DEFAULT_PRINT_MARGINS);
+  const [showPrintZones, setShowPrintZones] = useState<boolean>(false);
+  const [productionProfiles, setProductionProfiles] = useState<ProductionProfile[]>(PRODUCTION_PROFILES);
+  const [productionProfile, setProductionProfile] = useState<ProductionProfile>(DEFAULT_PRODUCTION_PROFILE);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+  const [printProfileId, setPrintProfileId] = useState<string>(DEFAULT_PRINT_PROFILE_ID);
+  const [softProof, setSoftProof] = useState<boolean>(false);
+  const [showGamutWarnings, setShowGamutWarnings] = useState<boolean>(false);
+  const [imageProofs, setImageProofs] = useState<ReadonlyMap<string, ImagePreviewProof>>(new Map());
+  const [proofError, setProofError] = useState<string | null>(null);
+  const [exportColorSpace, setExportColorSpace] = useState<ExportColorSpace>("rgb");
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [paperSizes, setPaperSizes] = useState<PaperSize[]>(PAPER_SIZES);
+  const [paperId, setPaperId] = useState<string>(DEFAULT_PAPER_ID);
+  const [paperOrientation, setPaperOrientation] = useState<PaperOrientation>("landscape");
+  const [artworkIsVector, setArtworkIsVector] = useState<boolean>(true);
+  const [artworkPixelSize, setArtworkPixelSize] = useState<ArtworkPixelSize>({
+    widthPx: DEFAULT_LAYOUT.metrics.requiredWidthMm * PREVIEW_SCALE,
+    heightPx: DEFAULT_LAYOUT.metrics.requiredHeightMm * PREVIEW_SCALE,
+  });
+  const [dpiThresholds, setDpiThresholds] = useState<DpiThresholds>(DEFAULT_DPI_THRESHOLDS);
   const [artworkDimensionsMm, setArtworkDimensionsMm] = useState<ArtworkDimensionsMm>({
     widthMm: DEFAULT_LAYOUT.metrics.requiredWidthMm,
     heightMm: DEFAULT_LAYOUT.metrics.requiredHeightMm,
   });
-  const layout = useMemo(() => computeStackLayout(books), [books]);
+  const [projectStatus, setProjectStatus] = useState<{ tone: "info" | "error"; message: string } | null>(null);
+  const [lastAutosavedAt, setLastAutosavedAt] = useState<string | null>(null);
+  const [hasRestoredAutosave, setHasRestoredAutosave] = useState<boolean>(false);
+  // Placement from an opened project waits for its artwork to load so the offset clamp uses the right dimensions.
+  const pendingPlacementRef = useRef<{ src: string; offsetMm: { x: number; y: number }; zoom: number } | null>(null);
+  const previewArtworkSrc = artworkSrc || DEFAULT_ARTWORK_SRC;
+  const sheet = useMemo(
+    () => resolveSheet(findPaperSize(paperSizes, paperId), paperOrientation),
+    [paperSizes, paperId, paperOrientation],
+  );
+  const sheetLabel = describeSheet(sheet);
+  const layout = useMemo(
+    () => computeStackLayout(books, sheet, layoutMode, printMargins, productionProfile, stackAlignment),
+    [books, sheet, layoutMode, printMargins, productionProfile, stackAlignment],
+  );
+  // Book inputs are stored in centimetres; this writes them (and profile limits) in the chosen units.
+  const formatBookLength = useCallback((valueCm: number) => formatLength(cmToMm(valueCm), unitSystem), [unitSystem]);
+  const bookRangeIssues = useMemo(
+    () =>
+      new Map(
+        books.map((book) => [
+          book.id,
+          checkBookRanges(book, productionProfile, layoutMode === "jacket", formatBookLength),
+        ]),
+      ),
+    [books, productionProfile, layoutMode, formatBookLength],
+  );
+  // Books outside the profile's ranges cannot be printed by it, so they block export like resolution and text errors.
+  const bookRangeBlocker = useMemo(() => {
+    for (const book of books) {
+      const issue = bookRangeIssues.get(book.id)?.[0];
+      if (issue) {
+        return { book, issue };
+      }
+    }
+    return null;
+  }, [books, bookRangeIssues]);
+  const shelf = layout.shelf;
+  const productionMarks = useMemo(() => computeProductionMarks(layout), [layout]);
+  const sheetProductionMarks = useMemo(
+    () =>
+      layout.sheets.map((sheet) =>
+        computeProductionMarks(sheet, undefined, `Sheet ${sheet.index + 1} of ${layout.sheets.length}`),
+      ),
+    [layout.sheets],
+  );
+  const printZones = useMemo(() => computePrintZones(layout), [layout]);
+  const sheetPrintZones = useMemo(() => layout.sheets.map((sheet) => computePrintZones(sheet)), [layout.sheets]);
+  const effectiveExportPageSize: ExportPageSize = layout.metrics.fitsTiledSheets ? exportPageSize : "stack";
+  const croppedDimensionsMm = useMemo(
+    () => croppedArtworkDimensionsMm(artworkDimensionsMm, artOrientation.crop),
+    [artworkDimensionsMm, artOrientation.crop],
+  );
   const artworkBounds = useMemo(
-    () => computeArtworkBounds(layout.metrics, artworkDimensionsMm),
-    [layout.metrics, artworkDimensionsMm],
+    () => computeArtworkBounds(shelf.metrics, croppedDimensionsMm, artOrientation.rotationDeg),
+    [shelf.metrics, croppedDimensionsMm, artOrientation.rotationDeg],
   );
   const offsetLimits = useMemo(
-    () => computeOffsetLimits(artworkBounds, artworkDimensionsMm, artZoom),
-    [artworkBounds, artworkDimensionsMm, artZoom],
+    () => computeOffsetLimits(artworkBounds, croppedDimensionsMm, artZoom),
+    [artworkBounds, croppedDimensionsMm, artZoom],
+  );
+  const resolutionReport = useMemo(
+    () =>
+      assessArtworkResolution(
+        shelf,
+        {
+          dimensionsMm: croppedDimensionsMm,
+          offsetMm: artOffsetMm,
+          zoom: artZoom,
+          rotationDeg: artOrientation.rotationDeg,
+        },
+        {
+          widthPx: artworkPixelSize.widthPx * artOrientation.crop.width,
+          heightPx: artworkPixelSize.heightPx * artOrientation.crop.height,
+        },
+        artworkIsVector,
+        dpiThresholds,
+      ),
+    [shelf, croppedDimensionsMm, artOffsetMm, artZoom, artOrientation, artworkPixelSize, artworkIsVector, dpiThresholds],
+  );
+  const overlayPlacements = useMemo(
+    () =>
+      artworkOverlays
+        .filter((overlay) => overlay.visible)
+        .map((overlay) => ({ overlay, placements: resolveOverlayPlacements(overlay, layout.rects) })),
+    [artworkOverlays, layout.rects],
+  );
+  const activeOverlayLimits = useMemo(() => {
+    const overlay = artworkOverlays.find((candidate) => candidate.id === activeOverlayId);
+    if (!overlay) {
+      return null;
+    }
+    const spines = overlaySpines(overlay, layout.rects);
+    return computeOverlayOffsetLimits(overlay.edge, spines, overlayDimensionsMm(overlay, spines));
+  }, [artworkOverlays, activeOverlayId, layout.rects]);
+  const spineResolutionLevels = useMemo(
+    () => new Map(resolutionReport.spines.map((spine) => [spine.id, spine.level])),
+    [resolutionReport.spines],
+  );
+  const textLayerBoxes = useMemo(
+    () =>
+      textLayers
+        .filter((layer) => layer.visible && layer.text.trim().length > 0)
+        .map((layer) => ({ layer, boxes: resolveTextLayerBoxes(layer, layout) })),
+    [textLayers, layout],
+  );
+  const fontLibrary = useMemo(() => buildFontLibrary(uploadedFonts), [uploadedFonts]);
+  // Canvas measurement only exists in the browser, so spine text is fitted (and rendered) after mount. The revision
+  // moves on again whenever library fonts finish loading, so text measured against a fallback face is re-measured.
+  const [textMeasureRevision, setTextMeasureRevision] = useState<number>(0);
+  useEffect(() => {
+    let isCancelled = false;
+    setTextMeasureRevision((revision) => revision + 1);
+    registerFontFaces(fontLibrary).then(() => {
+      if (!isCancelled) {
+        setTextMeasureRevision((revision) => revision + 1);
+      }
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [fontLibrary]);
+  const fittedSpineTexts = useMemo(() => {
+    const fitted = new Map<number, FittedSpineText>();
+    if (textMeasureRevision === 0) {
+      return fitted;
+    }
+    const measures = new Map<string, TextMeasure>();
+    const booksById = new Map(books.map((book) => [book.id, book]));
+    layout.rects.forEach((rect) => {
+      const book = booksById.get(rect.id);
+      if (!book) {
+        return;
+      }
+      const { fontFamily } = book.spineText.style;
+      let measure = measures.get(fontFamily);
+      if (!measure) {
+        measure = createCanvasTextMeasure(fontFamily);
+        measures.set(fontFamily, measure);
+      }
+      const result = fitSpineText(book.spineText, rect, measure, layout.metrics.margins.safeMarginMm);
+      if (result) {
+        fitted.set(rect.id, result);
+      }
+    });
+    return fitted;
+  }, [books, layout.rects, layout.metrics.margins.safeMarginMm, textMeasureRevision]);
+  const textReport = useMemo<TextReport>(() => {
+    if (textMeasureRevision === 0) {
+      return { level: "ok", layers: [] };
+    }
+    const measures = new Map<string, TextMeasure>();
+    const measureFor = (layer: TextLayer) => {
+      const key = `${layer.weight} ${layer.fontFamily}`;
+      let measure = measures.get(key);
+      if (!measure) {
+        measure = createCanvasTextMeasure(layer.fontFamily, layer.weight);
+        measures.set(key, measure);
+      }
+      return measure;
+    };
+    return assessTextLayers(textLayers, layout, measureFor, unitSystem);
+  }, [textLayers, layout, textMeasureRevision, unitSystem]);
+  const textAssessments = useMemo(
+    () => new Map<number, TextLayerAssessment>(textReport.layers.map((assessment) => [assessment.id, assessment])),
+    [textReport.layers],
+  );
+  const printProfile = findPrintProfile(PRINT_PROFILES, printProfileId);
+  const isProofingImages = softProof || showGamutWarnings;
+  // Joined so that moving or resizing an overlay does not start another proof of the same images.
+  const proofSourcesKey = useMemo(
+    () =>
+      Array.from(
+        new Set([
+          previewArtworkSrc,
+          ...artworkOverlays.filter((overlay) => overlay.visible).map((overlay) => artworkSourceUrl(overlay.source)),
+        ]),
+      ).join("\n"),
+    [previewArtworkSrc, artworkOverlays],
+  );
+  const colorGamutIssues = useMemo(() => {
+    const colors: { label: string; hex: string }[] = [];
+    textLayers
+      .filter((layer) => layer.visible && layer.text.trim().length > 0)
+      .forEach((layer) => {
+        colors.push({ label: `${layer.name} text`, hex: layer.color });
+        if (layer.outline.enabled && layer.outline.widthMm > 0) {
+          colors.push({ label: `${layer.name} outline`, hex: layer.outline.color });
+        }
+        if (layer.shadow.enabled) {
+          colors.push({ label: `${layer.name} shadow`, hex: layer.shadow.color });
+        }
+      });
+    books.forEach((book) => {
+      if (composeSpineLine(book.spineText)) {
+        colors.push({ label: `${book.label} spine text`, hex: book.spineText.style.color });
+      }
+      if (layoutMode === "jacket") {
+        colors.push({ label: `${book.label} jacket colour`, hex: book.color });
+      }
+    });
+    return assessColorGamut(colors, printProfile);
+  }, [textLayers, books, layoutMode, printProfile]);
+  const projectDocument = useMemo<ProjectDocument>(
+    () => ({
+      format: PROJECT_FORMAT,
+      version: PROJECT_SCHEMA_VERSION,
+      savedAt: "",
+      books,
+      layoutMode,
+      stackAlignment,
+      paper: {
+        id: paperId,
+        orientation: paperOrientation,
+        custom: paperSizes.filter((paper) => paper.custom),
+      },
+      artwork: {
+        source:
+          artworkSrc === DEFAULT_ARTWORK_SRC
+            ? null
+            : { kind: "reference", url: artworkSrc, name: uploadedArtworkName, isVector: artworkIsVector },
+        offsetMm: artOffsetMm,
+        zoom: artZoom,
+        orientation: artOrientation,
+        hasManualOffset,
+        hasManualZoom,
+        dpiThresholds,
+        opacity: artOpacity,
+        blendMode: artBlendMode,
+        overlays: artworkOverlays,
+      },
+      textLayers,
+      fonts: uploadedFonts,
+      print: printMargins,
+      production: productionProfile,
+      units: unitSystem,
+    }),
+    [
+      books,
+      layoutMode,
+      stackAlignment,
+      paperId,
+      paperOrientation,
+      paperSizes,
+      artworkSrc,
+      uploadedArtworkName,
+      artworkIsVector,
+      artOffsetMm,
+      artZoom,
+      artOrientation,
+      hasManualOffset,
+      hasManualZoom,
+      dpiThresholds,
+      artOpacity,
+      artBlendMode,
+      artworkOverlays,
+      textLayers,
+      uploadedFonts,
+      printMargins,
+      productionProfile,
+      unitSystem,
+    ],
+  );
+
+  const [history, setHistory] = useState<HistoryState<ProjectDocument>>(() =>
+    createHistory(projectDocument, "Start"),
+  );
+  const historyIntentRef = useRef<HistoryIntent | null>(null);
+
+  const trackEdit = (label: string, coalesceKey: string | null = null) => {
+    historyIntentRef.current = { kind: "record", label, coalesceKey };
+  };
+
+  /**
+   * Sets every piece of design state from a document whose artwork has already been resolved to a displayable URL.
+   */
+  const applyDesignState = useCallback((project: ProjectDocument, nextArtworkSrc: string, intent: HistoryIntent) => {
+    const source = project.artwork.source;
+    historyIntentRef.current = intent;
+    pendingPlacementRef.current = {
+      src: nextArtworkSrc,
+      offsetMm: project.artwork.offsetMm,
+      zoom: project.artwork.zoom,
+    };
+
+    setBooks(project.books);
+    setNextId(Math.max(...project.books.map((book) => book.id)) + 1);
+    setLayoutMode(project.layoutMode);
+    setStackAlignment(project.stackAlignment);
+    setPaperSizes([...PAPER_SIZES, ...project.paper.custom]);
+    setPaperId(project.paper.id);
+    setPaperOrientation(project.paper.orientation);
+    setArtworkSrc(nextArtworkSrc);
+    setArtworkIsVector(nextArtworkSrc === DEFAULT_ARTWORK_SRC ? true : source?.isVector ?? false);
+    setUploadedArtworkName(nextArtworkSrc === DEFAULT_ARTWORK_SRC ? null : source?.name ?? null);
+    setUploadError(null);
+    setArtOffsetMm(project.artwork.offsetMm);
+    setArtZoom(project.artwork.zoom);
+    setArtOrientation(project.artwork.orientation);
+    setHasManualOffset(project.artwork.hasManualOffset);
+    setHasManualZoom(project.artwork.hasManualZoom);
+    setDpiThresholds(project.artwork.dpiThresholds);
+    setArtOpacity(project.artwork.opacity);
+    setArtBlendMode(project.artwork.blendMode);
+    setArtworkOverlays(project.artwork.overlays);
+    setActiveOverlayId((current) =>
+      project.artwork.overlays.some((overlay) => overlay.id === current)
+        ? current
+        : project.artwork.overlays[0]?.id ?? null,
+    );
+    setOverlayUploadError(null);
+    setTextLayers(project.textLayers);
+    setUploadedFonts(project.fonts);
+    setPrintMargins(project.print);
+    setProductionProfile(project.production);
+    setUnitSystem(project.units);
+    // Like custom paper, a profile this build does not offer travels with the project so it can still be chosen.
+    setProductionProfiles((current) =>
+      current.some((profile) => profile.id === project.production.id) ? current : [...current, project.production],
+    );
+    setActiveTextLayerId((current) =>
+      project.textLayers.some((layer) => layer.id === current) ? current : project.textLayers[0]?.id ?? null,
+    );
+  }, []);
+
+  const applyProjectDocument = useCallback(
+    async (project: ProjectDocument, intent: HistoryIntent) => {
+      let nextArtworkSrc = DEFAULT_ARTWORK_SRC;
+      const source = project.artwork.source;
+      if (source?.kind === "embedded") {
+        const response = await fetch(source.dataUrl);
+        nextArtworkSrc = URL.createObjectURL(await response.blob());
+        artworkObjectUrlsRef.current.add(nextArtworkSrc);
+      } else if (source?.kind === "reference" && !source.url.startsWith("blob:")) {
+        nextArtworkSrc = source.url;
+      }
+      applyDesignState(project, nextArtworkSrc, intent);
+    },
+    [applyDesignState],
+  );
+
+  const handleJumpToHistory = useCallback(
+    (index: number) => {
+      const target = jumpToHistory(history, index);
+      if (target === history) {
+        return;
+      }
+      const snapshot = target.present.snapshot;
+      // History snapshots come from live state, so uploaded artwork is still a reference to its object URL.
+      const source = snapshot.artwork.source;
+      applyDesignState(snapshot, source?.kind === "reference" ? source.url : DEFAULT_ARTWORK_SRC, { kind: "restore" });
+      setHistory(target);
+    },
+    [history, applyDesignState],
   );
-  const maxLargeTextSizePx = useMemo(() => {
-    const availableHeightPx = layout.metrics.minHeightMm * PREVIEW_SCALE;
-    return availableHeightPx > 0 ? Math.max(24, availableHeightPx * 0.8) : 72;
-  }, [layout.metrics.minHeightMm]);
 
   useEffect(() => {
+    const intent = historyIntentRef.current;
+    historyIntentRef.current = null;
+    setHistory((current) => {
+      if (current.present.snapshot === projectDocument) {
+        return current;
+      }
+      if (intent?.kind === "record") {
+        return recordHistory(current, projectDocument, intent.label, intent.coalesceKey, Date.now());
+      }
+      if (intent?.kind === "reset") {
+        return createHistory(projectDocument, intent.label);
+      }
+      return amendHistory(current, projectDocument);
+    });
+  }, [projectDocument]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditableTarget(event.target)) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      const isRedo = (key === "z" && event.shiftKey) || (key === "y" && !event.shiftKey);
+      const isUndo = key === "z" && !event.shiftKey;
+      if (!isUndo && !isRedo) {
+        return;
+      }
+      event.preventDefault();
+      handleJumpToHistory(history.past.length + (isRedo ? 1 : -1));
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleJumpToHistory, history.past.length]);
+
+  useEffect(() => {
+    let isCancelled = false;
+    fetch("/api/production-profiles")
+      .then((response) => (response.ok ? response.json() : Promise.reject(new Error(response.statusText))))
+      .then((body: unknown) => {
+        if (!isCancelled) {
+          const configured = parseProductionProfiles(body);
+          setProductionProfiles((current) => mergeProductionProfiles(current, configured));
+        }
+      })
+      // Without the server's list the designer keeps offering the built-in profiles.
+      .catch(() => undefined);
     return () => {
-      if (artworkObjectUrlRef.current) {
-        URL.revokeObjectURL(artworkObjectUrlRef.current);
-        artworkObjectUrlRef.current = null;
+      isCancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const saved = readAutosave();
+    if (!saved) {
+      setHasRestoredAutosave(true);
+      return;
+    }
+    applyProjectDocument(saved, { kind: "reset", label: "Restored session" })
+      .then(() => setProjectStatus({ tone: "info", message: "Restored your last session from this browser." }))
+      .catch(() => setProjectStatus({ tone: "error", message: "The autosaved session could not be restored." }))
+      .finally(() => setHasRestoredAutosave(true));
+  }, [applyProjectDocument]);
+
+  useEffect(() => {
+    if (!hasRestoredAutosave) {
+      return;
+    }
+    let isCancelled = false;
+    const timer = window.setTimeout(async () => {
+      const savedAt = new Date().toISOString();
+      let snapshot: ProjectDocument = { ...projectDocument, savedAt };
+      try {
+        snapshot = await embedProjectArtwork(snapshot);
+      } catch {
+        snapshot = withoutArtwork(snapshot);
+      }
+      if (isCancelled) {
+        return;
+      }
+      if (writeAutosave(snapshot)) {
+        setLastAutosavedAt(savedAt);
+      } else if (writeAutosave(withoutArtwork(snapshot))) {
+        setLastAutosavedAt(savedAt);
+        setProjectStatus({
+          tone: "info",
+          message: "Autosaved without the artwork — it is too large for browser storage. Save a project file to keep it.",
+        });
       }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => {
+      isCancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [projectDocument, hasRestoredAutosave]);
+
+  useEffect(() => {
+    const objectUrls = artworkObjectUrlsRef.current;
+    const proofs = imageProofCacheRef.current;
+    return () => {
+      objectUrls.forEach((url) => URL.revokeObjectURL(url));
+      objectUrls.clear();
+      proofs.forEach((proof) => {
+        URL.revokeObjectURL(proof.proofUrl);
+        URL.revokeObjectURL(proof.maskUrl);
+      });
+      proofs.clear();
     };
   }, []);
 
+  useEffect(() => {
+    if (!isProofingImages) {
+      return;
+    }
+    let isCancelled = false;
+    const cache = imageProofCacheRef.current;
+    (async () => {
+      const proofs = new Map<string, ImagePreviewProof>();
+      let failure: string | null = null;
+      for (const src of proofSourcesKey.split("\n")) {
+        const key = `${printProfile.id}\n${src}`;
+        let proof = cache.get(key);
+        if (!proof) {
+          try {
+            const result = await proofImage(src, printProfile, PROOF_MAX_EDGE_PX);
+            proof = {
+              proofUrl: URL.createObjectURL(result.proof),
+              maskUrl: URL.createObjectURL(result.gamutMask),
+              outOfGamutShare: result.outOfGamutShare,
+            };
+            cache.set(key, proof);
+          } catch {
+            failure = "Some artwork could not be proofed (images linked from other sites cannot be read back).";
+            continue;
+          }
+        }
+        proofs.set(src, proof);
+        if (isCancelled) {
+          return;
+        }
+      }
+      if (!isCancelled) {
+        setImageProofs(proofs);
+        setProofError(failure);
+      }
+    })();
+    return () => {
+      isCancelled = true;
+    };
+  }, [isProofingImages, printProfile, proofSourcesKey]);
+
   useEffect(() => {
     let isCancelled = false;
     const image = new Image();
@@ -234,10 +938,17 @@ export default function DesignerPage() {
       }
       const width = image.naturalWidth || DEFAULT_LAYOUT.metrics.requiredWidthMm * PREVIEW_SCALE;
       const height = image.naturalHeight || DEFAULT_LAYOUT.metrics.requiredHeightMm * PREVIEW_SCALE;
+      setArtworkPixelSize({ widthPx: width, heightPx: height });
       setArtworkDimensionsMm({
         widthMm: width / PREVIEW_SCALE,
         heightMm: height / PREVIEW_SCALE,
       });
+      const pendingPlacement = pendingPlacementRef.current;
+      if (pendingPlacement?.src === previewArtworkSrc) {
+        pendingPlacementRef.current = null;
+        setArtOffsetMm(pendingPlacement.offsetMm);
+        setArtZoom(pendingPlacement.zoom);
+      }
     };
     image.src = previewArtworkSrc;
 
@@ -270,65 +981,1073 @@ export default function DesignerPage() {
     });
   }, [offsetLimits, hasManualOffset]);
 
-  useEffect(() => {
-    setLargeTextSizePx((current) => clamp(current, 24, maxLargeTextSizePx));
-  }, [maxLargeTextSizePx]);
+  // Resizing or removing spines can leave an overlay poking out of the narrowest one.
+  useEffect(() => {
+    setArtworkOverlays((current) => {
+      let hasChanged = false;
+      const clamped = current.map((overlay) => {
+        const next = clampArtworkOverlay(overlay, layout.rects);
+        if (
+          next.zoom === overlay.zoom &&
+          next.opacity === overlay.opacity &&
+          next.offsetMm.x === overlay.offsetMm.x &&
+          next.offsetMm.y === overlay.offsetMm.y
+        ) {
+          return overlay;
+        }
+        hasChanged = true;
+        return next;
+      });
+      return hasChanged ? clamped : current;
+    });
+  }, [layout.rects]);
+
+  const handleUpdateBook = (id: number, key: EditableBookField, value: string | number) => {
+    const bookLabel = books.find((book) => book.id === id)?.label ?? "book";
+    trackEdit(`Edit ${bookLabel} ${BOOK_FIELD_LABELS[key]}`, `book:${id}:${key}`);
+    setBooks((current) =>
+      current.map((book) =>
+        book.id === id
+          ? {
+              ...book,
+              [key]: key === "label" || key === "color" ? value : Number(value),
+            }
+          : book,
+      ),
+    );
+  };
+
+  const handleAddBook = () => {
+    trackEdit("Add book");
+    setBooks((current) => [
+      ...current,
+      {
+        id: nextId,
+        label: `Book ${nextId}`,
+        heightCm: current[current.length - 1]?.heightCm ?? 22,
+        spineWidthCm: 3.5,
+        coverWidthCm: current[current.length - 1]?.coverWidthCm ?? 15.5,
+        flapWidthCm: current[current.length - 1]?.flapWidthCm ?? 8,
+        color: "#0ea5e9",
+        isbn: null,
+        verticalOffsetMm: 0,
+        spineText: {
+          ...createSpineText(),
+          style: { ...(current[current.length - 1]?.spineText.style ?? createSpineText().style) },
+        },
+      },
+    ]);
+    setNextId((value) => value + 1);
+  };
+
+  /**
+   * Adds or swaps in books from a CSV import. Fields the file leaves out follow the last book, as "Add another book"
+   * does; replacing the list detaches text layers and overlays from the books it removes.
+   */
+  const handleImportBooks = (imported: ImportedBook[], mode: BookImportMode) => {
+    if (imported.length === 0) {
+      return;
+    }
+    const count = `${imported.length} ${imported.length === 1 ? "book" : "books"}`;
+    trackEdit(mode === "replace" ? `Replace books with ${count} from CSV` : `Import ${count} from CSV`);
+    const template = books[books.length - 1];
+    const added: BookFormState[] = imported.map((book, index) => ({
+      id: nextId + index,
+      label: book.label ?? `Book ${nextId + index}`,
+      heightCm: book.heightCm,
+      spineWidthCm: book.spineWidthCm,
+      coverWidthCm: template?.coverWidthCm ?? 15.5,
+      flapWidthCm: template?.flapWidthCm ?? 8,
+      color: book.color ?? "#0ea5e9",
+      isbn: book.isbn,
+      verticalOffsetMm: 0,
+      spineText: {
+        ...createSpineText(),
+        style: { ...(template?.spineText.style ?? createSpineText().style) },
+      },
+    }));
+    setBooks((current) => (mode === "replace" ? added : [...current, ...added]));
+    setNextId((value) => value + imported.length);
+    if (mode === "replace") {
+      const removedIds = new Set(books.map((book) => book.id));
+      setTextLayers((current) =>
+        current.map((layer) =>
+          layer.anchor.kind === "spine" && removedIds.has(layer.anchor.bookId)
+            ? { ...layer, anchor: { kind: "stack" } }
+            : layer,
+        ),
+      );
+      setArtworkOverlays((current) =>
+        current.map((overlay) => ({ ...overlay, bookIds: overlay.bookIds.filter((bookId) => !removedIds.has(bookId)) })),
+      );
+    }
+  };
+
+  const handleExportBooksCsv = () => {
+    downloadBlob(new Blob([formatBooksCsv(books)], { type: "text/csv" }), "flyleaf-books.csv");
+  };
+
+  const handleSearchBookCatalogue = async (query: string): Promise<BookMetadata[]> => {
+    const response = await fetch(`/api/books?q=${encodeURIComponent(query)}`);
+    if (!response.ok) {
+      throw new Error(`Book lookup failed with ${response.status}.`);
+    }
+    const body = (await response.json()) as { books: BookMetadata[] };
+    return body.books;
+  };
+
+  /**
+   * Applies a catalogue match or spine estimate. Spine text is only filled where it is still empty, so a lookup never
+   * overwrites lettering the customer has already set.
+   */
+  const handleApplyBookLookup = (id: number, patch: BookLookupPatch) => {
+    const bookLabel = books.find((book) => book.id === id)?.label ?? "book";
+    trackEdit(patch.label ? `Look up ${patch.label}` : `Estimate ${bookLabel} spine width`);
+    setBooks((current) =>
+      current.map((book) =>
+        book.id === id
+          ? {
+              ...book,
+              label: patch.label ?? book.label,
+              heightCm: patch.heightCm ?? book.heightCm,
+              spineWidthCm: patch.spineWidthCm ?? book.spineWidthCm,
+              isbn: patch.isbn ?? book.isbn,
+              spineText: {
+                ...book.spineText,
+                title: book.spineText.title || (patch.title ?? ""),
+                author: book.spineText.author || (patch.author ?? ""),
+              },
+            }
+          : book,
+      ),
+    );
+  };
+
+  const handleUpdateSpineText = (id: number, patch: Partial<Omit<SpineText, "style">>) => {
+    const bookLabel = books.find((book) => book.id === id)?.label ?? "book";
+    const field = Object.keys(patch)[0] ?? "text";
+    trackEdit(`Edit ${bookLabel} spine ${field}`, `book:${id}:spineText:${field}`);
+    setBooks((current) =>
+      current.map((book) => (book.id === id ? { ...book, spineText: { ...book.spineText, ...patch } } : book)),
+    );
+  };
+
+  const handleUpdateSpineTextStyle = (id: number, patch: Partial<SpineTextStyle>) => {
+    const bookLabel = books.find((book) => book.id === id)?.label ?? "book";
+    const field = Object.keys(patch)[0] ?? "style";
+    trackEdit(`Change ${bookLabel} spine text style`, `book:${id}:spineStyle:${field}`);
+    setBooks((current) =>
+      current.map((book) =>
+        book.id === id
+          ? { ...book, spineText: { ...book.spineText, style: { ...book.spineText.style, ...patch } } }
+          : book,
+      ),
+    );
+  };
+
+  const handleApplySpineStyleToAll = (id: number) => {
+    const source = books.find((book) => book.id === id);
+    if (!source) {
+      return;
+    }
+    trackEdit(`Apply ${source.label} spine style to all books`);
+    setBooks((current) =>
+      current.map((book) => ({ ...book, spineText: { ...book.spineText, style: { ...source.spineText.style } } })),
+    );
+  };
+
+  const handleRemoveBook = (id: number) => {
+    if (books.length === 1) {
+      return;
+    }
+    trackEdit(`Remove ${books.find((book) => book.id === id)?.label ?? "book"}`);
+    setBooks((current) => current.filter((book) => book.id !== id));
+    // Layers pinned to the removed spine move to the stack rather than silently disappearing.
+    setTextLayers((current) =>
+      current.map((layer) =>
+        layer.anchor.kind === "spine" && layer.anchor.bookId === id ? { ...layer, anchor: { kind: "stack" } } : layer,
+      ),
+    );
+    setArtworkOverlays((current) =>
+      current.map((overlay) =>
+        overlay.bookIds.includes(id) ? { ...overlay, bookIds: overlay.bookIds.filter((bookId) => bookId !== id) } : overlay,
+      ),
+    );
+  };
+
+  /** Moves a book to `toIndex` in the stack; layers and overlays follow it because they refer to books by id. */
+  const handleMoveBook = (id: number, toIndex: number) => {
+    const index = books.findIndex((book) => book.id === id);
+    const target = Math.min(Math.max(toIndex, 0), books.length - 1);
+    if (index < 0 || target === index) {
+      return;
+    }
+    trackEdit(`Move ${books[index].label}`, `book:${id}:move`);
+    const reordered = [...books];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(target, 0, moved);
+    setBooks(reordered);
+  };
+
+  const handleDuplicateBook = (id: number) => {
+    const source = books.find((book) => book.id === id);
+    if (!source) {
+      return;
+    }
+    trackEdit(`Duplicate ${source.label}`);
+    setBooks((current) => {
+      const index = current.findIndex((book) => book.id === id);
+      const copy = {
+        ...source,
+        id: nextId,
+        label: `${source.label} copy`,
+        spineText: { ...source.spineText, style: { ...source.spineText.style } },
+      };
+      return [...current.slice(0, index + 1), copy, ...current.slice(index + 1)];
+    });
+    // The copy wears the same overlays as its source; text layers stay pinned to the original spine.
+    setArtworkOverlays((current) =>
+      current.map((overlay) =>
+        overlay.bookIds.includes(id) ? { ...overlay, bookIds: [...overlay.bookIds, nextId] } : overlay,
+      ),
+    );
+    setNextId((value) => value + 1);
+  };
+
+  const handleReverseBooks = () => {
+    trackEdit("Reverse book order");
+    setBooks((current) => [...current].reverse());
+  };
+
+  // Books are dragged by a handle in the sidebar or by their label in the preview and dropped onto another book,
+  // taking that book's place in the stack.
+  const bookDragSourceProps = (id: number) => ({
+    draggable: true,
+    onDragStart: (event: ReactDragEvent<HTMLElement>) => {
+      event.stopPropagation();
+      event.dataTransfer.effectAllowed = "move";
+      event.dataTransfer.setData("text/plain", String(id));
+      setDraggedBookId(id);
+    },
+    onDragEnd: () => {
+      setDraggedBookId(null);
+      setBookDropTargetId(null);
+    },
+  });
+
+  const bookDropTargetProps = (id: number) => ({
+    onDragOver: (event: ReactDragEvent<HTMLElement>) => {
+      if (draggedBookId === null) {
+        return;
+      }
+      event.preventDefault();
+      event.dataTransfer.dropEffect = "move";
+      setBookDropTargetId(id);
+    },
+    onDragLeave: () => setBookDropTargetId((current) => (current === id ? null : current)),
+    onDrop: (event: ReactDragEvent<HTMLElement>) => {
+      if (draggedBookId === null) {
+        return;
+      }
+      event.preventDefault();
+      handleMoveBook(
+        draggedBookId,
+        books.findIndex((book) => book.id === id),
+      );
+      setDraggedBookId(null);
+      setBookDropTargetId(null);
+    },
+  });
+
+  const handleBookHandleKeyDown = (event: ReactKeyboardEvent<HTMLElement>, id: number) => {
+    const steps: Record<string, number> = { ArrowUp: -1, ArrowLeft: -1, ArrowDown: 1, ArrowRight: 1 };
+    const step = steps[event.key];
+    if (step) {
+      event.preventDefault();
+      handleMoveBook(id, books.findIndex((book) => book.id === id) + step);
+    }
+  };
+
+  const nextTextLayerId = Math.max(0, ...textLayers.map((layer) => layer.id)) + 1;
+
+  const handleAddTextLayer = () => {
+    trackEdit("Add text layer");
+    setTextLayers((current) => [...current, createTextLayer(nextTextLayerId, { fontFamily: BUNDLED_FONTS[0].stack })]);
+    setActiveTextLayerId(nextTextLayerId);
+  };
+
+  const handleDuplicateTextLayer = (id: number) => {
+    const source = textLayers.find((layer) => layer.id === id);
+    if (!source) {
+      return;
+    }
+    trackEdit(`Duplicate ${source.name}`);
+    setTextLayers((current) => {
+      const index = current.findIndex((layer) => layer.id === id);
+      const copy = { ...source, id: nextTextLayerId, name: `${source.name} copy` };
+      return [...current.slice(0, index + 1), copy, ...current.slice(index + 1)];
+    });
+    setActiveTextLayerId(nextTextLayerId);
+  };
+
+  const handleRemoveTextLayer = (id: number) => {
+    trackEdit(`Remove ${textLayers.find((layer) => layer.id === id)?.name ?? "text layer"}`);
+    const remaining = textLayers.filter((layer) => layer.id !== id);
+    setTextLayers(remaining);
+    if (activeTextLayerId === id) {
+      setActiveTextLayerId(remaining[remaining.length - 1]?.id ?? null);
+    }
+  };
+
+  const handleMoveTextLayer = (id: number, direction: -1 | 1) => {
+    const index = textLayers.findIndex((layer) => layer.id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= textLayers.length) {
+      return;
+    }
+    trackEdit(`${direction > 0 ? "Bring forward" : "Send backward"} ${textLayers[index].name}`);
+    const reordered = [...textLayers];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setTextLayers(reordered);
+  };
+
+  const handleUpdateTextLayer = (id: number, patch: Partial<Omit<TextLayer, "id">>) => {
+    const layerName = textLayers.find((layer) => layer.id === id)?.name ?? "text layer";
+    const field = (Object.keys(patch)[0] ?? "text") as EditableTextLayerField;
+    trackEdit(`Edit ${layerName} ${TEXT_LAYER_FIELD_LABELS[field]}`, `textLayer:${id}:${field}`);
+    setTextLayers((current) => current.map((layer) => (layer.id === id ? { ...layer, ...patch } : layer)));
+  };
+
+  const handleAddOverlay = (file: File) => {
+    if (file.type && !file.type.startsWith("image/")) {
+      setOverlayUploadError("Please choose an image file (PNG, JPG, or similar).");
+      return;
+    }
+    setOverlayUploadError(null);
+    const objectUrl = URL.createObjectURL(file);
+    artworkObjectUrlsRef.current.add(objectUrl);
+    const image = new Image();
+    image.onload = () => {
+      const id = Math.max(0, ...artworkOverlays.map((overlay) => overlay.id)) + 1;
+      const overlay = createArtworkOverlay(
+        id,
+        { kind: "reference", url: objectUrl, name: file.name, isVector: file.type === "image/svg+xml" },
+        // SVGs without intrinsic dimensions report zero; treat them as square.
+        { widthPx: image.naturalWidth || 1, heightPx: image.naturalHeight || 1 },
+        books.map((book) => book.id),
+      );
+      trackEdit(`Add overlay ${file.name}`);
+      setArtworkOverlays((current) => [...current, clampArtworkOverlay(overlay, layout.rects)]);
+      setActiveOverlayId(id);
+    };
+    image.onerror = () => setOverlayUploadError(`${file.name} could not be read as an image.`);
+    image.src = objectUrl;
+  };
+
+  const handleUpdateOverlay = (id: number, patch: Partial<Omit<ArtworkOverlay, "id">>) => {
+    const overlayName = artworkOverlays.find((overlay) => overlay.id === id)?.name ?? "overlay";
+    const field = (Object.keys(patch)[0] ?? "name") as EditableOverlayField;
+    trackEdit(`Edit ${overlayName} ${OVERLAY_FIELD_LABELS[field]}`, `overlay:${id}:${field}`);
+    setArtworkOverlays((current) =>
+      current.map((overlay) => (overlay.id === id ? clampArtworkOverlay({ ...overlay, ...patch }, layout.rects) : overlay)),
+    );
+  };
+
+  const handleRemoveOverlay = (id: number) => {
+    trackEdit(`Remove ${artworkOverlays.find((overlay) => overlay.id === id)?.name ?? "overlay"}`);
+    const remaining = artworkOverlays.filter((overlay) => overlay.id !== id);
+    setArtworkOverlays(remaining);
+    if (activeOverlayId === id) {
+      setActiveOverlayId(remaining[remaining.length - 1]?.id ?? null);
+    }
+  };
+
+  const handleMoveOverlay = (id: number, direction: -1 | 1) => {
+    const index = artworkOverlays.findIndex((overlay) => overlay.id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= artworkOverlays.length) {
+      return;
+    }
+    trackEdit(`${direction > 0 ? "Bring forward" : "Send backward"} ${artworkOverlays[index].name}`);
+    const reordered = [...artworkOverlays];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setArtworkOverlays(reordered);
+  };
+
+  /** Adds a validated upload to the library and returns its font-family value for the picker to apply. */
+  const handleUploadFont = async (file: File) => {
+    const font = await readUploadedFont(file, fontLibrary);
+    trackEdit(`Upload font ${font.label}`);
+    setUploadedFonts((current) => [...current, font]);
+    return uploadedFontDefinition(font).stack;
+  };
+
+  const handleSaveProject = async () => {
+    try {
+      const project = await embedProjectArtwork({ ...projectDocument, savedAt: new Date().toISOString() });
+      downloadBlob(
+        new Blob([serializeProjectDocument(project)], { type: "application/json" }),
+        `flyleaf-design${PROJECT_FILE_EXTENSION}`,
+      );
+      setProjectStatus({ tone: "info", message: "Project file saved." });
+    } catch (error) {
+      setProjectStatus({
+        tone: "error",
+        message: error instanceof Error ? error.message : "The project file could not be saved.",
+      });
+    }
+  };
+
+  const handleOpenProject = async (file: File) => {
+    try {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(await file.text());
+      } catch {
+        throw new ProjectFileError("This file is not valid JSON.");
+      }
+      await applyProjectDocument(parseProjectDocument(parsed), {
+        kind: "record",
+        label: `Open ${file.name}`,
+        coalesceKey: null,
+      });
+      setProjectStatus({ tone: "info", message: `Opened ${file.name}.` });
+    } catch (error) {
+      setProjectStatus({
+        tone: "error",
+        message:
+          error instanceof ProjectFileError
+            ? `${file.name} could not be opened: ${error.message}`
+            : `${file.name} could not be opened.`,
+      });
+    }
+  };
+
+  const handleExportPdf = async () => {
+    if (resolutionReport.level === "error") {
+      setExportError("Resolve the print resolution errors on the artwork before exporting.");
+      return;
+    }
+    const textError = textReport.layers.find((assessment) => assessment.level === "error");
+    if (textError) {
+      setExportError(textError.message);
+      return;
+    }
+    if (bookRangeBlocker) {
+      setExportError(`${bookRangeBlocker.issue.message} Fix it or choose another production profile before exporting.`);
+      return;
+    }
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const exportProfile = exportColorSpace === "cmyk" ? printProfile : null;
+      const image = await loadArtworkImage(
+        previewArtworkSrc,
+        {
+          widthMm: artworkDimensionsMm.widthMm * artZoom,
+          heightMm: artworkDimensionsMm.heightMm * artZoom,
+        },
+        exportProfile,
+      );
+      const overlays = [];
+      for (const { overlay, placements } of overlayPlacements) {
+        if (placements.length === 0) {
+          continue;
+        }
+        const { widthMm, heightMm } = placements[0];
+        overlays.push({
+          overlay,
+          image: await loadArtworkImage(artworkSourceUrl(overlay.source), { widthMm, heightMm }, exportProfile),
+        });
+      }
+      const bytes = await createJacketPdf({
+        layout,
+        artwork: {
+          image,
+          dimensionsMm: artworkDimensionsMm,
+          offsetMm: artOffsetMm,
+          zoom: artZoom,
+          orientation: artOrientation,
+          opacity: artOpacity,
+          blendMode: artBlendMode,
+        },
+        overlays,
+        textLayers,
+        spineTexts: new Map(books.map((book) => [book.id, book.spineText])),
+        fonts: fontLibrary,
+        pageSize: effectiveExportPageSize,
+        sheet,
+        productionMarks: exportProductionMarks,
+        printProfile: exportProfile,
+      });
+      downloadBlob(new Blob([bytes], { type: "application/pdf" }), "flyleaf-jacket-sheet.pdf");
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : "The PDF could not be generated.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const updateArtOrientation = (patch: Partial<ArtworkOrientation>, label: string, coalesceKey: string | null = null) => {
+    trackEdit(label, coalesceKey);
+    setArtOrientation((current) => ({ ...current, ...patch }));
+  };
+
+  // Moving the left or top edge keeps the opposite edge where it is, like dragging a crop handle.
+  const updateArtCrop = (field: keyof ArtworkCrop, percent: number) => {
+    const { crop } = artOrientation;
+    const value = percent / 100;
+    const next =
+      field === "x"
+        ? { ...crop, x: value, width: crop.x + crop.width - value }
+        : field === "y"
+          ? { ...crop, y: value, height: crop.y + crop.height - value }
+          : { ...crop, [field]: value };
+    updateArtOrientation({ crop: clampArtworkCrop(next) }, "Crop artwork", `artwork:crop:${field}`);
+  };
+
+  const artworkTransform: ArtworkTransform = { offsetMm: artOffsetMm, zoom: artZoom };
+
+  const applyArtworkTransform = (next: ArtworkTransform, label: string, coalesceKey: string) => {
+    if (next.zoom === artZoom && next.offsetMm.x === artOffsetMm.x && next.offsetMm.y === artOffsetMm.y) {
+      return;
+    }
+    trackEdit(label, coalesceKey);
+    if (next.zoom !== artZoom) {
+      setHasManualZoom(true);
+      setArtZoom(next.zoom);
+    }
+    if (next.offsetMm.x !== artOffsetMm.x || next.offsetMm.y !== artOffsetMm.y) {
+      setHasManualOffset(true);
+      setArtOffsetMm(next.offsetMm);
+    }
+  };
+
+  // Pointer positions in client pixels; converted to millimetres only when a gesture needs them.
+  const previewStageRef = useRef<HTMLDivElement>(null);
+  const activePointersRef = useRef<Map<number, PointMm>>(new Map());
+  const artworkGestureRef = useRef<ArtworkGesture | null>(null);
+
+  /**
+   * Converts a client position over the preview into an artwork zoom anchor (relative to the stack centre, like
+   * `offsetMm`). Points that do not show the artwork, such as jacket covers, zoom around the artwork centre.
+   */
+  const artworkAnchorAt = (client: PointMm): PointMm => {
+    const box = previewStageRef.current?.getBoundingClientRect();
+    const shelfPoint = box
+      ? previewPointToShelf(layout, {
+          x: (client.x - box.left) / PREVIEW_SCALE,
+          y: (client.y - box.top) / PREVIEW_SCALE,
+        })
+      : null;
+    if (!shelfPoint) {
+      return artOffsetMm;
+    }
+    return {
+      x: shelfPoint.x - shelf.metrics.requiredWidthMm / 2,
+      y: shelfPoint.y - shelf.metrics.requiredHeightMm / 2,
+    };
+  };
+
+  const beginArtworkGesture = () => {
+    const pointers = Array.from(activePointersRef.current.values());
+    if (pointers.length === 1) {
+      artworkGestureRef.current = { kind: "pan", startPoint: pointers[0], startTransform: artworkTransform };
+    } else if (pointers.length >= 2) {
+      const startMidpoint = midpointOf(pointers[0], pointers[1]);
+      artworkGestureRef.current = {
+        kind: "pinch",
+        startDistance: Math.max(distanceBetween(pointers[0], pointers[1]), 1),
+        startMidpoint,
+        startAnchorMm: artworkAnchorAt(startMidpoint),
+        startTransform: artworkTransform,
+      };
+    } else {
+      artworkGestureRef.current = null;
+    }
+  };
 
-  const handleUpdateBook = (id: number, key: keyof BookFormState, value: string) => {
-    setBooks((current) =>
-      current.map((book) =>
-        book.id === id
-          ? {
-              ...book,
-              [key]: key === "label" || key === "color" ? value : Number(value),
-            }
-          : book,
-      ),
+  const handlePreviewPointerDown = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (event.pointerType === "mouse" && event.button !== 0) {
+      return;
+    }
+    // Book labels start a native drag to reorder the stack instead of moving the artwork.
+    if (event.target instanceof Element && event.target.closest("[data-book-drag-handle]")) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    activePointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    beginArtworkGesture();
+  };
+
+  const handlePreviewPointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const gesture = artworkGestureRef.current;
+    if (!gesture || !activePointersRef.current.has(event.pointerId)) {
+      return;
+    }
+    activePointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    const pointers = Array.from(activePointersRef.current.values());
+    if (gesture.kind === "pan") {
+      const deltaMm = {
+        x: (pointers[0].x - gesture.startPoint.x) / PREVIEW_SCALE,
+        y: (pointers[0].y - gesture.startPoint.y) / PREVIEW_SCALE,
+      };
+      applyArtworkTransform(
+        panArtwork(gesture.startTransform, deltaMm, artworkBounds, croppedDimensionsMm),
+        "Drag artwork",
+        "artwork:drag",
+      );
+      return;
+    }
+    const midpoint = midpointOf(pointers[0], pointers[1]);
+    const zoomed = zoomArtworkAt(
+      gesture.startTransform,
+      gesture.startTransform.zoom * (distanceBetween(pointers[0], pointers[1]) / gesture.startDistance),
+      gesture.startAnchorMm,
+      artworkBounds,
+      croppedDimensionsMm,
+    );
+    const panDeltaMm = {
+      x: (midpoint.x - gesture.startMidpoint.x) / PREVIEW_SCALE,
+      y: (midpoint.y - gesture.startMidpoint.y) / PREVIEW_SCALE,
+    };
+    applyArtworkTransform(
+      panArtwork(zoomed, panDeltaMm, artworkBounds, croppedDimensionsMm),
+      "Pinch artwork",
+      "artwork:pinch",
     );
   };
 
-  const handleAddBook = () => {
-    setBooks((current) => [
-      ...current,
-      {
-        id: nextId,
-        label: `Book ${nextId}`,
-        heightCm: current[current.length - 1]?.heightCm ?? 22,
-        spineWidthCm: 3.5,
-        color: "#0ea5e9",
-      },
-    ]);
-    setNextId((value) => value + 1);
+  const handlePreviewPointerEnd = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (!activePointersRef.current.delete(event.pointerId)) {
+      return;
+    }
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+    // Lifting one finger of a pinch carries on as a drag from the remaining finger.
+    beginArtworkGesture();
   };
 
-  const handleRemoveBook = (id: number) => {
-    setBooks((current) => (current.length > 1 ? current.filter((book) => book.id !== id) : current));
+  const handlePreviewWheel = (event: WheelEvent) => {
+    event.preventDefault();
+    const deltaPx = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * 16 : event.deltaY;
+    applyArtworkTransform(
+      zoomArtworkAt(
+        artworkTransform,
+        artZoom * Math.exp(-deltaPx * WHEEL_ZOOM_SENSITIVITY),
+        artworkAnchorAt({ x: event.clientX, y: event.clientY }),
+        artworkBounds,
+        croppedDimensionsMm,
+      ),
+      "Zoom artwork",
+      "artwork:zoom",
+    );
+  };
+
+  const handlePreviewKeyDown = (event: ReactKeyboardEvent<HTMLDivElement>) => {
+    const stepMm = event.shiftKey ? ARTWORK_NUDGE_LARGE_MM : ARTWORK_NUDGE_MM;
+    const nudges: Record<string, PointMm> = {
+      ArrowLeft: { x: -stepMm, y: 0 },
+      ArrowRight: { x: stepMm, y: 0 },
+      ArrowUp: { x: 0, y: -stepMm },
+      ArrowDown: { x: 0, y: stepMm },
+    };
+    const nudge = nudges[event.key];
+    if (nudge) {
+      event.preventDefault();
+      applyArtworkTransform(
+        panArtwork(artworkTransform, nudge, artworkBounds, croppedDimensionsMm),
+        "Nudge artwork",
+        "artwork:nudge",
+      );
+      return;
+    }
+    const zoomDirection = event.key === "+" || event.key === "=" ? 1 : event.key === "-" || event.key === "_" ? -1 : 0;
+    if (zoomDirection !== 0 && !event.ctrlKey && !event.metaKey) {
+      event.preventDefault();
+      applyArtworkTransform(
+        zoomArtworkAt(
+          artworkTransform,
+          artZoom + zoomDirection * ARTWORK_ZOOM_STEP,
+          artOffsetMm,
+          artworkBounds,
+          croppedDimensionsMm,
+        ),
+        "Zoom artwork",
+        "artwork:zoom",
+      );
+    }
   };
 
+  // Wheel listeners must be non-passive to stop the page scrolling, which React's onWheel cannot guarantee.
+  const previewWheelHandlerRef = useRef(handlePreviewWheel);
+  useEffect(() => {
+    previewWheelHandlerRef.current = handlePreviewWheel;
+  });
+  useEffect(() => {
+    const stage = previewStageRef.current;
+    if (!stage) {
+      return;
+    }
+    const handleWheel = (event: WheelEvent) => previewWheelHandlerRef.current(event);
+    stage.addEventListener("wheel", handleWheel, { passive: false });
+    return () => stage.removeEventListener("wheel", handleWheel);
+  }, []);
+
   const artWrapperStyle = {
     transform: `translate(-50%, -50%) translate(${artOffsetMm.x * PREVIEW_SCALE}px, ${artOffsetMm.y * PREVIEW_SCALE}px)`,
   } as const;
 
+  // The crop frame is the kept part of the artwork; it is flipped, rotated and zoomed about its centre like the PDF.
+  const artCropStyle = {
+    width: croppedDimensionsMm.widthMm * PREVIEW_SCALE,
+    height: croppedDimensionsMm.heightMm * PREVIEW_SCALE,
+    transform: `translate(-50%, -50%) rotate(${artOrientation.rotationDeg}deg) scale(${
+      artZoom * (artOrientation.flipX ? -1 : 1)
+    }, ${artZoom * (artOrientation.flipY ? -1 : 1)})`,
+    transformOrigin: "center",
+  } as const;
+
   const artImageStyle = {
+    left: -artOrientation.crop.x * artworkDimensionsMm.widthMm * PREVIEW_SCALE,
+    top: -artOrientation.crop.y * artworkDimensionsMm.heightMm * PREVIEW_SCALE,
     width: artworkDimensionsMm.widthMm * PREVIEW_SCALE,
     height: artworkDimensionsMm.heightMm * PREVIEW_SCALE,
-    transform: `translate(-50%, -50%) scale(${artZoom})`,
-    transformOrigin: "center",
   } as const;
 
-  const largeTextWrapperStyle = useMemo(() => {
-    const availableWidthPx = layout.metrics.totalWidthMm * PREVIEW_SCALE;
-    const topOffsetMm = CLEARANCE_TOP_MM + (layout.metrics.maxHeightMm - layout.metrics.minHeightMm) / 2;
-    const topPx = topOffsetMm * PREVIEW_SCALE;
-    return {
-      left: CLEARANCE_SIDE_MM * PREVIEW_SCALE,
-      top: topPx,
-      width: availableWidthPx,
-      height: layout.metrics.minHeightMm * PREVIEW_SCALE,
-      fontFamily: largeTextFont,
-      fontSize: `${largeTextSizePx}px`,
+  // Soft-proofing swaps every design colour and image for how it prints; the highlight marks out-of-gamut pixels.
+  const previewColor = (hex: string) => (softProof ? proofColor(hex, printProfile).proofHex : hex);
+  const previewImageSrc = (src: string) => (softProof ? imageProofs.get(src)?.proofUrl ?? src : src);
+  const gamutMaskSrc = (src: string) => (showGamutWarnings ? imageProofs.get(src)?.maskUrl ?? null : null);
+  const artworkGamutMaskSrc = gamutMaskSrc(previewArtworkSrc);
+
+  // One text layer clipped to its anchor box, positioned relative to the element whose top-left is `originMm`.
+  const renderTextLayer = (layer: TextLayer, box: TextLayerBox, originMm: PointMm, key: string | number) => {
+    const centre = textLayerCentreMm(layer, box);
+    const assessment = textAssessments.get(layer.id);
+    const sizeMm = assessment?.sizeMm ?? layer.sizeMm;
+    const typeStyle = {
+      fontFamily: layer.fontFamily,
+      fontSize: `${sizeMm * PREVIEW_SCALE}px`,
+      fontWeight: layer.weight,
+      color: previewColor(layer.color),
+      letterSpacing: `${layer.letterSpacingMm * PREVIEW_SCALE}px`,
+      WebkitTextStroke:
+        layer.outline.enabled && layer.outline.widthMm > 0
+          ? `${layer.outline.widthMm * PREVIEW_SCALE}px ${previewColor(layer.outline.color)}`
+          : undefined,
+      textShadow: layer.shadow.enabled
+        ? `${layer.shadow.offsetXMm * PREVIEW_SCALE}px ${layer.shadow.offsetYMm * PREVIEW_SCALE}px 0 ${previewColor(layer.shadow.color)}`
+        : undefined,
     } as const;
-  }, [largeTextFont, largeTextSizePx, layout.metrics.maxHeightMm, layout.metrics.minHeightMm, layout.metrics.totalWidthMm]);
+    // Gutter spacing moves individual runs, so those layers are drawn from the measured layout instead of CSS wrapping.
+    const spacedLayout =
+      box.space === "shelf" && layer.gutterMode !== "none" && layer.rotationDeg === 0 ? assessment?.shelfLayout : null;
+    return (
+      <div
+        key={key}
+        className={
+          assessment?.level === "error"
+            ? "pointer-events-none absolute z-20 overflow-hidden outline outline-1 outline-rose-500"
+            : "pointer-events-none absolute z-20 overflow-hidden"
+        }
+        style={{
+          left: (box.leftMm - originMm.x) * PREVIEW_SCALE,
+          top: (box.topMm - originMm.y) * PREVIEW_SCALE,
+          width: box.widthMm * PREVIEW_SCALE,
+          height: box.heightMm * PREVIEW_SCALE,
+        }}
+      >
+        {spacedLayout ? (
+          spacedLayout.lines.flatMap((line, lineIndex) =>
+            line.segments.map((segment, segmentIndex) => (
+              <span
+                key={`${lineIndex}-${segmentIndex}`}
+                className="absolute whitespace-pre"
+                style={{
+                  ...typeStyle,
+                  left: (centre.x + line.startMm + segment.offsetMm - box.leftMm) * PREVIEW_SCALE,
+                  top:
+                    (centre.y - spacedLayout.blockHeightMm / 2 + lineIndex * spacedLayout.lineHeightMm - box.topMm) *
+                    PREVIEW_SCALE,
+                  lineHeight: `${spacedLayout.lineHeightMm * PREVIEW_SCALE}px`,
+                }}
+              >
+                {segment.text}
+              </span>
+            )),
+          )
+        ) : (
+          <span
+            className="absolute whitespace-pre-wrap break-words"
+            style={{
+              ...typeStyle,
+              left: (centre.x - box.leftMm) * PREVIEW_SCALE,
+              top: (centre.y - box.topMm) * PREVIEW_SCALE,
+              width: "max-content",
+              maxWidth: textLayerWrapWidthMm(box, layer.rotationDeg) * PREVIEW_SCALE,
+              transform: `translate(-50%, -50%) rotate(${layer.rotationDeg}deg)`,
+              lineHeight: layer.lineHeight,
+              textAlign: layer.align,
+            }}
+          >
+            {layer.text}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  // Layers pinned to this book's spine or covers, in printed coordinates relative to an element at `originXMm`.
+  const renderPrintedTextLayers = (rect: BookRect, originXMm: number) =>
+    textLayerBoxes.flatMap(({ layer, boxes }) =>
+      boxes
+        .filter((box) => box.space === "printed" && box.bookId === rect.id)
+        .map((box, index) =>
+          renderTextLayer(layer, box, { x: originXMm, y: rect.yMm }, `text-${layer.id}-${index}`),
+        ),
+    );
+
+  // Artwork, overlays and stack-wide text in shelf coordinates; jacket mode shows them through each spine panel and
+  // passes that panel's `bookId`, so only its own overlays are drawn there.
+  const renderSharedLayers = (bookId?: number) => (
+    <>
+      <div
+        className="pointer-events-none absolute inset-0 z-0 overflow-hidden"
+        style={{ opacity: artOpacity, mixBlendMode: cssBlendMode(artBlendMode) as CSSProperties["mixBlendMode"] }}
+      >
+        <div className="absolute left-1/2 top-1/2" style={artWrapperStyle}>
+          <div className="absolute left-0 top-0 overflow-hidden" style={artCropStyle}>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={previewImageSrc(previewArtworkSrc)}
+              alt="Uploaded artwork background"
+              className="pointer-events-none absolute max-w-none select-none"
+              style={artImageStyle}
+            />
+          </div>
+        </div>
+      </div>
+      {artworkGamutMaskSrc ? (
+        <div className="pointer-events-none absolute inset-0 z-0 overflow-hidden">
+          <div className="absolute left-1/2 top-1/2" style={artWrapperStyle}>
+            <div className="absolute left-0 top-0 overflow-hidden" style={artCropStyle}>
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={artworkGamutMaskSrc}
+                alt=""
+                className="pointer-events-none absolute max-w-none select-none"
+                style={artImageStyle}
+              />
+            </div>
+          </div>
+        </div>
+      ) : null}
+
+      {overlayPlacements.flatMap(({ overlay, placements }) =>
+        placements
+          .filter((placement) => bookId === undefined || placement.spine.bookId === bookId)
+          .map(({ spine, leftMm, topMm, widthMm, heightMm }) => {
+            const src = artworkSourceUrl(overlay.source);
+            const maskSrc = gamutMaskSrc(src);
+            const imageStyle = {
+              left: (leftMm - spine.leftMm) * PREVIEW_SCALE,
+              top: (topMm - spine.topMm) * PREVIEW_SCALE,
+              width: widthMm * PREVIEW_SCALE,
+              height: heightMm * PREVIEW_SCALE,
+            };
+            return (
+              <div
+                key={`overlay-${overlay.id}-${spine.bookId}`}
+                className="pointer-events-none absolute z-10 overflow-hidden"
+                style={{
+                  left: spine.shelfXMm * PREVIEW_SCALE,
+                  top: spine.topMm * PREVIEW_SCALE,
+                  width: spine.widthMm * PREVIEW_SCALE,
+                  height: spine.heightMm * PREVIEW_SCALE,
+                  opacity: overlay.opacity,
+                  mixBlendMode: cssBlendMode(overlay.blendMode) as CSSProperties["mixBlendMode"],
+                }}
+              >
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={previewImageSrc(src)} alt="" className="absolute max-w-none select-none" style={imageStyle} />
+                {maskSrc ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={maskSrc} alt="" className="absolute max-w-none select-none" style={imageStyle} />
+                ) : null}
+              </div>
+            );
+          }),
+      )}
+
+      {textLayerBoxes.flatMap(({ layer, boxes }) =>
+        boxes
+          .filter((box) => box.space === "shelf")
+          .map((box, index) => renderTextLayer(layer, box, { x: 0, y: 0 }, `text-${layer.id}-${index}`)),
+      )}
+
+      {textReport.layers.flatMap((assessment) =>
+        (assessment.shelfLayout?.collisions ?? []).map((collision, index) => (
+          <div
+            key={`collision-${assessment.id}-${index}`}
+            className="pointer-events-none absolute z-20 rounded-sm bg-rose-500/40 outline outline-1 outline-rose-600"
+            style={{
+              left: collision.leftMm * PREVIEW_SCALE,
+              top: collision.topMm * PREVIEW_SCALE,
+              width: collision.widthMm * PREVIEW_SCALE,
+              height: collision.heightMm * PREVIEW_SCALE,
+            }}
+          />
+        )),
+      )}
+    </>
+  );
+
+  // Per-book spine text, positioned relative to the element that starts at `originXMm` on the book's top edge.
+  const renderSpineText = (rect: BookRect, originXMm: number) => {
+    const fitted = fittedSpineTexts.get(rect.id);
+    const style = books.find((book) => book.id === rect.id)?.spineText.style;
+    if (!fitted || !style) {
+      return null;
+    }
+    const { frame } = fitted;
+    return (
+      <div
+        className={
+          fitted.fits
+            ? "pointer-events-none absolute z-20 overflow-hidden"
+            : "pointer-events-none absolute z-20 overflow-hidden outline outline-1 outline-rose-500"
+        }
+        style={{
+          left: (frame.xMm - originXMm) * PREVIEW_SCALE,
+          top: (frame.yMm - rect.yMm) * PREVIEW_SCALE,
+          width: frame.widthMm * PREVIEW_SCALE,
+          height: frame.heightMm * PREVIEW_SCALE,
+          writingMode: "vertical-rl",
+          transform: style.direction === "bottomToTop" ? "rotate(180deg)" : undefined,
+          textAlign: style.align,
+          lineHeight: `${frame.widthMm * PREVIEW_SCALE}px`,
+          whiteSpace: "pre",
+          fontFamily: style.fontFamily,
+          fontSize: `${fitted.sizeMm * PREVIEW_SCALE}px`,
+          color: previewColor(style.color),
+        }}
+      >
+        {fitted.line}
+      </div>
+    );
+  };
+
+  /** The name badge on each book in the preview, which doubles as its drag handle for reordering. */
+  const renderBookLabel = (rect: (typeof layout.rects)[number], sizeClassName: string) => (
+    <div
+      data-book-drag-handle
+      {...bookDragSourceProps(rect.id)}
+      title={`Drag onto another book to move ${rect.label}`}
+      className={`absolute bottom-2 left-1/2 z-10 -translate-x-1/2 cursor-move rounded bg-white/80 px-2 py-1 text-center text-[10px] font-semibold uppercase tracking-wide text-slate-700 ${sizeClassName}`}
+    >
+      {rect.label}
+    </div>
+  );
+
+  const bookDropClassName = (id: number) =>
+    bookDropTargetId === id && draggedBookId !== id ? "ring-2 ring-brand ring-offset-1" : "";
+
+  const renderJacketLayers = (visibleBookIds?: ReadonlySet<number>) =>
+    layout.rects
+      .filter((rect) => !visibleBookIds || visibleBookIds.has(rect.id))
+      .map((rect) => (
+        <div
+          key={rect.id}
+          {...bookDropTargetProps(rect.id)}
+          className={`absolute z-30 overflow-hidden rounded-md border shadow-sm ${bookDropClassName(rect.id)}`}
+          style={{
+            width: rect.widthMm * PREVIEW_SCALE,
+            height: rect.heightMm * PREVIEW_SCALE,
+            transform: `translate(${rect.xMm * PREVIEW_SCALE}px, ${rect.yMm * PREVIEW_SCALE}px)`,
+            borderColor: rect.color,
+          }}
+        >
+          {rect.panels.map((panel, index) => (
+            <div
+              key={panel.kind}
+              className={
+                index === 0
+                  ? "absolute inset-y-0 overflow-hidden"
+                  : "absolute inset-y-0 overflow-hidden border-l border-dashed border-slate-900/40"
+              }
+              style={{
+                left: (panel.xMm - rect.xMm) * PREVIEW_SCALE,
+                width: panel.widthMm * PREVIEW_SCALE,
+                backgroundColor: panel.kind === "spine" ? undefined : previewColor(rect.color),
+              }}
+            >
+              {panel.kind === "spine" ? (
+                <>
+                  <div
+                    className="absolute"
+                    style={{
+                      left: -rect.shelfXMm * PREVIEW_SCALE,
+                      top: -rect.yMm * PREVIEW_SCALE,
+                      width: shelf.metrics.requiredWidthMm * PREVIEW_SCALE,
+                      height: shelf.metrics.requiredHeightMm * PREVIEW_SCALE,
+                    }}
+                  >
+                    {renderSharedLayers(rect.id)}
+                  </div>
+                  <div
+                    className="absolute inset-0"
+                    style={{ backgroundColor: SPINE_RESOLUTION_TINTS[spineResolutionLevels.get(rect.id) ?? "ok"] }}
+                  />
+                  {renderSpineText(rect, panel.xMm)}
+                </>
+              ) : (
+                <span className="absolute left-2 top-2 text-[10px] font-semibold uppercase tracking-wide text-white/80">
+                  {JACKET_PANEL_LABELS[panel.kind]}
+                </span>
+              )}
+            </div>
+          ))}
+          {renderPrintedTextLayers(rect, rect.xMm)}
+          {renderBookLabel(rect, "")}
+        </div>
+      ));
+
+  const renderSpineOutlines = (visibleBookIds?: ReadonlySet<number>) => (
+    <>
+      {layout.rects
+        .filter((rect) => !visibleBookIds || visibleBookIds.has(rect.id))
+        .map((rect) => (
+          <div
+            key={rect.id}
+            {...bookDropTargetProps(rect.id)}
+            className={`absolute z-30 rounded-md border shadow-sm ${bookDropClassName(rect.id)}`}
+            style={{
+              width: rect.widthMm * PREVIEW_SCALE,
+              height: rect.heightMm * PREVIEW_SCALE,
+              transform: `translate(${rect.xMm * PREVIEW_SCALE}px, ${rect.yMm * PREVIEW_SCALE}px)`,
+              borderColor: rect.color,
+              backgroundColor: SPINE_RESOLUTION_TINTS[spineResolutionLevels.get(rect.id) ?? "ok"],
+            }}
+          >
+            {renderSpineText(rect, rect.xMm)}
+            {renderPrintedTextLayers(rect, rect.xMm)}
+            {renderBookLabel(rect, "w-[90%]")}
+          </div>
+        ))}
+    </>
+  );
+
+  const renderStackLayers = (visibleBookIds?: ReadonlySet<number>) =>
+    layoutMode === "jacket" ? (
+      renderJacketLayers(visibleBookIds)
+    ) : (
+      <>
+        {renderSharedLayers()}
+        {renderSpineOutlines(visibleBookIds)}
+      </>
+    );
 
   return (
     <main className="flex min-h-screen flex-col gap-12 bg-slate-50 px-6 pb-20 pt-16">
@@ -336,9 +2055,18 @@ export default function DesignerPage() {
         <p className="text-sm font-medium uppercase tracking-wide text-brand">Design workspace</p>
         <h1 className="mt-2 text-4xl font-semibold text-slate-900">Interactive spine designer prototype</h1>
         <p className="mt-3 max-w-3xl text-lg leading-relaxed text-slate-600">
-          Configure book spines, preview clearances, and test artwork positioning. Geometry stays local for
-          now so we can iterate quickly before wiring server persistence or PDF export.
+          Configure book spines, preview clearances, and test artwork positioning. Designs autosave in this
+          browser and can be shared as project files; print files export as true-size PDFs.
         </p>
+        <div className="mt-6 flex flex-col gap-3">
+          <ProjectPanel
+            onSave={() => void handleSaveProject()}
+            onOpen={(file) => void handleOpenProject(file)}
+            status={projectStatus}
+            lastAutosavedAt={lastAutosavedAt}
+          />
+          <HistoryPanel history={history} onJump={handleJumpToHistory} />
+        </div>
       </header>
 
       <section className="mx-auto grid w-full max-w-6xl gap-8 lg:grid-cols-[360px_minmax(0,1fr)]">
@@ -346,20 +2074,127 @@ export default function DesignerPage() {
           <div>
             <h2 className="text-xl font-semibold text-slate-900">Book stack</h2>
             <p className="mt-1 text-sm text-slate-500">
-              Enter heights and spine widths in centimetres. We keep a fixed 2&nbsp;mm gap between each
-              spine to match production rules.
+              Enter heights and spine widths as measured. Spines are kept at least{" "}
+              {formatLength(productionProfile.gapMm, unitSystem)} apart to match {productionProfile.label} production
+              rules, more when the bleed needs the room.
             </p>
+            <label className="mt-3 flex items-center justify-between gap-3">
+              <span className="text-xs font-medium uppercase tracking-wide text-slate-500">Units</span>
+              <select
+                value={unitSystem}
+                onChange={(event) => {
+                  const units = event.target.value as UnitSystem;
+                  trackEdit(`Show lengths in ${UNIT_SYSTEMS.find((option) => option.value === units)?.label ?? units}`);
+                  setUnitSystem(units);
+                }}
+                className="rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900"
+              >
+                {UNIT_SYSTEMS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 rounded-2xl bg-slate-100 p-1 text-xs font-semibold">
+            {(
+              [
+                { mode: "spines", label: "Spines only" },
+                { mode: "jacket", label: "Full jackets" },
+              ] as const
+            ).map((option) => (
+              <button
+                key={option.mode}
+                type="button"
+                onClick={() => {
+                  trackEdit(`Switch to ${option.label.toLowerCase()}`);
+                  setLayoutMode(option.mode);
+                }}
+                className={
+                  layoutMode === option.mode
+                    ? "rounded-xl bg-white px-3 py-2 text-slate-900 shadow-sm"
+                    : "rounded-xl px-3 py-2 text-slate-500 transition hover:text-slate-900"
+                }
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <span className="text-xs font-medium uppercase tracking-wide text-slate-500">Line up mixed heights</span>
+            <div className="mt-1 grid grid-cols-3 gap-2 rounded-2xl bg-slate-100 p-1 text-xs font-semibold">
+              {STACK_ALIGNMENTS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => {
+                    trackEdit(`Align books to the ${option.label.toLowerCase()}`);
+                    setStackAlignment(option.value);
+                  }}
+                  className={
+                    stackAlignment === option.value
+                      ? "rounded-xl bg-white px-3 py-2 text-slate-900 shadow-sm"
+                      : "rounded-xl px-3 py-2 text-slate-500 transition hover:text-slate-900"
+                  }
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
           </div>
 
           <div className="flex flex-col gap-4">
-            {books.map((book) => (
-              <div key={book.id} className="rounded-2xl border border-slate-200 bg-slate-50/70 p-4">
-                <div className="flex items-center justify-between">
+            {books.map((book, index) => (
+              <div
+                key={book.id}
+                {...bookDropTargetProps(book.id)}
+                className={`rounded-2xl border border-slate-200 bg-slate-50/70 p-4 ${
+                  draggedBookId === book.id ? "opacity-50" : ""
+                } ${bookDropClassName(book.id)}`}
+              >
+                <div className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    {...bookDragSourceProps(book.id)}
+                    onKeyDown={(event) => handleBookHandleKeyDown(event, book.id)}
+                    className="cursor-move rounded-md px-1 py-1 text-sm text-slate-400 transition hover:bg-slate-100 hover:text-slate-700"
+                    aria-label={`Reorder ${book.label}: drag, or use the arrow keys`}
+                  >
+                    ⠿
+                  </button>
                   <input
-                    className="w-1/2 rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-900"
+                    className="min-w-0 flex-1 rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-900"
                     value={book.label}
                     onChange={(event) => handleUpdateBook(book.id, "label", event.target.value)}
                   />
+                  <button
+                    type="button"
+                    onClick={() => handleMoveBook(book.id, index - 1)}
+                    disabled={index === 0}
+                    className="rounded-md px-2 py-1 text-xs font-semibold text-slate-600 transition hover:bg-slate-100 disabled:opacity-40"
+                    aria-label={`Move ${book.label} up`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleMoveBook(book.id, index + 1)}
+                    disabled={index === books.length - 1}
+                    className="rounded-md px-2 py-1 text-xs font-semibold text-slate-600 transition hover:bg-slate-100 disabled:opacity-40"
+                    aria-label={`Move ${book.label} down`}
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDuplicateBook(book.id)}
+                    className="rounded-md px-2 py-1 text-xs font-semibold text-slate-600 transition hover:bg-slate-100"
+                  >
+                    Duplicate
+                  </button>
                   <button
                     type="button"
                     onClick={() => handleRemoveBook(book.id)}
@@ -371,29 +2206,85 @@ export default function DesignerPage() {
                 </div>
 
                 <div className="mt-3 grid grid-cols-2 gap-3 text-sm">
+                  <BookLookup
+                    bookLabel={book.label}
+                    units={unitSystem}
+                    onSearch={handleSearchBookCatalogue}
+                    onApply={(patch) => handleApplyBookLookup(book.id, patch)}
+                  />
                   <label className="flex flex-col gap-1">
-                    <span className="text-xs font-medium uppercase tracking-wide text-slate-500">Height</span>
-                    <input
-                      type="number"
-                      min={10}
-                      max={26}
-                      step={0.1}
-                      value={book.heightCm}
-                      onChange={(event) => handleUpdateBook(book.id, "heightCm", event.target.value)}
+                    <span className="text-xs font-medium uppercase tracking-wide text-slate-500">
+                      Height ({unitSymbol(unitSystem)})
+                    </span>
+                    <LengthInput
+                      valueMm={cmToMm(book.heightCm)}
+                      units={unitSystem}
+                      minMm={0}
+                      onChange={(valueMm) => handleUpdateBook(book.id, "heightCm", mmToCm(valueMm))}
                       className="rounded-lg border border-slate-300 px-3 py-2 text-slate-900"
                     />
                   </label>
                   <label className="flex flex-col gap-1">
-                    <span className="text-xs font-medium uppercase tracking-wide text-slate-500">Spine width</span>
-                    <input
-                      type="number"
-                      min={0.3}
-                      step={0.05}
-                      value={book.spineWidthCm}
-                      onChange={(event) => handleUpdateBook(book.id, "spineWidthCm", event.target.value)}
+                    <span className="text-xs font-medium uppercase tracking-wide text-slate-500">
+                      Spine width ({unitSymbol(unitSystem)})
+                    </span>
+                    <LengthInput
+                      valueMm={cmToMm(book.spineWidthCm)}
+                      units={unitSystem}
+                      minMm={0}
+                      onChange={(valueMm) => handleUpdateBook(book.id, "spineWidthCm", mmToCm(valueMm))}
+                      className="rounded-lg border border-slate-300 px-3 py-2 text-slate-900"
+                    />
+                  </label>
+                  {layoutMode === "jacket" ? (
+                    <>
+                      <label className="flex flex-col gap-1">
+                        <span className="text-xs font-medium uppercase tracking-wide text-slate-500">
+                          Cover width ({unitSymbol(unitSystem)})
+                        </span>
+                        <LengthInput
+                          valueMm={cmToMm(book.coverWidthCm)}
+                          units={unitSystem}
+                          minMm={0}
+                          onChange={(valueMm) => handleUpdateBook(book.id, "coverWidthCm", mmToCm(valueMm))}
+                          className="rounded-lg border border-slate-300 px-3 py-2 text-slate-900"
+                        />
+                      </label>
+                      <label className="flex flex-col gap-1">
+                        <span className="text-xs font-medium uppercase tracking-wide text-slate-500">
+                          Flap width ({unitSymbol(unitSystem)})
+                        </span>
+                        <LengthInput
+                          valueMm={cmToMm(book.flapWidthCm)}
+                          units={unitSystem}
+                          minMm={0}
+                          onChange={(valueMm) => handleUpdateBook(book.id, "flapWidthCm", mmToCm(valueMm))}
+                          className="rounded-lg border border-slate-300 px-3 py-2 text-slate-900"
+                        />
+                      </label>
+                    </>
+                  ) : null}
+                  <label className="col-span-2 flex flex-col gap-1">
+                    <span className="text-xs font-medium uppercase tracking-wide text-slate-500">
+                      Vertical offset ({unitSymbol(unitSystem)})
+                    </span>
+                    <LengthInput
+                      valueMm={book.verticalOffsetMm}
+                      units={unitSystem}
+                      minMm={-MAX_BOOK_OFFSET_MM}
+                      maxMm={MAX_BOOK_OFFSET_MM}
+                      onChange={(valueMm) => handleUpdateBook(book.id, "verticalOffsetMm", valueMm)}
                       className="rounded-lg border border-slate-300 px-3 py-2 text-slate-900"
                     />
+                    <span className="text-xs text-slate-500">
+                      Moves this book down (or up, when negative) from where the stack lines it up.
+                    </span>
                   </label>
+                  {bookRangeIssues.get(book.id)?.length ? (
+                    <ul className="col-span-2 flex flex-col gap-0.5 text-xs font-medium text-rose-600">
+                      {bookRangeIssues.get(book.id)?.map((issue) => <li key={issue.field}>{issue.message}</li>)}
+                    </ul>
+                  ) : null}
                   <label className="col-span-2 flex flex-col gap-1">
                     <span className="text-xs font-medium uppercase tracking-wide text-slate-500">Colour swatch</span>
                     <input
@@ -404,26 +2295,99 @@ export default function DesignerPage() {
                       aria-label={`${book.label} colour`}
                     />
                   </label>
+                  <SpineTextEditor
+                    bookLabel={book.label}
+                    spineText={book.spineText}
+                    fonts={fontLibrary}
+                    onUploadFont={handleUploadFont}
+                    fitted={fittedSpineTexts.get(book.id) ?? null}
+                    units={unitSystem}
+                    onChange={(patch) => handleUpdateSpineText(book.id, patch)}
+                    onStyleChange={(patch) => handleUpdateSpineTextStyle(book.id, patch)}
+                    onApplyStyleToAll={() => handleApplySpineStyleToAll(book.id)}
+                  />
                 </div>
               </div>
             ))}
           </div>
 
-          <button
-            type="button"
-            onClick={handleAddBook}
-            className="inline-flex items-center justify-center rounded-xl bg-brand px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-brand/90"
-          >
-            Add another book
-          </button>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              type="button"
+              onClick={handleAddBook}
+              className="inline-flex items-center justify-center rounded-xl bg-brand px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-brand/90"
+            >
+              Add another book
+            </button>
+            <button
+              type="button"
+              onClick={handleReverseBooks}
+              disabled={books.length < 2}
+              title="For shelves read from right to left"
+              className="inline-flex items-center justify-center rounded-xl border border-slate-300 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:bg-slate-100 disabled:opacity-40"
+            >
+              Reverse order
+            </button>
+          </div>
+
+          <BookCsvPanel
+            profile={productionProfile}
+            formatCm={formatBookLength}
+            onImport={handleImportBooks}
+            onExport={handleExportBooksCsv}
+          />
+
+          <ProductionProfilePicker
+            profiles={productionProfiles}
+            profile={productionProfile}
+            units={unitSystem}
+            onSelect={(id) => {
+              const profile = findProductionProfile(productionProfiles, id);
+              trackEdit(`Use ${profile.label} production rules`);
+              setProductionProfile(profile);
+            }}
+          />
 
           <div className="rounded-2xl border border-slate-200 bg-slate-50/70 p-4 text-sm text-slate-600">
             <p>
-              <span className="font-semibold text-slate-900">Collection width:</span> {layout.metrics.collectionWidthCm.toFixed(2)} cm
+              <span className="font-semibold text-slate-900">Collection width:</span> {formatBookLength(shelf.metrics.collectionWidthCm)}
+            </p>
+            <p className="mt-1">Gap between books: {formatLength(layout.metrics.spacing.gapMm, unitSystem)}</p>
+            <p className="mt-1">
+              Top clearance: {formatLength(layout.metrics.spacing.topMm, unitSystem)} • Bottom clearance:{" "}
+              {formatLength(layout.metrics.spacing.bottomMm, unitSystem)} • Side clearance:{" "}
+              {formatLength(layout.metrics.spacing.sideMm, unitSystem)}
             </p>
-            <p className="mt-1">Gap between books: 2 mm (fixed)</p>
-            <p className="mt-1">Top clearance: 2 mm • Bottom clearance: 2 mm • Side clearance: 10 mm</p>
           </div>
+
+          <PrintMarginsPanel
+            margins={printMargins}
+            production={productionProfile}
+            units={unitSystem}
+            onChange={(margins) => {
+              trackEdit("Change bleed and safe margin", "print:margins");
+              setPrintMargins(margins);
+            }}
+          />
+
+          <PaperSizePicker
+            papers={paperSizes}
+            sheet={sheet}
+            units={unitSystem}
+            onSelectPaper={(id) => {
+              trackEdit(`Choose ${findPaperSize(paperSizes, id).label} paper`);
+              setPaperId(id);
+            }}
+            onOrientationChange={(orientation) => {
+              trackEdit(`Switch to ${orientation}`);
+              setPaperOrientation(orientation);
+            }}
+            onAddCustomPaper={(paper) => {
+              trackEdit(`Add ${paper.label} paper`);
+              setPaperSizes((current) => [...current, paper]);
+              setPaperId(paper.id);
+            }}
+          />
         </aside>
 
         <div className="flex flex-col gap-6">
@@ -435,9 +2399,13 @@ export default function DesignerPage() {
               </div>
               <div className="flex gap-3 text-xs text-slate-600">
                 <div className="rounded-lg bg-slate-100 px-3 py-2">
-                  <p className="font-semibold text-slate-900">{formatClearanceSummary(layout.metrics)}</p>
+                  <p className="font-semibold text-slate-900">{formatClearanceSummary(layout.metrics, unitSystem)}</p>
                   <p className="mt-1 text-[11px] uppercase tracking-wide">
-                    {layout.metrics.fitsOnTabloid ? "Fits 11×17 in sheet" : "Exceeds 11×17 in sheet"}
+                    {layout.metrics.fitsOnSheet
+                      ? `Fits ${sheetLabel} sheet`
+                      : layout.metrics.fitsTiledSheets
+                        ? `Tiles across ${layout.metrics.sheetCount} ${sheetLabel} sheets`
+                        : `Exceeds ${sheetLabel} sheet`}
                   </p>
                 </div>
               </div>
@@ -465,17 +2433,16 @@ export default function DesignerPage() {
                     }
 
                     setUploadError(null);
-                    const previousObjectUrl = artworkObjectUrlRef.current;
-                    if (previousObjectUrl) {
-                      URL.revokeObjectURL(previousObjectUrl);
-                    }
-
                     const nextObjectUrl = URL.createObjectURL(file);
-                    artworkObjectUrlRef.current = nextObjectUrl;
+                    artworkObjectUrlsRef.current.add(nextObjectUrl);
+                    trackEdit(`Upload ${file.name}`);
+                    pendingPlacementRef.current = null;
                     setArtworkSrc(nextObjectUrl);
+                    setArtworkIsVector(file.type === "image/svg+xml");
                     setUploadedArtworkName(file.name);
                     setArtOffsetMm({ x: 0, y: 0 });
                     setArtZoom(1);
+                    setArtOrientation(DEFAULT_ARTWORK_ORIENTATION);
                     setHasManualOffset(false);
                     setHasManualZoom(false);
                   }}
@@ -490,7 +2457,7 @@ export default function DesignerPage() {
                 </span>
               </label>
               <label className="flex flex-col gap-1 text-sm">
-                <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Horizontal offset (mm)</span>
+                <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Horizontal offset</span>
                 <input
                   type="range"
                   min={offsetLimits.minX}
@@ -499,6 +2466,7 @@ export default function DesignerPage() {
                   value={artOffsetMm.x}
                   onChange={(event) => {
                     const value = Number(event.target.value);
+                    trackEdit("Move artwork horizontally", "artwork:offsetX");
                     setArtOffsetMm((prev) => ({
                       ...prev,
                       x: clamp(value, offsetLimits.minX, offsetLimits.maxX),
@@ -506,10 +2474,10 @@ export default function DesignerPage() {
                     setHasManualOffset(true);
                   }}
                 />
-                <span className="text-xs text-slate-500">{artOffsetMm.x.toFixed(1)} mm</span>
+                <span className="text-xs text-slate-500">{formatLength(artOffsetMm.x, unitSystem)}</span>
               </label>
               <label className="flex flex-col gap-1 text-sm">
-                <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Vertical offset (mm)</span>
+                <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Vertical offset</span>
                 <input
                   type="range"
                   min={offsetLimits.minY}
@@ -518,6 +2486,7 @@ export default function DesignerPage() {
                   value={artOffsetMm.y}
                   onChange={(event) => {
                     const value = Number(event.target.value);
+                    trackEdit("Move artwork vertically", "artwork:offsetY");
                     setArtOffsetMm((prev) => ({
                       ...prev,
                       y: clamp(value, offsetLimits.minY, offsetLimits.maxY),
@@ -525,168 +2494,474 @@ export default function DesignerPage() {
                     setHasManualOffset(true);
                   }}
                 />
-                <span className="text-xs text-slate-500">{artOffsetMm.y.toFixed(1)} mm</span>
+                <span className="text-xs text-slate-500">{formatLength(artOffsetMm.y, unitSystem)}</span>
               </label>
               <label className="flex flex-col gap-1 text-sm">
                 <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Zoom</span>
                 <input
                   type="range"
                   min={artworkBounds.minZoom}
-                  max={1.25}
+                  max={Math.max(ARTWORK_MAX_ZOOM, artworkBounds.minZoom)}
                   step={0.01}
                   value={artZoom}
                   onChange={(event) => {
                     const value = Number(event.target.value);
+                    trackEdit("Zoom artwork", "artwork:zoom");
                     setHasManualZoom(true);
                     setArtZoom(value < artworkBounds.minZoom ? artworkBounds.minZoom : value);
                   }}
                 />
                 <span className="text-xs text-slate-500">{(artZoom * 100).toFixed(0)}%</span>
               </label>
-            </div>
-          </section>
-
-          <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
-            <header className="flex flex-wrap items-end justify-between gap-4">
-              <div>
-                <h2 className="text-xl font-semibold text-slate-900">Large spine text</h2>
-                <p className="text-sm text-slate-500">Overlay a title across the full stack without leaving the spine bounds.</p>
-              </div>
-              <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+              <label className="flex flex-col gap-1 text-sm">
+                <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Opacity</span>
                 <input
-                  type="checkbox"
-                  checked={showLargeText}
-                  onChange={(event) => setShowLargeText(event.target.checked)}
-                  className="h-4 w-4 rounded border-slate-300 text-brand focus:ring-brand"
-                />
-                Enable large text
-              </label>
-            </header>
-
-            <div className="mt-6 grid gap-5 md:grid-cols-3">
-              <label className="md:col-span-3 flex flex-col gap-1 text-sm">
-                <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Text</span>
-                <textarea
-                  value={largeText}
-                  onChange={(event) => setLargeText(event.target.value)}
-                  placeholder="Enter collection title"
-                  rows={3}
-                  className="rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-900 focus:border-brand focus:outline-none focus:ring-2 focus:ring-brand/20"
-                  disabled={!showLargeText}
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={artOpacity}
+                  onChange={(event) => {
+                    trackEdit("Change artwork opacity", "artwork:opacity");
+                    setArtOpacity(clamp(Number(event.target.value), 0, 1));
+                  }}
                 />
+                <span className="text-xs text-slate-500">{(artOpacity * 100).toFixed(0)}%</span>
               </label>
               <label className="flex flex-col gap-1 text-sm">
-                <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Font family</span>
+                <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Blend mode</span>
                 <select
-                  value={largeTextFont}
-                  onChange={(event) => setLargeTextFont(event.target.value)}
+                  value={artBlendMode}
+                  onChange={(event) => {
+                    trackEdit("Change artwork blend mode");
+                    setArtBlendMode(event.target.value as ArtworkBlendMode);
+                  }}
                   className="rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-900 focus:border-brand focus:outline-none focus:ring-2 focus:ring-brand/20"
-                  disabled={!showLargeText}
                 >
-                  {FONT_OPTIONS.map((option) => (
-                    <option key={option.label} value={option.value} style={{ fontFamily: option.value }}>
+                  {ARTWORK_BLEND_MODES.map((option) => (
+                    <option key={option.value} value={option.value}>
                       {option.label}
                     </option>
                   ))}
                 </select>
+                <span className="text-xs text-slate-500">Blends with the paper; overlays blend with the artwork.</span>
               </label>
               <label className="flex flex-col gap-1 text-sm">
-                <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Font size (px)</span>
+                <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Rotation</span>
                 <input
                   type="range"
-                  min={24}
-                  max={maxLargeTextSizePx}
+                  min={-180}
+                  max={180}
                   step={1}
-                  value={largeTextSizePx}
-                  onChange={(event) => setLargeTextSizePx(Number(event.target.value))}
-                  disabled={!showLargeText}
+                  value={artOrientation.rotationDeg}
+                  onChange={(event) =>
+                    updateArtOrientation(
+                      { rotationDeg: normaliseRotationDeg(Number(event.target.value)) },
+                      "Rotate artwork",
+                      "artwork:rotation",
+                    )
+                  }
                 />
-                <span className="text-xs text-slate-500">{Math.round(largeTextSizePx)} px</span>
+                <span className="text-xs text-slate-500">{artOrientation.rotationDeg.toFixed(0)}° clockwise</span>
               </label>
+              <div className="flex flex-col gap-2 text-sm">
+                <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Turn and flip</span>
+                <div className="flex flex-wrap gap-2">
+                  {([-1, 1] as const).map((direction) => (
+                    <button
+                      key={direction}
+                      type="button"
+                      onClick={() =>
+                        updateArtOrientation(
+                          { rotationDeg: rotateArtworkQuarter(artOrientation.rotationDeg, direction) },
+                          direction > 0 ? "Rotate artwork right" : "Rotate artwork left",
+                        )
+                      }
+                      className="rounded-lg border border-slate-300 px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:bg-slate-50"
+                    >
+                      {direction > 0 ? "⟳ 90°" : "⟲ 90°"}
+                    </button>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2 text-xs text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={artOrientation.flipX}
+                    onChange={(event) => updateArtOrientation({ flipX: event.target.checked }, "Flip artwork horizontally")}
+                    className="h-4 w-4 rounded border-slate-300 text-brand focus:ring-brand"
+                  />
+                  Flip horizontally
+                </label>
+                <label className="flex items-center gap-2 text-xs text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={artOrientation.flipY}
+                    onChange={(event) => updateArtOrientation({ flipY: event.target.checked }, "Flip artwork vertically")}
+                    className="h-4 w-4 rounded border-slate-300 text-brand focus:ring-brand"
+                  />
+                  Flip vertically
+                </label>
+              </div>
+              <fieldset className="md:col-span-3 flex flex-col gap-2 rounded-xl border border-slate-200 p-3 text-sm">
+                <legend className="px-1 text-xs font-semibold uppercase tracking-wide text-slate-500">Crop</legend>
+                <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+                  {(
+                    [
+                      { field: "x", label: "Left (%)", max: 100 - ARTWORK_MIN_CROP * 100 },
+                      { field: "y", label: "Top (%)", max: 100 - ARTWORK_MIN_CROP * 100 },
+                      { field: "width", label: "Width (%)", max: 100 },
+                      { field: "height", label: "Height (%)", max: 100 },
+                    ] as const
+                  ).map(({ field, label, max }) => (
+                    <label key={field} className="flex flex-col gap-1">
+                      <span className="text-xs text-slate-500">{label}</span>
+                      <input
+                        type="number"
+                        min={field === "width" || field === "height" ? ARTWORK_MIN_CROP * 100 : 0}
+                        max={max}
+                        step={1}
+                        value={Number((artOrientation.crop[field] * 100).toFixed(1))}
+                        onChange={(event) => updateArtCrop(field, Number(event.target.value))}
+                        className="rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-900 focus:border-brand focus:outline-none focus:ring-2 focus:ring-brand/20"
+                      />
+                    </label>
+                  ))}
+                </div>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-xs text-slate-500">
+                    Cropping keeps the original file, so you can widen the crop again at any time.
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => updateArtOrientation({ crop: DEFAULT_ARTWORK_ORIENTATION.crop }, "Reset artwork crop")}
+                    disabled={isFullArtworkCrop(artOrientation.crop)}
+                    className="rounded-md px-2 py-1 text-xs font-semibold text-slate-600 transition hover:bg-slate-100 disabled:opacity-40"
+                  >
+                    Reset crop
+                  </button>
+                </div>
+              </fieldset>
+              <div className="md:col-span-3">
+                <ResolutionPanel
+                  report={resolutionReport}
+                  thresholds={dpiThresholds}
+                  onThresholdsChange={(thresholds) => {
+                    trackEdit("Change DPI thresholds", "artwork:dpiThresholds");
+                    setDpiThresholds(thresholds);
+                  }}
+                />
+              </div>
             </div>
           </section>
 
+          <ArtworkOverlaysPanel
+            overlays={artworkOverlays}
+            units={unitSystem}
+            activeOverlayId={activeOverlayId}
+            activeLimits={activeOverlayLimits}
+            books={books}
+            uploadError={overlayUploadError}
+            onSelect={setActiveOverlayId}
+            onAdd={handleAddOverlay}
+            onRemove={handleRemoveOverlay}
+            onMove={handleMoveOverlay}
+            onChange={handleUpdateOverlay}
+          />
+
+          <ColorProofPanel
+            profiles={PRINT_PROFILES}
+            profileId={printProfile.id}
+            softProof={softProof}
+            showGamutWarnings={showGamutWarnings}
+            images={[
+              { label: "Background artwork", src: previewArtworkSrc },
+              ...artworkOverlays
+                .filter((overlay) => overlay.visible)
+                .map((overlay) => ({ label: overlay.name, src: artworkSourceUrl(overlay.source) })),
+            ].map(({ label, src }) => ({
+              label,
+              outOfGamutShare: isProofingImages ? imageProofs.get(src)?.outOfGamutShare ?? null : null,
+            }))}
+            colorIssues={colorGamutIssues}
+            proofError={isProofingImages ? proofError : null}
+            onProfileChange={setPrintProfileId}
+            onSoftProofChange={setSoftProof}
+            onShowGamutWarningsChange={setShowGamutWarnings}
+          />
+
+          <TextLayersPanel
+            layers={textLayers}
+            assessments={textAssessments}
+            activeLayerId={activeTextLayerId}
+            books={books}
+            layoutMode={layoutMode}
+            units={unitSystem}
+            fonts={fontLibrary}
+            onUploadFont={handleUploadFont}
+            onSelect={setActiveTextLayerId}
+            onAdd={handleAddTextLayer}
+            onDuplicate={handleDuplicateTextLayer}
+            onRemove={handleRemoveTextLayer}
+            onMove={handleMoveTextLayer}
+            onChange={handleUpdateTextLayer}
+          />
+
           <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
             <div className="flex items-center justify-between">
               <h2 className="text-xl font-semibold text-slate-900">Live preview</h2>
-              <p className="text-xs uppercase tracking-wide text-slate-500">Scaled mockup • watermark for sample only</p>
+              <div className="flex items-center gap-4">
+                <label className="flex items-center gap-2 text-xs font-medium text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={showProductionMarks}
+                    onChange={(event) => setShowProductionMarks(event.target.checked)}
+                    className="h-4 w-4 rounded border-slate-300 text-brand focus:ring-brand"
+                  />
+                  Production marks
+                </label>
+                <label className="flex items-center gap-2 text-xs font-medium text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={showPrintZones}
+                    onChange={(event) => setShowPrintZones(event.target.checked)}
+                    className="h-4 w-4 rounded border-slate-300 text-brand focus:ring-brand"
+                  />
+                  Bleed, trim and safe zones
+                </label>
+                <p className="text-xs uppercase tracking-wide text-slate-500">Scaled mockup • watermark for sample only</p>
+              </div>
             </div>
+            <p className="mt-1 text-xs text-slate-500">
+              Drag the artwork to move it and scroll or pinch to zoom around the cursor. With the preview focused, arrow
+              keys nudge by {formatLength(ARTWORK_NUDGE_MM, unitSystem)} (Shift for{" "}
+              {formatLength(ARTWORK_NUDGE_LARGE_MM, unitSystem)}) and + / − zoom. Drag a book by its
+              label onto another book to reorder the stack.
+            </p>
 
             <div className="mt-4 max-h-[520px] overflow-auto rounded-2xl border border-slate-200 bg-slate-100 p-4">
               <div
-                className="relative overflow-hidden rounded-xl border border-slate-300 bg-slate-50"
+                ref={previewStageRef}
+                role="application"
+                aria-label="Artwork position. Drag to move, scroll or pinch to zoom, arrow keys to nudge, plus and minus to zoom."
+                tabIndex={0}
+                onPointerDown={handlePreviewPointerDown}
+                onPointerMove={handlePreviewPointerMove}
+                onPointerUp={handlePreviewPointerEnd}
+                onPointerCancel={handlePreviewPointerEnd}
+                onKeyDown={handlePreviewKeyDown}
+                className="relative cursor-grab touch-none select-none overflow-hidden rounded-xl border border-slate-300 bg-slate-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-brand active:cursor-grabbing"
                 style={{
                   width: layout.metrics.requiredWidthMm * PREVIEW_SCALE,
                   height: layout.metrics.requiredHeightMm * PREVIEW_SCALE,
                 }}
               >
-                <div className="pointer-events-none absolute inset-0 z-0 overflow-hidden opacity-90">
-                  <div
-                    className="absolute left-1/2 top-1/2"
-                    style={artWrapperStyle}
-                  >
-                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                    <img
-                      src={previewArtworkSrc}
-                      alt="Uploaded artwork background"
-                      className="pointer-events-none absolute left-1/2 top-1/2 select-none"
-                      style={artImageStyle}
-                    />
-                  </div>
-                </div>
+                {renderStackLayers()}
 
                 <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center text-5xl font-black tracking-[1em] text-slate-800/10">
                   SAMPLE
                 </div>
 
-                {showLargeText && largeText.trim().length > 0 ? (
-                  <div
-                    className="pointer-events-none absolute z-20 flex items-center justify-center text-center text-white drop-shadow-[0_1px_6px_rgba(15,23,42,0.35)]"
-                    style={largeTextWrapperStyle}
-                  >
-                    <span className="w-[92%] whitespace-pre-wrap break-words text-slate-50" style={{ lineHeight: 1.1 }}>
-                      {largeText}
-                    </span>
-                  </div>
-                ) : null}
-
-                {layout.rects.map((rect) => (
+                {layout.sheets.slice(1).map((sheet) => (
                   <div
-                    key={rect.id}
-                    className="absolute z-30 rounded-md border shadow-sm"
+                    key={`sheet-break-${sheet.index}`}
+                    className="pointer-events-none absolute inset-y-0 z-40 border-l-2 border-dashed border-brand-accent"
                     style={{
-                      width: rect.widthMm * PREVIEW_SCALE,
-                      height: rect.heightMm * PREVIEW_SCALE,
-                      transform: `translate(${rect.xMm * PREVIEW_SCALE}px, ${rect.yMm * PREVIEW_SCALE}px)`,
-                      borderColor: rect.color,
-                      backgroundColor: "transparent",
+                      left:
+                        (sheet.shiftXMm + layout.metrics.spacing.sideMm - layout.metrics.spacing.gapMm / 2) *
+                        PREVIEW_SCALE,
                     }}
                   >
-                    <div className="pointer-events-none absolute bottom-2 left-1/2 w-[90%] -translate-x-1/2 rounded bg-white/80 px-2 py-1 text-center text-[10px] font-semibold uppercase tracking-wide text-slate-700">
-                      {rect.label}
-                    </div>
+                    <span className="absolute left-1 top-1 whitespace-nowrap rounded bg-brand-accent px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-slate-900">
+                      Sheet {sheet.index + 1}
+                    </span>
                   </div>
                 ))}
+
+                {showPrintZones ? (
+                  <PrintZonesOverlay
+                    zones={printZones}
+                    widthMm={layout.metrics.requiredWidthMm}
+                    heightMm={layout.metrics.requiredHeightMm}
+                    scale={PREVIEW_SCALE}
+                  />
+                ) : null}
+                {showProductionMarks ? (
+                  <ProductionMarksOverlay
+                    marks={productionMarks}
+                    widthMm={layout.metrics.requiredWidthMm}
+                    heightMm={layout.metrics.requiredHeightMm}
+                    scale={PREVIEW_SCALE}
+                  />
+                ) : null}
               </div>
             </div>
 
-            <dl className="mt-4 grid gap-3 text-sm text-slate-600 sm:grid-cols-3">
+            {layout.sheets.length > 1 ? (
+              <div className="mt-6">
+                <h3 className="text-sm font-semibold text-slate-900">
+                  Sheet tiling • {layout.sheets.length} sheets of {sheetLabel}
+                </h3>
+                <p className="mt-1 text-xs text-slate-500">
+                  Books are split at spine boundaries and the artwork continues seamlessly from one sheet to the next.
+                </p>
+                <div className="mt-3 flex gap-4 overflow-x-auto pb-2">
+                  {layout.sheets.map((sheet, index) => (
+                    <figure key={sheet.index} className="flex shrink-0 flex-col gap-2">
+                      <div
+                        className="relative overflow-hidden rounded-lg border border-slate-300 bg-slate-50"
+                        style={{
+                          width: sheet.metrics.requiredWidthMm * SHEET_PREVIEW_SCALE,
+                          height: sheet.metrics.requiredHeightMm * SHEET_PREVIEW_SCALE,
+                        }}
+                      >
+                        <div
+                          className="absolute left-0 top-0"
+                          style={{
+                            width: layout.metrics.requiredWidthMm * PREVIEW_SCALE,
+                            height: layout.metrics.requiredHeightMm * PREVIEW_SCALE,
+                            transform: `scale(${SHEET_PREVIEW_SCALE / PREVIEW_SCALE}) translateX(${-sheet.shiftXMm * PREVIEW_SCALE}px)`,
+                            transformOrigin: "top left",
+                          }}
+                        >
+                          {renderStackLayers(new Set(sheet.rects.map((rect) => rect.id)))}
+                        </div>
+                        {showPrintZones ? (
+                          <PrintZonesOverlay
+                            zones={sheetPrintZones[index]}
+                            widthMm={sheet.metrics.requiredWidthMm}
+                            heightMm={sheet.metrics.requiredHeightMm}
+                            scale={SHEET_PREVIEW_SCALE}
+                          />
+                        ) : null}
+                        {showProductionMarks ? (
+                          <ProductionMarksOverlay
+                            marks={sheetProductionMarks[index]}
+                            widthMm={sheet.metrics.requiredWidthMm}
+                            heightMm={sheet.metrics.requiredHeightMm}
+                            scale={SHEET_PREVIEW_SCALE}
+                          />
+                        ) : null}
+                      </div>
+                      <figcaption className="text-xs text-slate-600">
+                        <span className="font-semibold text-slate-900">Sheet {sheet.index + 1}</span> •{" "}
+                        {sheet.rects.length} {sheet.rects.length === 1 ? "book" : "books"} •{" "}
+                        {formatLength(sheet.metrics.requiredWidthMm, unitSystem)} wide
+                        {sheet.fitsSheet ? "" : " • exceeds sheet"}
+                      </figcaption>
+                    </figure>
+                  ))}
+                </div>
+              </div>
+            ) : null}
+
+            <dl className="mt-4 grid gap-3 text-sm text-slate-600 sm:grid-cols-4">
               <div>
-                <dt className="text-xs uppercase tracking-wide text-slate-500">Total width (spines)</dt>
-                <dd className="font-medium text-slate-900">{formatMillimetres(layout.metrics.totalWidthMm)}</dd>
+                <dt className="text-xs uppercase tracking-wide text-slate-500">
+                  Total width ({layoutMode === "jacket" ? "jackets" : "spines"})
+                </dt>
+                <dd className="font-medium text-slate-900">{formatLength(layout.metrics.totalWidthMm, unitSystem)}</dd>
               </div>
               <div>
-                <dt className="text-xs uppercase tracking-wide text-slate-500">Tallest book</dt>
-                <dd className="font-medium text-slate-900">{formatMillimetres(layout.metrics.maxHeightMm)}</dd>
+                <dt className="text-xs uppercase tracking-wide text-slate-500">Stack height</dt>
+                <dd className="font-medium text-slate-900">{formatLength(layout.metrics.stackHeightMm, unitSystem)}</dd>
               </div>
               <div>
-                <dt className="text-xs uppercase tracking-wide text-slate-500">11×17 in check</dt>
+                <dt className="text-xs uppercase tracking-wide text-slate-500">{sheetLabel} check</dt>
                 <dd className="font-medium text-slate-900">
-                  {layout.metrics.fitsOnTabloid ? "Within bounds" : "Needs larger sheet"}
+                  {layout.metrics.fitsOnSheet
+                    ? "Within bounds"
+                    : layout.metrics.fitsTiledSheets
+                      ? "Tiled at spine boundaries"
+                      : "Needs larger sheet"}
                 </dd>
               </div>
+              <div>
+                <dt className="text-xs uppercase tracking-wide text-slate-500">Sheets</dt>
+                <dd className="font-medium text-slate-900">{layout.metrics.sheetCount}</dd>
+              </div>
             </dl>
           </section>
+
+          <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+            <header className="flex flex-wrap items-end justify-between gap-4">
+              <div>
+                <h2 className="text-xl font-semibold text-slate-900">Print export</h2>
+                <p className="text-sm text-slate-500">
+                  Download a vector PDF at true physical size with no watermark, ready for the print shop.
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={handleExportPdf}
+                disabled={
+                  isExporting ||
+                  resolutionReport.level === "error" ||
+                  textReport.level === "error" ||
+                  bookRangeBlocker !== null
+                }
+                className="inline-flex items-center justify-center rounded-xl bg-brand px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-brand/90 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {isExporting ? "Preparing PDF…" : "Download print PDF"}
+              </button>
+            </header>
+
+            <div className="mt-6 grid gap-5 md:grid-cols-2">
+              <label className="flex flex-col gap-1 text-sm">
+                <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Page size</span>
+                <select
+                  value={effectiveExportPageSize}
+                  onChange={(event) => setExportPageSize(event.target.value as ExportPageSize)}
+                  className="rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-900 focus:border-brand focus:outline-none focus:ring-2 focus:ring-brand/20"
+                >
+                  <option value="sheet" disabled={!layout.metrics.fitsTiledSheets}>
+                    {layout.metrics.sheetCount > 1
+                      ? `${sheetLabel} sheets (${layout.metrics.sheetCount} pages, split at spines)`
+                      : `${sheetLabel} sheet (stack centred)`}
+                  </option>
+                  <option value="stack">
+                    Stack size ({formatStackSize(layout.metrics, unitSystem)})
+                  </option>
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-sm">
+                <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Colour</span>
+                <select
+                  value={exportColorSpace}
+                  onChange={(event) => setExportColorSpace(event.target.value as ExportColorSpace)}
+                  className="rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-900 focus:border-brand focus:outline-none focus:ring-2 focus:ring-brand/20"
+                >
+                  <option value="rgb">RGB, as designed</option>
+                  <option value="cmyk">CMYK for {printProfile.label}</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-2 self-end text-sm font-medium text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={exportProductionMarks}
+                  onChange={(event) => setExportProductionMarks(event.target.checked)}
+                  className="h-4 w-4 rounded border-slate-300 text-brand focus:ring-brand"
+                />
+                Include trim, score and registration marks with slug
+              </label>
+              <p
+                className={
+                  exportError ? "text-xs font-medium text-rose-600 md:col-span-2" : "text-xs text-slate-500 md:col-span-2"
+                }
+              >
+                {exportError
+                  ? exportError
+                  : resolutionReport.level === "error"
+                    ? "Export is blocked until the artwork meets the minimum print resolution."
+                    : textReport.level === "error"
+                      ? "Export is blocked until every text layer fits its anchor and the character limit."
+                      : bookRangeBlocker
+                        ? `Export is blocked until ${bookRangeBlocker.book.label} fits the ${productionProfile.label} ranges.`
+                        : layout.metrics.fitsTiledSheets
+                        ? "Artwork and text layers are placed exactly as in the live preview."
+                        : `The stack is too tall for ${sheetLabel}, so the PDF uses the stack size including clearances.`}
+              </p>
+            </div>
+          </section>
         </div>
       </section>
     </main>
@@ -1,9 +1,15 @@
 import type { Metadata } from "next";
 import { ReactNode } from "react";
 import "./globals.css";
-import { Inter } from "next/font/google";
+import localFont from "next/font/local";
 
-const inter = Inter({ subsets: ["latin"] });
+// The same self-hosted files the designer previews and embeds in exports (see src/lib/fonts.ts).
+const inter = localFont({
+  src: [
+    { path: "../../public/fonts/inter-400.woff", weight: "400" },
+    { path: "../../public/fonts/inter-700.woff", weight: "700" },
+  ],
+});
 
 export const metadata: Metadata = {
   title: "Flyleaf Designer",
@@ -2,12 +2,12 @@ const checklistItems = [
   {
     title: "Artwork quality",
     description:
-      "Start with clear imagery that looks good on screen; we will introduce print DPI checks in a later milestone.",
+      "The designer checks effective print DPI as you zoom, warning below 150 dpi and blocking export below 100 dpi.",
   },
   {
     title: "Book text limit",
     description:
-      "Large spine text is capped at 500 characters so layouts stay legible while we collect feedback.",
+      "Each text layer is capped at 500 characters, and text that overflows its anchor blocks export until it fits.",
   },
   {
     title: "Guided tour",
@@ -34,7 +34,7 @@ export default function Home() {
         <p className="mt-4 text-lg leading-relaxed text-slate-600">
           This Next.js foundation gives us routing, styling, and type safety so we can begin
           implementing the interactive spine designer. The page outlines the early decisions that
-          unblock engineering while highlighting upcoming tasks like DPI validation and the guided tour.
+          unblock engineering while highlighting upcoming tasks like the guided tour.
         </p>
       </section>
 
@@ -54,9 +54,10 @@ export default function Home() {
         <h2 className="text-2xl font-semibold">What comes next?</h2>
         <p className="mt-3 max-w-3xl text-base leading-relaxed text-slate-200">
           We will add the interactive canvas, geometry utilities, and validation rules described in the
-          planning docs. This prototype intentionally keeps data local and leaves room for future API
-          work, Shopify integration, and PDF generation. With the scaffold ready, we can now focus on
-          modeling book stacks and rendering the live preview experience.
+          planning docs. Designs autosave locally and can now be stored through the{" "}
+          <code className="rounded bg-slate-800 px-1.5 py-0.5 font-mono text-sm text-slate-100">/api/designs</code>{" "}
+          endpoints; connecting them to Shopify comes next. With the scaffold ready, we can keep refining book
+          stacks and the live preview experience.
         </p>
       </section>
     </main>
@@ -0,0 +1,269 @@
+import {
+  ARTWORK_BLEND_MODES,
+  OVERLAY_MAX_ZOOM,
+  OVERLAY_MIN_ZOOM,
+  type ArtworkBlendMode,
+  type ArtworkOverlay,
+  type OverlayEdge,
+  type OverlayOffsetLimits,
+} from "../../lib/artwork-layers";
+import { formatLength, type UnitSystem } from "../../lib/units";
+
+type ArtworkOverlaysPanelProps = {
+  overlays: ArtworkOverlay[];
+  units: UnitSystem;
+  activeOverlayId: number | null;
+  /** How far the selected overlay may move on its current spines. */
+  activeLimits: OverlayOffsetLimits | null;
+  books: readonly { id: number; label: string }[];
+  uploadError: string | null;
+  onSelect: (id: number) => void;
+  onAdd: (file: File) => void;
+  onRemove: (id: number) => void;
+  onMove: (id: number, direction: -1 | 1) => void;
+  onChange: (id: number, patch: Partial<Omit<ArtworkOverlay, "id">>) => void;
+};
+
+const EDGE_OPTIONS: { value: OverlayEdge; label: string }[] = [
+  { value: "bottom", label: "Bottom of spine" },
+  { value: "top", label: "Top of spine" },
+];
+
+const FIELD_LABEL = "text-xs font-semibold uppercase tracking-wide text-slate-500";
+const FIELD_INPUT =
+  "rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-900 focus:border-brand focus:outline-none focus:ring-2 focus:ring-brand/20";
+
+/**
+ * Images placed on individual spines above the background artwork, such as a publisher mark or volume badge. Each
+ * overlay repeats at the same size and height on every spine it is assigned to; later overlays sit on top.
+ */
+export function ArtworkOverlaysPanel({
+  overlays,
+  units,
+  activeOverlayId,
+  activeLimits,
+  books,
+  uploadError,
+  onSelect,
+  onAdd,
+  onRemove,
+  onMove,
+  onChange,
+}: ArtworkOverlaysPanelProps) {
+  const active = overlays.find((overlay) => overlay.id === activeOverlayId) ?? null;
+  const update = (patch: Partial<Omit<ArtworkOverlay, "id">>) => {
+    if (active) {
+      onChange(active.id, patch);
+    }
+  };
+
+  return (
+    <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+      <header className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-900">Spine overlays</h2>
+          <p className="text-sm text-slate-500">
+            Images repeated on chosen spines over the background artwork. Later overlays sit on top.
+          </p>
+        </div>
+        <label className="cursor-pointer rounded-xl bg-brand px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-brand/90">
+          Add overlay
+          <input
+            type="file"
+            accept="image/*"
+            className="sr-only"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) {
+                onAdd(file);
+              }
+            }}
+          />
+        </label>
+      </header>
+      {uploadError ? <p className="mt-2 text-xs font-medium text-rose-600">{uploadError}</p> : null}
+
+      {overlays.length === 0 ? (
+        <p className="mt-4 text-sm text-slate-500">No overlays yet.</p>
+      ) : (
+        <ol className="mt-4 flex flex-col gap-2">
+          {overlays.map((overlay, index) => (
+            <li
+              key={overlay.id}
+              className={
+                overlay.id === activeOverlayId
+                  ? "flex items-center gap-2 rounded-xl border border-brand bg-brand/5 px-3 py-2"
+                  : "flex items-center gap-2 rounded-xl border border-slate-200 px-3 py-2"
+              }
+            >
+              <input
+                type="checkbox"
+                checked={overlay.visible}
+                onChange={(event) => onChange(overlay.id, { visible: event.target.checked })}
+                className="h-4 w-4 rounded border-slate-300 text-brand focus:ring-brand"
+                aria-label={`Show ${overlay.name}`}
+              />
+              <button
+                type="button"
+                onClick={() => onSelect(overlay.id)}
+                className="flex min-w-0 flex-1 flex-col items-start text-left"
+              >
+                <span className="truncate text-sm font-medium text-slate-900">{overlay.name}</span>
+                <span className="truncate text-xs text-slate-500">
+                  {overlay.bookIds.length === 0
+                    ? "Not on any spine"
+                    : overlay.bookIds.length === books.length
+                      ? "Every spine"
+                      : `${overlay.bookIds.length} of ${books.length} spines`}
+                </span>
+              </button>
+              <button
+                type="button"
+                onClick={() => onMove(overlay.id, -1)}
+                disabled={index === 0}
+                className="rounded-md px-2 py-1 text-xs font-semibold text-slate-600 transition hover:bg-slate-100 disabled:opacity-40"
+                aria-label={`Send ${overlay.name} backward`}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => onMove(overlay.id, 1)}
+                disabled={index === overlays.length - 1}
+                className="rounded-md px-2 py-1 text-xs font-semibold text-slate-600 transition hover:bg-slate-100 disabled:opacity-40"
+                aria-label={`Bring ${overlay.name} forward`}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => onRemove(overlay.id)}
+                className="rounded-md px-2 py-1 text-xs font-semibold text-rose-600 transition hover:bg-rose-50"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {active ? (
+        <div className="mt-6 grid gap-5 md:grid-cols-3">
+          <label className="flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Overlay name</span>
+            <input value={active.name} onChange={(event) => update({ name: event.target.value })} className={FIELD_INPUT} />
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Measured from</span>
+            <select
+              value={active.edge}
+              onChange={(event) => {
+                const edge = event.target.value as OverlayEdge;
+                // Mirror the offset so the overlay keeps the same distance from its new edge.
+                update({ edge, offsetMm: { ...active.offsetMm, y: -active.offsetMm.y } });
+              }}
+              className={FIELD_INPUT}
+            >
+              {EDGE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Blend mode</span>
+            <select
+              value={active.blendMode}
+              onChange={(event) => update({ blendMode: event.target.value as ArtworkBlendMode })}
+              className={FIELD_INPUT}
+            >
+              {ARTWORK_BLEND_MODES.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <fieldset className="md:col-span-3 flex flex-col gap-2 rounded-xl border border-slate-200 p-3 text-sm">
+            <legend className={`px-1 ${FIELD_LABEL}`}>Spines</legend>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {books.map((book) => (
+                <label key={book.id} className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={active.bookIds.includes(book.id)}
+                    onChange={(event) =>
+                      update({
+                        bookIds: event.target.checked
+                          ? books.map((candidate) => candidate.id).filter(
+                              (id) => id === book.id || active.bookIds.includes(id),
+                            )
+                          : active.bookIds.filter((id) => id !== book.id),
+                      })
+                    }
+                    className="h-4 w-4 rounded border-slate-300 text-brand focus:ring-brand"
+                  />
+                  {book.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <label className="flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Horizontal offset</span>
+            <input
+              type="range"
+              min={activeLimits?.minX ?? 0}
+              max={activeLimits?.maxX ?? 0}
+              step={0.5}
+              value={active.offsetMm.x}
+              onChange={(event) => update({ offsetMm: { ...active.offsetMm, x: Number(event.target.value) } })}
+            />
+            <span className="text-xs text-slate-500">{formatLength(active.offsetMm.x, units)}</span>
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Vertical offset</span>
+            <input
+              type="range"
+              min={activeLimits?.minY ?? 0}
+              max={activeLimits?.maxY ?? 0}
+              step={0.5}
+              value={active.offsetMm.y}
+              onChange={(event) => update({ offsetMm: { ...active.offsetMm, y: Number(event.target.value) } })}
+            />
+            <span className="text-xs text-slate-500">
+              {formatLength(Math.abs(active.offsetMm.y), units)} from the {active.edge}
+            </span>
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Size</span>
+            <input
+              type="range"
+              min={OVERLAY_MIN_ZOOM}
+              max={OVERLAY_MAX_ZOOM}
+              step={0.01}
+              value={active.zoom}
+              onChange={(event) => update({ zoom: Number(event.target.value) })}
+            />
+            <span className="text-xs text-slate-500">{(active.zoom * 100).toFixed(0)}% of the narrowest spine</span>
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Opacity</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={active.opacity}
+              onChange={(event) => update({ opacity: Number(event.target.value) })}
+            />
+            <span className="text-xs text-slate-500">{(active.opacity * 100).toFixed(0)}%</span>
+          </label>
+        </div>
+      ) : null}
+    </section>
+  );
+}
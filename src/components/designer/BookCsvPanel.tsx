@@ -0,0 +1,243 @@
+import { useMemo, useState } from "react";
+
+import {
+  BOOK_CSV_FIELDS,
+  LENGTH_UNITS,
+  detectLengthUnit,
+  guessBookCsvMapping,
+  readBookCsvRows,
+  type BookCsvField,
+  type BookCsvMapping,
+  type ImportedBook,
+  type LengthUnit,
+} from "../../lib/book-csv";
+import { parseCsv } from "../../lib/csv";
+import type { CentimetreFormatter, ProductionProfile } from "../../lib/production-profiles";
+
+export type BookImportMode = "replace" | "append";
+
+type BookCsvPanelProps = {
+  profile: ProductionProfile;
+  /** Writes range limits in row errors in the designer's units. */
+  formatCm: CentimetreFormatter;
+  onImport: (books: ImportedBook[], mode: BookImportMode) => void;
+  onExport: () => void;
+};
+
+type PendingCsv = {
+  fileName: string;
+  header: string[];
+  rows: string[][];
+  mapping: BookCsvMapping;
+  unit: LengthUnit;
+  /** Whether the unit was read from a header, guessed from the heights or picked by the user. */
+  unitSource: "header" | "heights" | "chosen";
+};
+
+const FIELD_LABEL = "text-xs font-medium uppercase tracking-wide text-slate-500";
+const FIELD_INPUT = "rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900";
+const MAX_LISTED_ERRORS = 6;
+
+/**
+ * Imports a book list from a spreadsheet export and exports the current one. An import is read in two steps: pick
+ * which column feeds each field and the unit, then review the rows that fail the profile's ranges before committing.
+ */
+export function BookCsvPanel({ profile, formatCm, onImport, onExport }: BookCsvPanelProps) {
+  const [pending, setPending] = useState<PendingCsv | null>(null);
+  const [mode, setMode] = useState<BookImportMode>("append");
+  const [error, setError] = useState<string | null>(null);
+
+  const result = useMemo(
+    () => (pending ? readBookCsvRows(pending.rows, pending.mapping, pending.unit, profile, formatCm) : null),
+    [pending, profile, formatCm],
+  );
+  const unitLabel = LENGTH_UNITS.find((option) => option.value === pending?.unit)?.label ?? "";
+  const missingRequired = pending
+    ? BOOK_CSV_FIELDS.filter((field) => field.required && pending.mapping[field.field] === null)
+    : [];
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const [header, ...rows] = parseCsv(await file.text());
+      if (!header || rows.length === 0) {
+        setPending(null);
+        setError(`${file.name} has no rows under its header.`);
+        return;
+      }
+      const mapping = guessBookCsvMapping(header);
+      const detected = detectLengthUnit(header, rows, mapping);
+      setPending({
+        fileName: file.name,
+        header,
+        rows,
+        mapping,
+        unit: detected.unit,
+        unitSource: detected.fromHeader ? "header" : "heights",
+      });
+    } catch {
+      setPending(null);
+      setError(`${file.name} could not be read as CSV.`);
+    }
+  };
+
+  const updateMapping = (field: BookCsvField, value: string) => {
+    if (!pending) {
+      return;
+    }
+    const mapping = { ...pending.mapping, [field]: value === "" ? null : Number(value) };
+    // A different length column may name (or imply) a different unit, unless the user has already picked one.
+    if (pending.unitSource === "chosen" || (field !== "height" && field !== "spineWidth")) {
+      setPending({ ...pending, mapping });
+      return;
+    }
+    const detected = detectLengthUnit(pending.header, pending.rows, mapping);
+    setPending({ ...pending, mapping, unit: detected.unit, unitSource: detected.fromHeader ? "header" : "heights" });
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-slate-50/70 p-4">
+      <h3 className="text-sm font-semibold text-slate-900">Book list CSV</h3>
+      <p className="mt-1 text-xs text-slate-500">
+        Bring in names, heights, spine widths, colours and ISBNs from a spreadsheet, or export this list to edit it there.
+      </p>
+      <div className="mt-3 flex flex-wrap gap-2">
+        <label className="cursor-pointer rounded-lg border border-slate-300 bg-white px-3 py-2 text-xs font-semibold text-slate-700 transition hover:bg-slate-100">
+          Import CSV
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="sr-only"
+            onClick={(event) => {
+              event.currentTarget.value = "";
+            }}
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) {
+                void handleFile(file);
+              }
+            }}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={onExport}
+          className="rounded-lg border border-slate-300 bg-white px-3 py-2 text-xs font-semibold text-slate-700 transition hover:bg-slate-100"
+        >
+          Export CSV
+        </button>
+      </div>
+      {error ? <p className="mt-2 text-xs font-medium text-rose-600">{error}</p> : null}
+
+      {pending && result ? (
+        <div className="mt-4 flex flex-col gap-3 border-t border-slate-200 pt-3 text-sm">
+          <p className="text-xs text-slate-500">
+            {pending.fileName}: {pending.rows.length} {pending.rows.length === 1 ? "row" : "rows"}. Match each field to a
+            column.
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            {BOOK_CSV_FIELDS.map(({ field, label, required }) => (
+              <label key={field} className="flex flex-col gap-1">
+                <span className={FIELD_LABEL}>
+                  {label}
+                  {required ? "" : " (optional)"}
+                </span>
+                <select
+                  value={pending.mapping[field] ?? ""}
+                  onChange={(event) => updateMapping(field, event.target.value)}
+                  className={FIELD_INPUT}
+                >
+                  <option value="">{required ? "Choose a column" : "Not imported"}</option>
+                  {pending.header.map((name, column) => (
+                    <option key={column} value={column}>
+                      {name || `Column ${column + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+            <label className="flex flex-col gap-1">
+              <span className={FIELD_LABEL}>Lengths in</span>
+              <select
+                value={pending.unit}
+                onChange={(event) =>
+                  setPending({ ...pending, unit: event.target.value as LengthUnit, unitSource: "chosen" })
+                }
+                className={FIELD_INPUT}
+              >
+                {LENGTH_UNITS.map((unit) => (
+                  <option key={unit.value} value={unit.value}>
+                    {unit.label}
+                  </option>
+                ))}
+              </select>
+              <span className="text-xs text-slate-500">
+                {pending.unitSource === "header"
+                  ? `${unitLabel} read from the column header. `
+                  : pending.unitSource === "heights"
+                    ? `${unitLabel} guessed from the heights; check it. `
+                    : ""}
+                A unit written in a cell, such as 3 mm, overrides it.
+              </span>
+            </label>
+          </div>
+
+          {missingRequired.length > 0 ? (
+            <p className="text-xs font-medium text-rose-600">
+              Choose the {missingRequired.map((field) => field.label.toLowerCase()).join(" and ")} column to import.
+            </p>
+          ) : result.errors.length > 0 ? (
+            <div className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">
+              <p className="font-semibold">
+                {result.errors.length} {result.errors.length === 1 ? "row" : "rows"} will be skipped:
+              </p>
+              <ul className="mt-1 flex flex-col gap-1">
+                {result.errors.slice(0, MAX_LISTED_ERRORS).map((rowError) => (
+                  <li key={rowError.row}>
+                    Row {rowError.row}: {rowError.messages.join(" ")}
+                  </li>
+                ))}
+                {result.errors.length > MAX_LISTED_ERRORS ? (
+                  <li>…and {result.errors.length - MAX_LISTED_ERRORS} more.</li>
+                ) : null}
+              </ul>
+            </div>
+          ) : null}
+
+          <fieldset className="flex flex-wrap gap-4 text-xs text-slate-700">
+            <legend className={`${FIELD_LABEL} mb-1`}>Imported books</legend>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={mode === "append"} onChange={() => setMode("append")} />
+              Add after the current books
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={mode === "replace"} onChange={() => setMode("replace")} />
+              Replace the current books
+            </label>
+          </fieldset>
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              disabled={missingRequired.length > 0 || result.books.length === 0}
+              onClick={() => {
+                onImport(result.books, mode);
+                setPending(null);
+              }}
+              className="rounded-lg bg-brand px-3 py-2 text-xs font-semibold text-white transition hover:bg-brand/90 disabled:opacity-50"
+            >
+              Import {result.books.length} {result.books.length === 1 ? "book" : "books"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setPending(null)}
+              className="rounded-lg border border-slate-300 bg-white px-3 py-2 text-xs font-semibold text-slate-700 transition hover:bg-slate-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from "react";
+
+import type { BookMetadata } from "../../lib/book-catalogue";
+import { cmToMm } from "../../lib/geometry";
+import {
+  BINDING_STYLES,
+  DEFAULT_PAPER_STOCK_ID,
+  PAPER_STOCKS,
+  estimateSpineWidthCm,
+  findPaperStock,
+  type BindingStyle,
+} from "../../lib/spine-estimate";
+import { formatLength, type UnitSystem } from "../../lib/units";
+
+/** What a lookup or estimate fills in; fields left out keep the book's current value. */
+export type BookLookupPatch = {
+  label?: string;
+  heightCm?: number;
+  spineWidthCm?: number;
+  isbn?: string;
+  title?: string;
+  author?: string;
+};
+
+type BookLookupProps = {
+  bookLabel: string;
+  units: UnitSystem;
+  onSearch: (query: string) => Promise<BookMetadata[]>;
+  onApply: (patch: BookLookupPatch) => void;
+};
+
+const FIELD_LABEL = "text-xs font-medium uppercase tracking-wide text-slate-500";
+const FIELD_INPUT = "rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900";
+
+function formatDimensions(book: BookMetadata, estimatedSpineCm: number | null, units: UnitSystem): string {
+  const format = (valueCm: number) => formatLength(cmToMm(valueCm), units);
+  const parts = [
+    book.heightCm ? `${format(book.heightCm)} tall` : "height unknown",
+    book.spineWidthCm
+      ? `${format(book.spineWidthCm)} spine`
+      : estimatedSpineCm
+        ? `≈ ${format(estimatedSpineCm)} spine from ${book.pageCount} pages`
+        : "spine unknown",
+  ];
+  return parts.join(" • ");
+}
+
+/**
+ * Fills a book's name, height and spine width from the book catalogue by ISBN or title, and estimates the spine from
+ * the page count and paper when the catalogue (or the customer) has no measured width.
+ */
+export function BookLookup({ bookLabel, units, onSearch, onApply }: BookLookupProps) {
+  const [query, setQuery] = useState<string>("");
+  const [results, setResults] = useState<BookMetadata[] | null>(null);
+  const [status, setStatus] = useState<{ tone: "info" | "error"; message: string } | null>(null);
+  const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [paperStockId, setPaperStockId] = useState<string>(DEFAULT_PAPER_STOCK_ID);
+  const [binding, setBinding] = useState<BindingStyle>("paperback");
+  const [pageCount, setPageCount] = useState<number>(320);
+  const paperStock = findPaperStock(paperStockId);
+  const estimateFor = (pages: number | null) => (pages ? estimateSpineWidthCm(pages, paperStock, binding) : null);
+  const manualEstimateCm = pageCount > 0 ? estimateSpineWidthCm(pageCount, paperStock, binding) : null;
+
+  const handleSearch = async () => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      return;
+    }
+    setIsSearching(true);
+    setStatus(null);
+    try {
+      const books = await onSearch(trimmed);
+      setResults(books);
+      if (books.length === 0) {
+        setStatus({ tone: "info", message: `Nothing in the catalogue matches “${trimmed}”.` });
+      }
+    } catch {
+      setResults(null);
+      setStatus({ tone: "error", message: "The book catalogue could not be searched. Try again in a moment." });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <details className="col-span-2 rounded-xl border border-slate-200 bg-white p-3">
+      <summary className="cursor-pointer text-xs font-semibold uppercase tracking-wide text-brand">
+        Look up {bookLabel} by ISBN or title
+      </summary>
+
+      <form
+        className="mt-3 flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void handleSearch();
+        }}
+      >
+        <input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="978-0-261-10221-7 or The Hobbit"
+          className={`min-w-0 flex-1 ${FIELD_INPUT}`}
+          aria-label={`ISBN or title for ${bookLabel}`}
+        />
+        <button
+          type="submit"
+          disabled={isSearching || !query.trim()}
+          className="rounded-lg bg-brand px-3 py-2 text-xs font-semibold text-white transition hover:bg-brand/90 disabled:opacity-50"
+        >
+          {isSearching ? "Searching…" : "Search"}
+        </button>
+      </form>
+      {status ? (
+        <p className={status.tone === "error" ? "mt-2 text-xs font-medium text-rose-600" : "mt-2 text-xs text-slate-500"}>
+          {status.message}
+        </p>
+      ) : null}
+
+      {results && results.length > 0 ? (
+        <ul className="mt-3 flex flex-col gap-2">
+          {results.map((book, index) => {
+            const estimatedSpineCm = book.spineWidthCm ? null : estimateFor(book.pageCount);
+            const spineWidthCm = book.spineWidthCm ?? estimatedSpineCm;
+            return (
+              <li key={`${book.isbn ?? book.title}-${index}`} className="flex items-start gap-2 text-xs">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-semibold text-slate-900">{book.title}</p>
+                  <p className="truncate text-slate-500">
+                    {[book.author, book.isbn].filter(Boolean).join(" • ")}
+                  </p>
+                  <p className="text-slate-500">{formatDimensions(book, estimatedSpineCm, units)}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() =>
+                    onApply({
+                      label: book.title,
+                      title: book.title,
+                      author: book.author,
+                      ...(book.isbn ? { isbn: book.isbn } : {}),
+                      ...(book.heightCm ? { heightCm: book.heightCm } : {}),
+                      ...(spineWidthCm ? { spineWidthCm } : {}),
+                    })
+                  }
+                  className="rounded-md px-2 py-1 font-semibold text-brand transition hover:bg-brand/10"
+                >
+                  Use
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : null}
+
+      <div className="mt-4 grid grid-cols-2 gap-3 border-t border-slate-200 pt-3 text-sm">
+        <p className="col-span-2 text-xs text-slate-500">
+          No measured spine? Estimate it from the page count. Paper bulk varies, so check a proof copy before printing.
+        </p>
+        <label className="flex flex-col gap-1">
+          <span className={FIELD_LABEL}>Pages</span>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={pageCount}
+            onChange={(event) => setPageCount(Math.max(Math.round(Number(event.target.value)) || 0, 0))}
+            className={FIELD_INPUT}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={FIELD_LABEL}>Binding</span>
+          <select
+            value={binding}
+            onChange={(event) => setBinding(event.target.value as BindingStyle)}
+            className={FIELD_INPUT}
+          >
+            {BINDING_STYLES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="col-span-2 flex flex-col gap-1">
+          <span className={FIELD_LABEL}>Text paper</span>
+          <select value={paperStockId} onChange={(event) => setPaperStockId(event.target.value)} className={FIELD_INPUT}>
+            {PAPER_STOCKS.map((stock) => (
+              <option key={stock.id} value={stock.id}>
+                {stock.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          disabled={!manualEstimateCm}
+          onClick={() => {
+            if (manualEstimateCm) {
+              onApply({ spineWidthCm: manualEstimateCm });
+            }
+          }}
+          className="col-span-2 rounded-lg border border-slate-300 bg-white px-3 py-2 text-xs font-semibold text-slate-700 transition hover:bg-slate-100 disabled:opacity-40"
+        >
+          {manualEstimateCm ? `Use estimated ${formatLength(cmToMm(manualEstimateCm), units)} spine` : "Enter a page count"}
+        </button>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,148 @@
+import { GAMUT_WARNING_AREA_SHARE, type ColorGamutIssue, type PrintProfile } from "../../lib/color-proof";
+
+/** An image in the design and how much of it falls outside the profile's gamut, or null until it has been proofed. */
+export type ImageGamutSummary = {
+  label: string;
+  outOfGamutShare: number | null;
+};
+
+type ColorProofPanelProps = {
+  profiles: readonly PrintProfile[];
+  profileId: string;
+  softProof: boolean;
+  showGamutWarnings: boolean;
+  images: ImageGamutSummary[];
+  colorIssues: ColorGamutIssue[];
+  /** Set when the preview images could not be proofed, such as artwork linked from another site. */
+  proofError: string | null;
+  onProfileChange: (id: string) => void;
+  onSoftProofChange: (enabled: boolean) => void;
+  onShowGamutWarningsChange: (enabled: boolean) => void;
+};
+
+const FIELD_LABEL = "text-xs font-semibold uppercase tracking-wide text-slate-500";
+
+function formatShare(share: number): string {
+  return share < 0.001 ? "<0.1%" : `${(share * 100).toFixed(share < 0.1 ? 1 : 0)}%`;
+}
+
+/**
+ * Soft-proof controls: the press profile the preview simulates, a highlight for artwork pixels the press cannot
+ * reach, and the design colours (text, spine text and jacket swatches) that will shift noticeably in print.
+ */
+export function ColorProofPanel({
+  profiles,
+  profileId,
+  softProof,
+  showGamutWarnings,
+  images,
+  colorIssues,
+  proofError,
+  onProfileChange,
+  onSoftProofChange,
+  onShowGamutWarningsChange,
+}: ColorProofPanelProps) {
+  const profile = profiles.find((candidate) => candidate.id === profileId);
+  const flaggedImages = images.filter((image) => (image.outOfGamutShare ?? 0) >= GAMUT_WARNING_AREA_SHARE);
+  const hasUncheckedImages = images.some((image) => image.outOfGamutShare === null);
+
+  return (
+    <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+      <header>
+        <h2 className="text-xl font-semibold text-slate-900">Colour proof</h2>
+        <p className="text-sm text-slate-500">
+          Preview how the design prints on a CMYK press. The simulation is an approximation of the printing condition,
+          not a contract proof.
+        </p>
+      </header>
+
+      <div className="mt-4 grid gap-5 md:grid-cols-3">
+        <label className="flex flex-col gap-1 text-sm">
+          <span className={FIELD_LABEL}>Printing condition</span>
+          <select
+            value={profileId}
+            onChange={(event) => onProfileChange(event.target.value)}
+            className="rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-900 focus:border-brand focus:outline-none focus:ring-2 focus:ring-brand/20"
+          >
+            {profiles.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {profile ? <span className="text-xs text-slate-500">{profile.description}</span> : null}
+        </label>
+        <label className="flex items-center gap-2 self-start pt-6 text-sm font-medium text-slate-700">
+          <input
+            type="checkbox"
+            checked={softProof}
+            onChange={(event) => onSoftProofChange(event.target.checked)}
+            className="h-4 w-4 rounded border-slate-300 text-brand focus:ring-brand"
+          />
+          Soft-proof the preview
+        </label>
+        <label className="flex items-center gap-2 self-start pt-6 text-sm font-medium text-slate-700">
+          <input
+            type="checkbox"
+            checked={showGamutWarnings}
+            onChange={(event) => onShowGamutWarningsChange(event.target.checked)}
+            className="h-4 w-4 rounded border-slate-300 text-brand focus:ring-brand"
+          />
+          Highlight out-of-gamut artwork
+        </label>
+      </div>
+
+      <div className="mt-4 flex flex-col gap-3 text-sm">
+        {proofError ? <p className="text-xs font-medium text-rose-600">{proofError}</p> : null}
+        {hasUncheckedImages ? (
+          <p className="text-xs text-slate-500">
+            Artwork is checked while the preview is soft-proofed or out-of-gamut artwork is highlighted.
+          </p>
+        ) : null}
+        {flaggedImages.length === 0 && colorIssues.length === 0 ? (
+          <p className="rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-emerald-800">
+            {hasUncheckedImages
+              ? "Every text and jacket colour is within reach of this press."
+              : "Every colour in the design is within reach of this press."}
+          </p>
+        ) : null}
+        {flaggedImages.length > 0 ? (
+          <div className="rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-amber-800">
+            <p className="text-xs font-semibold uppercase tracking-wide">Artwork outside the press gamut</p>
+            <ul className="mt-1 flex flex-col gap-0.5">
+              {flaggedImages.map((image, index) => (
+                <li key={`${index}-${image.label}`}>
+                  {image.label}: {formatShare(image.outOfGamutShare ?? 0)} of the visible pixels will print duller
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+        {colorIssues.length > 0 ? (
+          <div className="rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-amber-800">
+            <p className="text-xs font-semibold uppercase tracking-wide">Colours that will shift</p>
+            <ul className="mt-2 flex flex-col gap-1.5">
+              {colorIssues.map((issue) => (
+                <li key={`${issue.label}-${issue.hex}`} className="flex items-center gap-2">
+                  <span
+                    className="h-4 w-4 shrink-0 rounded border border-slate-900/20"
+                    style={{ backgroundColor: issue.hex }}
+                    title={`Designed ${issue.hex}`}
+                  />
+                  <span aria-hidden>→</span>
+                  <span
+                    className="h-4 w-4 shrink-0 rounded border border-slate-900/20"
+                    style={{ backgroundColor: issue.proofHex }}
+                    title={`Prints about ${issue.proofHex}`}
+                  />
+                  <span className="min-w-0 flex-1 truncate">{issue.label}</span>
+                  <span className="text-xs tabular-nums">ΔE {issue.deltaE.toFixed(0)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+      </div>
+    </section>
+  );
+}
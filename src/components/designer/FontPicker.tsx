@@ -0,0 +1,131 @@
+import { useEffect, useRef, useState } from "react";
+
+import { FONT_UPLOAD_EXTENSIONS, findFontDefinition, type FontDefinition } from "../../lib/fonts";
+
+type FontPickerProps = {
+  value: string;
+  fonts: readonly FontDefinition[];
+  /** Shown in every font of the list, usually the text being styled. */
+  sample: string;
+  weight?: number;
+  /** Adds an uploaded file to the library and returns its font-family value, or throws with a message to show. */
+  onUpload: (file: File) => Promise<string>;
+  onChange: (value: string) => void;
+};
+
+const SAMPLE_MAX_CHARACTERS = 40;
+
+/**
+ * Font selector that previews every library font in its own face, with an upload option for the user's own files.
+ * Uploaded fonts are picked as soon as they are added.
+ */
+export function FontPicker({ value, fonts, sample, weight = 400, onUpload, onChange }: FontPickerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [isUploading, setIsUploading] = useState<boolean>(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const current = findFontDefinition(fonts, value);
+  const previewText = sample.trim().slice(0, SAMPLE_MAX_CHARACTERS) || "The quick brown fox";
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("pointerdown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleUpload = async (file: File) => {
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      onChange(await onUpload(file));
+      setIsOpen(false);
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : `${file.name} could not be added.`);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+        className="flex w-full items-center justify-between gap-2 rounded-lg border border-slate-300 bg-white px-3 py-2 text-left text-slate-900"
+      >
+        <span className="truncate" style={{ fontFamily: value, fontWeight: weight }}>
+          {current?.label ?? "Custom font"}
+        </span>
+        <span aria-hidden className="text-xs text-slate-400">
+          ▾
+        </span>
+      </button>
+      {isOpen ? (
+        <div className="absolute left-0 right-0 z-30 mt-1 rounded-xl border border-slate-200 bg-white p-1 shadow-lg">
+          <ul role="listbox" aria-label="Fonts" className="flex max-h-72 flex-col gap-0.5 overflow-y-auto">
+            {fonts.map((font) => (
+              <li key={font.family} role="option" aria-selected={font.family === current?.family}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    onChange(font.stack);
+                    setIsOpen(false);
+                  }}
+                  className={
+                    font.family === current?.family
+                      ? "flex w-full flex-col rounded-lg bg-brand/10 px-3 py-2 text-left"
+                      : "flex w-full flex-col rounded-lg px-3 py-2 text-left transition hover:bg-slate-100"
+                  }
+                >
+                  <span className="text-[11px] font-medium uppercase tracking-wide text-slate-500">
+                    {font.label}
+                    {font.uploaded ? " • uploaded" : ""}
+                  </span>
+                  <span className="truncate text-lg text-slate-900" style={{ fontFamily: font.stack, fontWeight: weight }}>
+                    {previewText}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <label className="mt-1 flex cursor-pointer items-center justify-center rounded-lg border border-dashed border-slate-300 px-3 py-2 text-xs font-semibold text-brand transition hover:bg-slate-50">
+            Upload font (TTF, OTF, WOFF2)
+            <input
+              type="file"
+              accept={FONT_UPLOAD_EXTENSIONS.join(",")}
+              className="sr-only"
+              disabled={isUploading}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                event.target.value = "";
+                if (file) {
+                  void handleUpload(file);
+                }
+              }}
+            />
+          </label>
+        </div>
+      ) : null}
+      {isUploading ? <p className="mt-1 text-xs text-slate-500">Checking font…</p> : null}
+      {uploadError ? <p className="mt-1 text-xs font-medium text-rose-600">{uploadError}</p> : null}
+    </div>
+  );
+}
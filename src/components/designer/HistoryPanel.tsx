@@ -0,0 +1,67 @@
+import type { HistoryState } from "../../lib/history";
+
+type HistoryPanelProps<T> = {
+  history: HistoryState<T>;
+  onJump: (index: number) => void;
+};
+
+/**
+ * Undo/redo buttons plus the full step list; clicking any step jumps straight to it. Steps after the current one stay
+ * listed (dimmed) until a new edit replaces them.
+ */
+export function HistoryPanel<T>({ history, onJump }: HistoryPanelProps<T>) {
+  const entries = [...history.past, history.present, ...history.future];
+  const currentIndex = history.past.length;
+
+  return (
+    <details className="rounded-2xl border border-slate-200 bg-white px-4 py-3 shadow-sm">
+      <summary className="flex cursor-pointer flex-wrap items-center gap-3 text-xs">
+        <span className="font-semibold uppercase tracking-wide text-slate-500">History</span>
+        <button
+          type="button"
+          onClick={(event) => {
+            event.preventDefault();
+            onJump(currentIndex - 1);
+          }}
+          disabled={history.past.length === 0}
+          className="rounded-lg border border-slate-300 px-3 py-1.5 font-semibold text-slate-700 transition hover:bg-slate-100 disabled:opacity-50"
+          title="Undo (Ctrl+Z)"
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          onClick={(event) => {
+            event.preventDefault();
+            onJump(currentIndex + 1);
+          }}
+          disabled={history.future.length === 0}
+          className="rounded-lg border border-slate-300 px-3 py-1.5 font-semibold text-slate-700 transition hover:bg-slate-100 disabled:opacity-50"
+          title="Redo (Ctrl+Shift+Z)"
+        >
+          Redo
+        </button>
+        <span className="text-slate-500">{history.present.label}</span>
+      </summary>
+      <ol className="mt-3 flex max-h-60 flex-col gap-1 overflow-y-auto text-xs">
+        {entries.map((entry, index) => (
+          <li key={entry.id}>
+            <button
+              type="button"
+              onClick={() => onJump(index)}
+              className={
+                index === currentIndex
+                  ? "w-full rounded-lg bg-brand/10 px-3 py-1.5 text-left font-semibold text-brand"
+                  : index > currentIndex
+                    ? "w-full rounded-lg px-3 py-1.5 text-left text-slate-400 transition hover:bg-slate-100"
+                    : "w-full rounded-lg px-3 py-1.5 text-left text-slate-700 transition hover:bg-slate-100"
+              }
+            >
+              {entry.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+}
@@ -0,0 +1,74 @@
+import { useState, type KeyboardEvent } from "react";
+
+import {
+  formatLengthValue,
+  lengthStepMm,
+  parseLength,
+  type LengthPrecision,
+  type UnitSystem,
+} from "../../lib/units";
+
+type LengthInputProps = {
+  valueMm: number;
+  units: UnitSystem;
+  /** `type` for sizes, spacing and strokes, which need finer steps than book dimensions. */
+  precision?: LengthPrecision;
+  onChange: (valueMm: number) => void;
+  minMm?: number;
+  maxMm?: number;
+  className?: string;
+  disabled?: boolean;
+  "aria-label"?: string;
+};
+
+/**
+ * A text field for one length in the chosen units. Typing is kept as entered (so `9 1/` can become `9 1/4`) and only
+ * committed once it reads as a length; leaving the field shows the stored value again. Arrow keys step by one unit
+ * mark, with Shift for ten.
+ */
+export function LengthInput({
+  valueMm,
+  units,
+  precision = "length",
+  onChange,
+  minMm,
+  maxMm,
+  className,
+  ...rest
+}: LengthInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const clampMm = (value: number) => Math.min(Math.max(value, minMm ?? -Infinity), maxMm ?? Infinity);
+  const isInvalid = draft !== null && parseLength(draft, units) === null;
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    const direction = event.key === "ArrowUp" ? 1 : event.key === "ArrowDown" ? -1 : 0;
+    if (direction === 0) {
+      return;
+    }
+    event.preventDefault();
+    const stepMm = lengthStepMm(units, precision) * (event.shiftKey ? 10 : 1);
+    const next = clampMm(Math.round(valueMm / stepMm + direction) * stepMm);
+    setDraft(null);
+    onChange(next);
+  };
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      value={draft ?? formatLengthValue(valueMm, units, precision)}
+      onChange={(event) => {
+        setDraft(event.target.value);
+        const parsed = parseLength(event.target.value, units);
+        if (parsed !== null) {
+          onChange(clampMm(parsed));
+        }
+      }}
+      onBlur={() => setDraft(null)}
+      onKeyDown={handleKeyDown}
+      aria-invalid={isInvalid || undefined}
+      className={`${className ?? ""} ${isInvalid ? "border-rose-400" : ""}`}
+      {...rest}
+    />
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from "react";
+
+import {
+  createCustomPaperSize,
+  type PaperOrientation,
+  type PaperSize,
+  type ResolvedSheet,
+} from "../../lib/paper-sizes";
+import { formatLength, formatLengthValue, unitSymbol, type UnitSystem } from "../../lib/units";
+import { LengthInput } from "./LengthInput";
+
+type PaperSizePickerProps = {
+  papers: PaperSize[];
+  sheet: ResolvedSheet;
+  units: UnitSystem;
+  onSelectPaper: (id: string) => void;
+  onOrientationChange: (orientation: PaperOrientation) => void;
+  onAddCustomPaper: (paper: PaperSize) => void;
+};
+
+const CUSTOM_PAPER_MIN_MM = 50;
+
+function formatEdges(paper: PaperSize, units: UnitSystem): string {
+  if (paper.kind === "roll") {
+    return `${formatLength(paper.shortEdgeMm, units)} wide, up to ${formatLength(paper.longEdgeMm, units)}`;
+  }
+  return `${formatLengthValue(paper.shortEdgeMm, units)} × ${formatLength(paper.longEdgeMm, units)}`;
+}
+
+/**
+ * Paper catalogue selector with orientation and a small form for user-defined sheet sizes.
+ */
+export function PaperSizePicker({
+  papers,
+  sheet,
+  units,
+  onSelectPaper,
+  onOrientationChange,
+  onAddCustomPaper,
+}: PaperSizePickerProps) {
+  const [customLabel, setCustomLabel] = useState<string>("");
+  const [customWidthMm, setCustomWidthMm] = useState<number>(330);
+  const [customHeightMm, setCustomHeightMm] = useState<number>(480);
+  const isRoll = sheet.paper.kind === "roll";
+  const customIsValid = customWidthMm >= CUSTOM_PAPER_MIN_MM && customHeightMm >= CUSTOM_PAPER_MIN_MM;
+
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-slate-50/70 p-4 text-sm text-slate-600">
+      <h3 className="font-semibold text-slate-900">Paper size</h3>
+      <p className="mt-1 text-xs text-slate-500">Fit checks, sheet tiling and exports use the selected paper.</p>
+
+      <div className="mt-3 grid grid-cols-2 gap-3">
+        <label className="col-span-2 flex flex-col gap-1">
+          <span className="text-xs font-medium uppercase tracking-wide text-slate-500">Paper</span>
+          <select
+            value={sheet.paper.id}
+            onChange={(event) => onSelectPaper(event.target.value)}
+            className="rounded-lg border border-slate-300 bg-white px-3 py-2 text-slate-900"
+          >
+            {papers.map((paper) => (
+              <option key={paper.id} value={paper.id}>
+                {paper.label} ({formatEdges(paper, units)}){paper.custom ? " • custom" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+        {(["landscape", "portrait"] as const).map((orientation) => (
+          <button
+            key={orientation}
+            type="button"
+            onClick={() => onOrientationChange(orientation)}
+            disabled={isRoll}
+            className={
+              sheet.orientation === orientation
+                ? "rounded-lg bg-brand px-3 py-2 text-xs font-semibold capitalize text-white"
+                : "rounded-lg border border-slate-300 bg-white px-3 py-2 text-xs font-semibold capitalize text-slate-700 transition hover:bg-slate-100 disabled:opacity-50"
+            }
+          >
+            {orientation}
+          </button>
+        ))}
+      </div>
+      {isRoll ? <p className="mt-2 text-xs text-slate-500">Rolls run landscape and are cut to each sheet&apos;s length.</p> : null}
+
+      <details className="mt-3">
+        <summary className="cursor-pointer text-xs font-semibold uppercase tracking-wide text-brand">
+          Add a custom size
+        </summary>
+        <div className="mt-3 grid grid-cols-2 gap-3">
+          <label className="col-span-2 flex flex-col gap-1">
+            <span className="text-xs font-medium uppercase tracking-wide text-slate-500">Name</span>
+            <input
+              value={customLabel}
+              onChange={(event) => setCustomLabel(event.target.value)}
+              placeholder="Partner 13×19 in"
+              className="rounded-lg border border-slate-300 bg-white px-3 py-2 text-slate-900"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium uppercase tracking-wide text-slate-500">
+              Width ({unitSymbol(units)})
+            </span>
+            <LengthInput
+              valueMm={customWidthMm}
+              units={units}
+              minMm={0}
+              onChange={setCustomWidthMm}
+              className="rounded-lg border border-slate-300 bg-white px-3 py-2 text-slate-900"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium uppercase tracking-wide text-slate-500">
+              Height ({unitSymbol(units)})
+            </span>
+            <LengthInput
+              valueMm={customHeightMm}
+              units={units}
+              minMm={0}
+              onChange={setCustomHeightMm}
+              className="rounded-lg border border-slate-300 bg-white px-3 py-2 text-slate-900"
+            />
+          </label>
+          {customIsValid ? null : (
+            <p className="col-span-2 text-xs font-medium text-rose-600">
+              Paper must be at least {formatLength(CUSTOM_PAPER_MIN_MM, units)} on each edge.
+            </p>
+          )}
+          <button
+            type="button"
+            disabled={!customIsValid}
+            onClick={() => {
+              onAddCustomPaper(createCustomPaperSize(customLabel, customWidthMm, customHeightMm));
+              setCustomLabel("");
+            }}
+            className="col-span-2 rounded-lg border border-brand px-3 py-2 text-xs font-semibold text-brand transition hover:bg-brand/10 disabled:opacity-50"
+          >
+            Save custom paper
+          </button>
+        </div>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import {
+  MAX_BLEED_MM,
+  MAX_SAFE_MARGIN_MM,
+  resolveStackSpacing,
+  type BleedMm,
+  type PrintMargins,
+} from "../../lib/geometry";
+import type { ProductionProfile } from "../../lib/production-profiles";
+import { formatLength, unitSymbol, type UnitSystem } from "../../lib/units";
+import { LengthInput } from "./LengthInput";
+
+type PrintMarginsPanelProps = {
+  margins: PrintMargins;
+  /** The profile whose gap and clearances the bleed may widen. */
+  production: ProductionProfile;
+  units: UnitSystem;
+  onChange: (margins: PrintMargins) => void;
+};
+
+const EDGES: { key: keyof BleedMm; label: string }[] = [
+  { key: "top", label: "Top" },
+  { key: "bottom", label: "Bottom" },
+  { key: "left", label: "Left" },
+  { key: "right", label: "Right" },
+];
+
+const FIELD_LABEL = "text-xs font-medium uppercase tracking-wide text-slate-500";
+const FIELD_INPUT = "rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900";
+
+/**
+ * Bleed past each trim edge and the safe margin text keeps inside it. The edges are the same on every book; the
+ * gaps and clearances on the sheet grow to make room for the bleed, and the panel says so when they do.
+ */
+export function PrintMarginsPanel({ margins, production, units, onChange }: PrintMarginsPanelProps) {
+  const { bleedMm, safeMarginMm } = margins;
+  const isUniform = EDGES.every((edge) => bleedMm[edge.key] === bleedMm.top);
+  const spacing = resolveStackSpacing(margins, production);
+  const widensGap = spacing.gapMm > production.gapMm;
+  const widensClearances =
+    spacing.sideMm > production.clearanceSideMm ||
+    spacing.topMm > production.clearanceTopMm ||
+    spacing.bottomMm > production.clearanceBottomMm;
+  const profileGap = formatLength(production.gapMm, units);
+  const effectiveGap = formatLength(spacing.gapMm, units);
+
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-slate-50/70 p-4">
+      <h3 className="text-sm font-semibold text-slate-900">Bleed and safe zone</h3>
+      <p className="mt-1 text-xs text-slate-500">
+        Artwork runs this far past each trim edge. Text should stay inside the safe margin so it survives the cut.
+      </p>
+      <div className="mt-3 grid grid-cols-2 gap-3 text-sm">
+        {EDGES.map((edge) => (
+          <label key={edge.key} className="flex flex-col gap-1">
+            <span className={FIELD_LABEL}>
+              {edge.label} bleed ({unitSymbol(units)})
+            </span>
+            <LengthInput
+              valueMm={bleedMm[edge.key]}
+              units={units}
+              minMm={0}
+              maxMm={MAX_BLEED_MM}
+              onChange={(valueMm) => onChange({ ...margins, bleedMm: { ...bleedMm, [edge.key]: valueMm } })}
+              className={FIELD_INPUT}
+            />
+          </label>
+        ))}
+        <label className="flex flex-col gap-1">
+          <span className={FIELD_LABEL}>Safe margin ({unitSymbol(units)})</span>
+          <LengthInput
+            valueMm={safeMarginMm}
+            units={units}
+            minMm={0}
+            maxMm={MAX_SAFE_MARGIN_MM}
+            onChange={(valueMm) => onChange({ ...margins, safeMarginMm: valueMm })}
+            className={FIELD_INPUT}
+          />
+        </label>
+        <button
+          type="button"
+          disabled={isUniform}
+          onClick={() =>
+            onChange({
+              ...margins,
+              bleedMm: { top: bleedMm.top, right: bleedMm.top, bottom: bleedMm.top, left: bleedMm.top },
+            })
+          }
+          className="self-end rounded-lg border border-slate-300 bg-white px-3 py-2 text-xs font-semibold text-slate-700 transition hover:bg-slate-100 disabled:opacity-40"
+        >
+          Use top bleed on every edge
+        </button>
+      </div>
+      {widensGap || widensClearances ? (
+        <p className="mt-3 text-xs font-medium text-amber-700">
+          {widensGap
+            ? `This bleed widens the gap between books from ${profileGap} to ${effectiveGap}${
+                widensClearances ? " and the clearances around the stack to match" : ""
+              }.`
+            : "This bleed widens the clearances around the stack to match."}
+        </p>
+      ) : null}
+    </div>
+  );
+}
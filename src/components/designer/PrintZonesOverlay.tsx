@@ -0,0 +1,58 @@
+import type { BookPrintZones, ZoneBoxMm } from "../../lib/print-zones";
+
+type PrintZonesOverlayProps = {
+  zones: BookPrintZones[];
+  widthMm: number;
+  heightMm: number;
+  scale: number;
+};
+
+const ZONE_STYLES = {
+  bleed: { stroke: "#e11d48", dash: "2 1" },
+  trim: { stroke: "#0f172a", dash: undefined },
+  safe: { stroke: "#059669", dash: "1 1" },
+} as const;
+
+const PREVIEW_STROKE_MM = 0.35;
+
+function ZoneRect({ box, zone }: { box: ZoneBoxMm; zone: keyof typeof ZONE_STYLES }) {
+  if (box.widthMm <= 0 || box.heightMm <= 0) {
+    return null;
+  }
+  return (
+    <rect
+      x={box.leftMm}
+      y={box.topMm}
+      width={box.widthMm}
+      height={box.heightMm}
+      fill="none"
+      stroke={ZONE_STYLES[zone].stroke}
+      strokeWidth={PREVIEW_STROKE_MM}
+      strokeDasharray={ZONE_STYLES[zone].dash}
+    />
+  );
+}
+
+/**
+ * Outlines each book's bleed (dashed red), trim (solid) and safe zone (dashed green) in millimetre units, drawn over
+ * the preview the same way as the production marks.
+ */
+export function PrintZonesOverlay({ zones, widthMm, heightMm, scale }: PrintZonesOverlayProps) {
+  return (
+    <svg
+      className="pointer-events-none absolute inset-0 z-40"
+      width={widthMm * scale}
+      height={heightMm * scale}
+      viewBox={`0 0 ${widthMm} ${heightMm}`}
+      aria-hidden="true"
+    >
+      {zones.map((book) => (
+        <g key={book.bookId}>
+          <ZoneRect box={book.bleed} zone="bleed" />
+          <ZoneRect box={book.trim} zone="trim" />
+          <ZoneRect box={book.safe} zone="safe" />
+        </g>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,61 @@
+import { MARK_DASH_MM, MARK_STROKE_MM, type MarkKind, type ProductionMarks } from "../../lib/production-marks";
+
+type ProductionMarksOverlayProps = {
+  marks: ProductionMarks;
+  widthMm: number;
+  heightMm: number;
+  scale: number;
+};
+
+const MARK_COLORS: Record<MarkKind, string> = {
+  trim: "#0f172a",
+  fold: "#0891b2",
+  clearance: "#db2777",
+};
+
+// Hairlines are thickened on screen so they stay visible at the preview scale.
+const PREVIEW_STROKE_MM = Math.max(MARK_STROKE_MM, 0.35);
+
+/**
+ * Renders the production-marks layer as an SVG in millimetre units so it lines up with the preview at any scale.
+ */
+export function ProductionMarksOverlay({ marks, widthMm, heightMm, scale }: ProductionMarksOverlayProps) {
+  return (
+    <svg
+      className="pointer-events-none absolute inset-0 z-40"
+      width={widthMm * scale}
+      height={heightMm * scale}
+      viewBox={`0 0 ${widthMm} ${heightMm}`}
+      aria-hidden="true"
+    >
+      {marks.lines.map((line, index) => (
+        <line
+          key={`${line.kind}-${index}`}
+          x1={line.x1Mm}
+          y1={line.y1Mm}
+          x2={line.x2Mm}
+          y2={line.y2Mm}
+          stroke={MARK_COLORS[line.kind]}
+          strokeWidth={PREVIEW_STROKE_MM}
+          strokeDasharray={MARK_DASH_MM[line.kind]?.join(" ")}
+        />
+      ))}
+      {marks.registration.map((mark, index) => (
+        <g key={`registration-${index}`} stroke="#0f172a" strokeWidth={PREVIEW_STROKE_MM} fill="none">
+          <circle cx={mark.xMm} cy={mark.yMm} r={mark.radiusMm * 0.6} />
+          <line x1={mark.xMm - mark.radiusMm} y1={mark.yMm} x2={mark.xMm + mark.radiusMm} y2={mark.yMm} />
+          <line x1={mark.xMm} y1={mark.yMm - mark.radiusMm} x2={mark.xMm} y2={mark.yMm + mark.radiusMm} />
+        </g>
+      ))}
+      <text
+        x={marks.slug.xMm}
+        y={marks.slug.baselineMm}
+        fontSize={marks.slug.sizeMm}
+        fill="#0f172a"
+        fontFamily="Helvetica, Arial, sans-serif"
+      >
+        {marks.slug.text}
+      </text>
+    </svg>
+  );
+}
@@ -0,0 +1,55 @@
+import { cmToMm } from "../../lib/geometry";
+import { formatHeightRange, type ProductionProfile } from "../../lib/production-profiles";
+import { formatLength, formatLengthValue, unitSymbol, type UnitSystem } from "../../lib/units";
+
+type ProductionProfilePickerProps = {
+  profiles: ProductionProfile[];
+  profile: ProductionProfile;
+  units: UnitSystem;
+  onSelect: (id: string) => void;
+};
+
+/**
+ * Chooses the print partner's production rules. The gap, clearances and book ranges shown here are the profile's
+ * minimums; the stack summary below shows them after the bleed has widened them.
+ */
+export function ProductionProfilePicker({ profiles, profile, units, onSelect }: ProductionProfilePickerProps) {
+  const formatCm = (valueCm: number) => formatLength(cmToMm(valueCm), units);
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-slate-50/70 p-4 text-sm text-slate-600">
+      <h3 className="font-semibold text-slate-900">Production rules</h3>
+      <label className="mt-3 flex flex-col gap-1">
+        <span className="text-xs font-medium uppercase tracking-wide text-slate-500">Print partner profile</span>
+        <select
+          value={profile.id}
+          onChange={(event) => onSelect(event.target.value)}
+          className="rounded-lg border border-slate-300 bg-white px-3 py-2 text-slate-900"
+        >
+          {profiles.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {profile.description ? <p className="mt-2 text-xs text-slate-500">{profile.description}</p> : null}
+      <dl className="mt-3 grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+        <dt className="text-slate-500">Gap between books</dt>
+        <dd className="text-slate-900">{formatLength(profile.gapMm, units)}</dd>
+        <dt className="text-slate-500">Side clearance</dt>
+        <dd className="text-slate-900">{formatLength(profile.clearanceSideMm, units)}</dd>
+        <dt className="text-slate-500">Top / bottom clearance</dt>
+        <dd className="text-slate-900">
+          {formatLengthValue(profile.clearanceTopMm, units)} / {formatLengthValue(profile.clearanceBottomMm, units)}{" "}
+          {unitSymbol(units)}
+        </dd>
+        <dt className="text-slate-500">Book heights</dt>
+        <dd className="text-slate-900">{formatHeightRange(profile, formatCm)}</dd>
+        <dt className="text-slate-500">Narrowest spine</dt>
+        <dd className="text-slate-900">{formatCm(profile.spineWidthMinCm)}</dd>
+        <dt className="text-slate-500">Narrowest cover</dt>
+        <dd className="text-slate-900">{formatCm(profile.coverWidthMinCm)}</dd>
+      </dl>
+    </div>
+  );
+}
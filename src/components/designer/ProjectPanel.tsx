@@ -0,0 +1,49 @@
+import { PROJECT_FILE_EXTENSION } from "../../lib/project-file";
+
+type ProjectPanelProps = {
+  onSave: () => void;
+  onOpen: (file: File) => void;
+  status: { tone: "info" | "error"; message: string } | null;
+  lastAutosavedAt: string | null;
+};
+
+/**
+ * Save/open controls for project files plus the autosave status line.
+ */
+export function ProjectPanel({ onSave, onOpen, status, lastAutosavedAt }: ProjectPanelProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-3 rounded-2xl border border-slate-200 bg-white px-4 py-3 shadow-sm">
+      <button
+        type="button"
+        onClick={onSave}
+        className="rounded-lg bg-brand px-3 py-2 text-xs font-semibold text-white transition hover:bg-brand/90"
+      >
+        Save project
+      </button>
+      <label className="cursor-pointer rounded-lg border border-slate-300 px-3 py-2 text-xs font-semibold text-slate-700 transition hover:bg-slate-100">
+        Open project
+        <input
+          type="file"
+          accept={`${PROJECT_FILE_EXTENSION},application/json`}
+          className="sr-only"
+          onClick={(event) => {
+            event.currentTarget.value = "";
+          }}
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) {
+              onOpen(file);
+            }
+          }}
+        />
+      </label>
+      <p className={status?.tone === "error" ? "text-xs font-medium text-rose-600" : "text-xs text-slate-500"}>
+        {status
+          ? status.message
+          : lastAutosavedAt
+            ? `Autosaved at ${new Date(lastAutosavedAt).toLocaleTimeString()}`
+            : "Changes autosave in this browser."}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import type { DpiThresholds, ResolutionLevel, ResolutionReport } from "../../lib/print-resolution";
+
+type ResolutionPanelProps = {
+  report: ResolutionReport;
+  thresholds: DpiThresholds;
+  onThresholdsChange: (thresholds: DpiThresholds) => void;
+};
+
+const LEVEL_STYLES: Record<ResolutionLevel, string> = {
+  ok: "border-emerald-200 bg-emerald-50 text-emerald-800",
+  warning: "border-amber-200 bg-amber-50 text-amber-800",
+  error: "border-rose-200 bg-rose-50 text-rose-700",
+};
+
+function describeReport(report: ResolutionReport, thresholds: DpiThresholds): string {
+  if (report.isVector) {
+    return "Vector artwork scales cleanly at any print size.";
+  }
+  const dpi = Math.round(report.dpi);
+  if (report.level === "error") {
+    return dpi < thresholds.errorDpi
+      ? `${dpi} dpi is below the ${thresholds.errorDpi} dpi minimum. Upload a larger image or zoom out before exporting.`
+      : "Some spines are not fully covered by the artwork out to the bleed. Adjust the offsets or zoom before exporting.";
+  }
+  if (report.level === "warning") {
+    return `${dpi} dpi is below the recommended ${thresholds.warningDpi} dpi; expect visible softness in print.`;
+  }
+  return `${dpi} dpi at the current zoom — good for print.`;
+}
+
+/**
+ * Summarises the artwork's effective print resolution, lists spines that fall into low-resolution regions, and
+ * exposes the warning/error thresholds.
+ */
+export function ResolutionPanel({ report, thresholds, onThresholdsChange }: ResolutionPanelProps) {
+  const flaggedSpines = report.spines.filter((spine) => spine.level !== "ok");
+
+  return (
+    <div className={`flex flex-col gap-3 rounded-2xl border p-4 text-sm ${LEVEL_STYLES[report.level]}`}>
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide">Print resolution</p>
+          <p className="mt-1">{describeReport(report, thresholds)}</p>
+        </div>
+        <div className="flex gap-3 text-xs">
+          <label className="flex flex-col gap-1">
+            <span className="font-medium uppercase tracking-wide">Warn below</span>
+            <input
+              type="number"
+              min={thresholds.errorDpi}
+              max={600}
+              step={10}
+              value={thresholds.warningDpi}
+              onChange={(event) =>
+                onThresholdsChange({
+                  ...thresholds,
+                  warningDpi: Math.max(Number(event.target.value), thresholds.errorDpi),
+                })
+              }
+              className="w-20 rounded-lg border border-slate-300 bg-white px-2 py-1 text-slate-900"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="font-medium uppercase tracking-wide">Block below</span>
+            <input
+              type="number"
+              min={0}
+              max={thresholds.warningDpi}
+              step={10}
+              value={thresholds.errorDpi}
+              onChange={(event) =>
+                onThresholdsChange({
+                  ...thresholds,
+                  errorDpi: Math.min(Math.max(Number(event.target.value), 0), thresholds.warningDpi),
+                })
+              }
+              className="w-20 rounded-lg border border-slate-300 bg-white px-2 py-1 text-slate-900"
+            />
+          </label>
+        </div>
+      </div>
+      {flaggedSpines.length ? (
+        <ul className="flex flex-wrap gap-2 text-xs">
+          {flaggedSpines.map((spine) => (
+            <li key={spine.id} className="rounded-full bg-white/80 px-3 py-1 font-medium">
+              {spine.label}: {spine.covered ? `${Math.round(spine.dpi)} dpi` : "not fully covered"}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import type { FontDefinition } from "../../lib/fonts";
+import {
+  SPINE_TEXT_MIN_SIZE_MM,
+  type FittedSpineText,
+  type SpineText,
+  type SpineTextAlign,
+  type SpineTextDirection,
+  type SpineTextStyle,
+} from "../../lib/spine-text";
+import { formatLength, unitSymbol, type UnitSystem } from "../../lib/units";
+import { FontPicker } from "./FontPicker";
+import { LengthInput } from "./LengthInput";
+
+type SpineTextEditorProps = {
+  bookLabel: string;
+  spineText: SpineText;
+  fonts: readonly FontDefinition[];
+  onUploadFont: (file: File) => Promise<string>;
+  fitted: FittedSpineText | null;
+  units: UnitSystem;
+  onChange: (patch: Partial<Omit<SpineText, "style">>) => void;
+  onStyleChange: (patch: Partial<SpineTextStyle>) => void;
+  onApplyStyleToAll: () => void;
+};
+
+const ALIGN_OPTIONS: { value: SpineTextAlign; label: string }[] = [
+  { value: "start", label: "Start" },
+  { value: "center", label: "Centre" },
+  { value: "end", label: "End" },
+];
+
+const DIRECTION_OPTIONS: { value: SpineTextDirection; label: string }[] = [
+  { value: "topToBottom", label: "Top to bottom" },
+  { value: "bottomToTop", label: "Bottom to top" },
+];
+
+function describeFit(
+  fitted: FittedSpineText | null,
+  units: UnitSystem,
+): { tone: "info" | "error"; message: string } {
+  if (!fitted) {
+    return { tone: "info", message: "Add a title, author or volume to print on this spine." };
+  }
+  if (!fitted.fits) {
+    return { tone: "error", message: "Too long for this spine even at the smallest size — shorten the text." };
+  }
+  return { tone: "info", message: `Fitted at ${formatLength(fitted.sizeMm, units, "type")}.` };
+}
+
+/**
+ * Title, author and volume for one spine plus its type style. Size is the largest the text may reach; it shrinks
+ * automatically to fit the spine's safe area.
+ */
+export function SpineTextEditor({
+  bookLabel,
+  spineText,
+  fonts,
+  onUploadFont,
+  fitted,
+  units,
+  onChange,
+  onStyleChange,
+  onApplyStyleToAll,
+}: SpineTextEditorProps) {
+  const { style } = spineText;
+  const fit = describeFit(fitted, units);
+
+  return (
+    <details className="col-span-2 rounded-xl border border-slate-200 bg-white px-3 py-2">
+      <summary className="cursor-pointer text-xs font-semibold uppercase tracking-wide text-slate-500">Spine text</summary>
+      <div className="mt-3 grid grid-cols-2 gap-3">
+        <label className="col-span-2 flex flex-col gap-1">
+          <span className="text-xs font-medium uppercase tracking-wide text-slate-500">Title</span>
+          <input
+            value={spineText.title}
+            onChange={(event) => onChange({ title: event.target.value })}
+            className="rounded-lg border border-slate-300 px-3 py-2 text-slate-900"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-medium uppercase tracking-wide text-slate-500">Author</span>
+          <input
+            value={spineText.author}
+            onChange={(event) => onChange({ author: event.target.value })}
+            className="rounded-lg border border-slate-300 px-3 py-2 text-slate-900"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-medium uppercase tracking-wide text-slate-500">Volume</span>
+          <input
+            value={spineText.volume}
+            onChange={(event) => onChange({ volume: event.target.value })}
+            className="rounded-lg border border-slate-300 px-3 py-2 text-slate-900"
+          />
+        </label>
+        <div className="col-span-2 flex flex-col gap-1">
+          <span className="text-xs font-medium uppercase tracking-wide text-slate-500">Font</span>
+          <FontPicker
+            value={style.fontFamily}
+            fonts={fonts}
+            sample={spineText.title}
+            onUpload={onUploadFont}
+            onChange={(fontFamily) => onStyleChange({ fontFamily })}
+          />
+        </div>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-medium uppercase tracking-wide text-slate-500">
+            Max size ({unitSymbol(units)})
+          </span>
+          <LengthInput
+            valueMm={style.sizeMm}
+            units={units}
+            precision="type"
+            minMm={SPINE_TEXT_MIN_SIZE_MM}
+            onChange={(sizeMm) => onStyleChange({ sizeMm })}
+            className="rounded-lg border border-slate-300 px-3 py-2 text-slate-900"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-medium uppercase tracking-wide text-slate-500">Colour</span>
+          <input
+            type="color"
+            value={style.color}
+            onChange={(event) => onStyleChange({ color: event.target.value })}
+            className="h-10 w-full rounded-lg border border-slate-300"
+            aria-label={`${bookLabel} spine text colour`}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-medium uppercase tracking-wide text-slate-500">Alignment</span>
+          <select
+            value={style.align}
+            onChange={(event) => onStyleChange({ align: event.target.value as SpineTextAlign })}
+            className="rounded-lg border border-slate-300 px-3 py-2 text-slate-900"
+          >
+            {ALIGN_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-medium uppercase tracking-wide text-slate-500">Direction</span>
+          <select
+            value={style.direction}
+            onChange={(event) => onStyleChange({ direction: event.target.value as SpineTextDirection })}
+            className="rounded-lg border border-slate-300 px-3 py-2 text-slate-900"
+          >
+            {DIRECTION_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <p className={fit.tone === "error" ? "col-span-2 text-xs font-medium text-rose-600" : "col-span-2 text-xs text-slate-500"}>
+          {fit.message}
+        </p>
+        <button
+          type="button"
+          onClick={onApplyStyleToAll}
+          className="col-span-2 rounded-lg border border-brand px-3 py-2 text-xs font-semibold text-brand transition hover:bg-brand/10"
+        >
+          Apply this style to all books
+        </button>
+      </div>
+    </details>
+  );
+}
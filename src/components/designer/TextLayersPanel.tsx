@@ -0,0 +1,457 @@
+import type { FontDefinition } from "../../lib/fonts";
+import type { LayoutMode } from "../../lib/geometry";
+import { TEXT_GUTTER_MODES, type TextGutterMode } from "../../lib/text-gutters";
+import {
+  TEXT_LAYER_WEIGHTS,
+  describeTextLayerAnchor,
+  type TextLayer,
+  type TextLayerAlign,
+  type TextLayerAnchor,
+} from "../../lib/text-layers";
+import {
+  TEXT_LAYER_CHARACTER_WARNING_RATIO,
+  TEXT_LAYER_MAX_CHARACTERS,
+  TEXT_LAYER_MIN_SIZE_MM,
+  type TextLayerAssessment,
+  type TextLevel,
+} from "../../lib/text-validation";
+import { unitSymbol, type UnitSystem } from "../../lib/units";
+import { FontPicker } from "./FontPicker";
+import { LengthInput } from "./LengthInput";
+
+type TextLayersPanelProps = {
+  layers: TextLayer[];
+  assessments: ReadonlyMap<number, TextLayerAssessment>;
+  activeLayerId: number | null;
+  books: readonly { id: number; label: string }[];
+  layoutMode: LayoutMode;
+  units: UnitSystem;
+  fonts: readonly FontDefinition[];
+  onUploadFont: (file: File) => Promise<string>;
+  onSelect: (id: number) => void;
+  onAdd: () => void;
+  onDuplicate: (id: number) => void;
+  onRemove: (id: number) => void;
+  onMove: (id: number, direction: -1 | 1) => void;
+  onChange: (id: number, patch: Partial<Omit<TextLayer, "id">>) => void;
+};
+
+const ALIGN_OPTIONS: { value: TextLayerAlign; label: string }[] = [
+  { value: "left", label: "Left" },
+  { value: "center", label: "Centre" },
+  { value: "right", label: "Right" },
+];
+
+const MESSAGE_STYLES: Record<TextLevel, string> = {
+  ok: "text-xs text-slate-500",
+  warning: "text-xs font-medium text-amber-700",
+  error: "text-xs font-medium text-rose-600",
+};
+
+function counterStyle(count: number): string {
+  if (count > TEXT_LAYER_MAX_CHARACTERS) {
+    return MESSAGE_STYLES.error;
+  }
+  return count >= TEXT_LAYER_MAX_CHARACTERS * TEXT_LAYER_CHARACTER_WARNING_RATIO ? MESSAGE_STYLES.warning : MESSAGE_STYLES.ok;
+}
+
+const FIELD_LABEL = "text-xs font-semibold uppercase tracking-wide text-slate-500";
+const FIELD_INPUT =
+  "rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-900 focus:border-brand focus:outline-none focus:ring-2 focus:ring-brand/20";
+
+function anchorValue(anchor: TextLayerAnchor): string {
+  return anchor.kind === "spine" ? `spine:${anchor.bookId}` : anchor.kind;
+}
+
+function parseAnchorValue(value: string): TextLayerAnchor {
+  if (value.startsWith("spine:")) {
+    return { kind: "spine", bookId: Number(value.slice("spine:".length)) };
+  }
+  return value === "frontCovers" ? { kind: "frontCovers" } : { kind: "stack" };
+}
+
+/**
+ * Stack of text layers (later layers draw on top) and the editor for the selected one. Positions are millimetres from
+ * the centre of the layer's anchor; the preview and PDF keep the centre inside that anchor.
+ */
+export function TextLayersPanel({
+  layers,
+  assessments,
+  activeLayerId,
+  books,
+  layoutMode,
+  units,
+  fonts,
+  onUploadFont,
+  onSelect,
+  onAdd,
+  onDuplicate,
+  onRemove,
+  onMove,
+  onChange,
+}: TextLayersPanelProps) {
+  const active = layers.find((layer) => layer.id === activeLayerId) ?? null;
+  const activeAssessment = active ? assessments.get(active.id) ?? null : null;
+  const bookLabels = new Map(books.map((book) => [book.id, book.label]));
+  const update = (patch: Partial<Omit<TextLayer, "id">>) => {
+    if (active) {
+      onChange(active.id, patch);
+    }
+  };
+
+  return (
+    <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+      <header className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-900">Text layers</h2>
+          <p className="text-sm text-slate-500">
+            Titles across the stack, pinned to one spine or repeated on each front cover. Later layers sit on top.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onAdd}
+          className="rounded-xl bg-brand px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-brand/90"
+        >
+          Add text layer
+        </button>
+      </header>
+
+      {layers.length === 0 ? (
+        <p className="mt-4 text-sm text-slate-500">No text layers yet.</p>
+      ) : (
+        <ol className="mt-4 flex flex-col gap-2">
+          {layers.map((layer, index) => (
+            <li
+              key={layer.id}
+              className={
+                layer.id === activeLayerId
+                  ? "flex items-center gap-2 rounded-xl border border-brand bg-brand/5 px-3 py-2"
+                  : "flex items-center gap-2 rounded-xl border border-slate-200 px-3 py-2"
+              }
+            >
+              <input
+                type="checkbox"
+                checked={layer.visible}
+                onChange={(event) => onChange(layer.id, { visible: event.target.checked })}
+                className="h-4 w-4 rounded border-slate-300 text-brand focus:ring-brand"
+                aria-label={`Show ${layer.name}`}
+              />
+              <button
+                type="button"
+                onClick={() => onSelect(layer.id)}
+                className="flex min-w-0 flex-1 flex-col items-start text-left"
+              >
+                <span className="truncate text-sm font-medium text-slate-900">
+                  {layer.name}
+                  {assessments.get(layer.id)?.level === "error" ? (
+                    <span className="ml-2 text-xs font-semibold text-rose-600">Needs attention</span>
+                  ) : null}
+                </span>
+                <span className="truncate text-xs text-slate-500">
+                  {describeTextLayerAnchor(layer.anchor, bookLabels)} • {layer.text.trim() || "Empty"}
+                </span>
+              </button>
+              <button
+                type="button"
+                onClick={() => onMove(layer.id, -1)}
+                disabled={index === 0}
+                className="rounded-md px-2 py-1 text-xs font-semibold text-slate-600 transition hover:bg-slate-100 disabled:opacity-40"
+                aria-label={`Send ${layer.name} backward`}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => onMove(layer.id, 1)}
+                disabled={index === layers.length - 1}
+                className="rounded-md px-2 py-1 text-xs font-semibold text-slate-600 transition hover:bg-slate-100 disabled:opacity-40"
+                aria-label={`Bring ${layer.name} forward`}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => onDuplicate(layer.id)}
+                className="rounded-md px-2 py-1 text-xs font-semibold text-slate-600 transition hover:bg-slate-100"
+              >
+                Duplicate
+              </button>
+              <button
+                type="button"
+                onClick={() => onRemove(layer.id)}
+                className="rounded-md px-2 py-1 text-xs font-semibold text-rose-600 transition hover:bg-rose-50"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {active ? (
+        <div className="mt-6 grid gap-5 md:grid-cols-3">
+          <label className="flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Layer name</span>
+            <input value={active.name} onChange={(event) => update({ name: event.target.value })} className={FIELD_INPUT} />
+          </label>
+          <label className="md:col-span-2 flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Anchor</span>
+            <select
+              value={anchorValue(active.anchor)}
+              onChange={(event) => update({ anchor: parseAnchorValue(event.target.value) })}
+              className={FIELD_INPUT}
+            >
+              <option value="stack">Across the stack</option>
+              <option value="frontCovers">Each front cover</option>
+              {books.map((book) => (
+                <option key={book.id} value={`spine:${book.id}`}>
+                  {book.label} spine
+                </option>
+              ))}
+            </select>
+            {active.anchor.kind === "frontCovers" && layoutMode !== "jacket" ? (
+              <span className="text-xs text-slate-500">Shown across the stack until you switch to full jackets.</span>
+            ) : null}
+          </label>
+          <label className="md:col-span-3 flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Text</span>
+            <textarea
+              value={active.text}
+              onChange={(event) => update({ text: event.target.value })}
+              placeholder="Enter collection title"
+              rows={3}
+              maxLength={Math.max(TEXT_LAYER_MAX_CHARACTERS, active.text.length)}
+              className={FIELD_INPUT}
+            />
+            <span className="flex flex-wrap justify-between gap-2">
+              <span className={activeAssessment ? MESSAGE_STYLES[activeAssessment.level] : MESSAGE_STYLES.ok}>
+                {activeAssessment?.message ?? ""}
+              </span>
+              <span className={counterStyle(active.text.length)}>
+                {active.text.length} / {TEXT_LAYER_MAX_CHARACTERS} characters
+              </span>
+            </span>
+          </label>
+          <div className="flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Font family</span>
+            <FontPicker
+              value={active.fontFamily}
+              fonts={fonts}
+              sample={active.text}
+              weight={active.weight}
+              onUpload={onUploadFont}
+              onChange={(fontFamily) => update({ fontFamily })}
+            />
+          </div>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Weight</span>
+            <select
+              value={active.weight}
+              onChange={(event) => update({ weight: Number(event.target.value) })}
+              className={FIELD_INPUT}
+            >
+              {TEXT_LAYER_WEIGHTS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="flex flex-col gap-1 text-sm">
+            <label className="flex flex-col gap-1">
+              <span className={FIELD_LABEL}>
+                {active.autoShrink ? "Max size" : "Size"} ({unitSymbol(units)})
+              </span>
+              <LengthInput
+                valueMm={active.sizeMm}
+                units={units}
+                precision="type"
+                minMm={TEXT_LAYER_MIN_SIZE_MM}
+                onChange={(sizeMm) => update({ sizeMm })}
+                className={FIELD_INPUT}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-xs text-slate-700">
+              <input
+                type="checkbox"
+                checked={active.autoShrink}
+                onChange={(event) => update({ autoShrink: event.target.checked })}
+                className="h-4 w-4 rounded border-slate-300 text-brand focus:ring-brand"
+              />
+              Shrink to fit
+            </label>
+          </div>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Colour</span>
+            <input
+              type="color"
+              value={active.color}
+              onChange={(event) => update({ color: event.target.value })}
+              className="h-10 w-full rounded-lg border border-slate-300"
+              aria-label={`${active.name} colour`}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Letter spacing ({unitSymbol(units)})</span>
+            <LengthInput
+              valueMm={active.letterSpacingMm}
+              units={units}
+              precision="type"
+              onChange={(letterSpacingMm) => update({ letterSpacingMm })}
+              className={FIELD_INPUT}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Line height</span>
+            <input
+              type="number"
+              min={0.5}
+              step={0.05}
+              value={active.lineHeight}
+              onChange={(event) => update({ lineHeight: Math.max(Number(event.target.value), 0.5) })}
+              className={FIELD_INPUT}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Alignment</span>
+            <select
+              value={active.align}
+              onChange={(event) => update({ align: event.target.value as TextLayerAlign })}
+              className={FIELD_INPUT}
+            >
+              {ALIGN_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Gutters</span>
+            <select
+              value={active.gutterMode}
+              onChange={(event) => update({ gutterMode: event.target.value as TextGutterMode })}
+              className={FIELD_INPUT}
+            >
+              {TEXT_GUTTER_MODES.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <span className="text-xs text-slate-500">Applies to unrotated text across the stack.</span>
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Rotation</span>
+            <input
+              type="range"
+              min={-180}
+              max={180}
+              step={1}
+              value={active.rotationDeg}
+              onChange={(event) => update({ rotationDeg: Number(event.target.value) })}
+            />
+            <span className="text-xs text-slate-500">{active.rotationDeg}°</span>
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Horizontal offset ({unitSymbol(units)})</span>
+            <LengthInput
+              valueMm={active.offsetMm.x}
+              units={units}
+              onChange={(x) => update({ offsetMm: { ...active.offsetMm, x } })}
+              className={FIELD_INPUT}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className={FIELD_LABEL}>Vertical offset ({unitSymbol(units)})</span>
+            <LengthInput
+              valueMm={active.offsetMm.y}
+              units={units}
+              onChange={(y) => update({ offsetMm: { ...active.offsetMm, y } })}
+              className={FIELD_INPUT}
+            />
+          </label>
+
+          <fieldset className="flex flex-col gap-2 rounded-xl border border-slate-200 p-3 text-sm">
+            <legend className={`px-1 ${FIELD_LABEL}`}>Outline</legend>
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={active.outline.enabled}
+                onChange={(event) => update({ outline: { ...active.outline, enabled: event.target.checked } })}
+                className="h-4 w-4 rounded border-slate-300 text-brand focus:ring-brand"
+              />
+              Draw outline
+            </label>
+            <input
+              type="color"
+              value={active.outline.color}
+              onChange={(event) => update({ outline: { ...active.outline, color: event.target.value } })}
+              className="h-9 w-full rounded-lg border border-slate-300"
+              aria-label={`${active.name} outline colour`}
+              disabled={!active.outline.enabled}
+            />
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-slate-500">Width ({unitSymbol(units)})</span>
+              <LengthInput
+                valueMm={active.outline.widthMm}
+                units={units}
+                precision="type"
+                minMm={0}
+                onChange={(widthMm) => update({ outline: { ...active.outline, widthMm } })}
+                className={FIELD_INPUT}
+                disabled={!active.outline.enabled}
+              />
+            </label>
+          </fieldset>
+
+          <fieldset className="md:col-span-2 flex flex-col gap-2 rounded-xl border border-slate-200 p-3 text-sm">
+            <legend className={`px-1 ${FIELD_LABEL}`}>Shadow</legend>
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={active.shadow.enabled}
+                onChange={(event) => update({ shadow: { ...active.shadow, enabled: event.target.checked } })}
+                className="h-4 w-4 rounded border-slate-300 text-brand focus:ring-brand"
+              />
+              Drop shadow
+            </label>
+            <div className="grid grid-cols-3 gap-3">
+              <input
+                type="color"
+                value={active.shadow.color}
+                onChange={(event) => update({ shadow: { ...active.shadow, color: event.target.value } })}
+                className="h-10 w-full rounded-lg border border-slate-300"
+                aria-label={`${active.name} shadow colour`}
+                disabled={!active.shadow.enabled}
+              />
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-slate-500">X ({unitSymbol(units)})</span>
+                <LengthInput
+                  valueMm={active.shadow.offsetXMm}
+                  units={units}
+                  precision="type"
+                  onChange={(offsetXMm) => update({ shadow: { ...active.shadow, offsetXMm } })}
+                  className={FIELD_INPUT}
+                  disabled={!active.shadow.enabled}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-slate-500">Y ({unitSymbol(units)})</span>
+                <LengthInput
+                  valueMm={active.shadow.offsetYMm}
+                  units={units}
+                  precision="type"
+                  onChange={(offsetYMm) => update({ shadow: { ...active.shadow, offsetYMm } })}
+                  className={FIELD_INPUT}
+                  disabled={!active.shadow.enabled}
+                />
+              </label>
+            </div>
+          </fieldset>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+
+import type { DesignIssue } from "./design-validation";
+
+export function errorResponse(status: number, message: string, issues?: DesignIssue[]) {
+  return NextResponse.json(issues ? { error: message, issues } : { error: message }, { status });
+}
+
+/**
+ * The answer when the production profile file named by `FLYLEAF_PRODUCTION_PROFILES` cannot be read or parsed. The
+ * cause is logged for the operator rather than sent to the client.
+ */
+export function productionProfilesUnavailable(error: unknown) {
+  console.error("Could not load the production profiles:", error);
+  return errorResponse(500, "The production profiles could not be loaded. Check the server's profile configuration.");
+}
+
+/**
+ * The answer when the design store cannot be opened (an unknown `FLYLEAF_DESIGN_STORE`) or a read or write fails. The
+ * cause is logged for the operator rather than sent to the client.
+ */
+export function designStoreUnavailable(error: unknown) {
+  console.error("The design store failed:", error);
+  return errorResponse(500, "Designs could not be read or saved. Try again, or check the server's design store.");
+}
+
+/**
+ * Parses a JSON request body, returning `undefined` rather than throwing so handlers can answer with a 400.
+ */
+export async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,206 @@
+import type { PointMm } from "./artwork-transform";
+import { clamp, type ArtworkDimensionsMm, type BookRect } from "./geometry";
+import type { ArtworkPixelSize } from "./print-resolution";
+import type { ProjectArtworkSource } from "./project-file";
+
+export type ArtworkBlendMode =
+  | "normal"
+  | "multiply"
+  | "screen"
+  | "overlay"
+  | "darken"
+  | "lighten"
+  | "softLight"
+  | "hardLight"
+  | "difference";
+
+export const ARTWORK_BLEND_MODES: { value: ArtworkBlendMode; label: string }[] = [
+  { value: "normal", label: "Normal" },
+  { value: "multiply", label: "Multiply" },
+  { value: "screen", label: "Screen" },
+  { value: "overlay", label: "Overlay" },
+  { value: "darken", label: "Darken" },
+  { value: "lighten", label: "Lighten" },
+  { value: "softLight", label: "Soft light" },
+  { value: "hardLight", label: "Hard light" },
+  { value: "difference", label: "Difference" },
+];
+
+/** Which spine edge an overlay's vertical offset is measured from, so it sits at the same height on mixed heights. */
+export type OverlayEdge = "top" | "bottom";
+
+/**
+ * An image repeated on each of `bookIds`' spines, such as a series emblem. `offsetMm` moves its centre from the middle
+ * of the chosen `edge` (y grows downwards, so bottom-anchored overlays have negative y). At zoom 1 it is as wide as the
+ * narrowest assigned spine, so every copy is the same size.
+ */
+export type ArtworkOverlay = {
+  id: number;
+  name: string;
+  visible: boolean;
+  source: ProjectArtworkSource;
+  pixelSize: ArtworkPixelSize;
+  bookIds: number[];
+  edge: OverlayEdge;
+  offsetMm: PointMm;
+  zoom: number;
+  opacity: number;
+  blendMode: ArtworkBlendMode;
+};
+
+/** A spine an overlay is drawn on, in the layout's printed coordinates; `shelfXMm` is its left edge on the shelf. */
+export type OverlaySpine = {
+  bookId: number;
+  leftMm: number;
+  topMm: number;
+  widthMm: number;
+  heightMm: number;
+  shelfXMm: number;
+};
+
+/** One copy of an overlay: the image box, clipped to `spine`. */
+export type OverlayPlacement = {
+  spine: OverlaySpine;
+  leftMm: number;
+  topMm: number;
+  widthMm: number;
+  heightMm: number;
+};
+
+export type OverlayOffsetLimits = {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+};
+
+export const OVERLAY_MIN_ZOOM = 0.1;
+export const OVERLAY_MAX_ZOOM = 1;
+const OVERLAY_DEFAULT_ZOOM = 0.6;
+/** New overlays start this far above the bottom of the spine. */
+const OVERLAY_DEFAULT_INSET_MM = 12;
+
+/** The CSS `mix-blend-mode` keyword for a blend mode. */
+export function cssBlendMode(mode: ArtworkBlendMode): string {
+  return mode.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+}
+
+export function artworkSourceUrl(source: ProjectArtworkSource): string {
+  return source.kind === "embedded" ? source.dataUrl : source.url;
+}
+
+export function createArtworkOverlay(
+  id: number,
+  source: ProjectArtworkSource,
+  pixelSize: ArtworkPixelSize,
+  bookIds: number[],
+): ArtworkOverlay {
+  return {
+    id,
+    name: source.name ?? `Overlay ${id}`,
+    visible: true,
+    source,
+    pixelSize,
+    bookIds,
+    edge: "bottom",
+    offsetMm: { x: 0, y: -OVERLAY_DEFAULT_INSET_MM },
+    zoom: OVERLAY_DEFAULT_ZOOM,
+    opacity: 1,
+    blendMode: "normal",
+  };
+}
+
+/** The spines of `rects` an overlay is assigned to, in layout order. Jacket rects contribute their spine panel. */
+export function overlaySpines(overlay: Pick<ArtworkOverlay, "bookIds">, rects: BookRect[]): OverlaySpine[] {
+  return rects.flatMap((rect) => {
+    const spine = rect.panels.find((panel) => panel.kind === "spine");
+    if (!spine || !overlay.bookIds.includes(rect.id)) {
+      return [];
+    }
+    return [
+      {
+        bookId: rect.id,
+        leftMm: spine.xMm,
+        topMm: rect.yMm,
+        widthMm: spine.widthMm,
+        heightMm: rect.heightMm,
+        shelfXMm: rect.shelfXMm,
+      },
+    ];
+  });
+}
+
+export function overlayDimensionsMm(
+  overlay: Pick<ArtworkOverlay, "pixelSize" | "zoom">,
+  spines: OverlaySpine[],
+): ArtworkDimensionsMm {
+  const baseWidthMm = spines.length ? Math.min(...spines.map((spine) => spine.widthMm)) : 0;
+  const aspect = overlay.pixelSize.widthPx > 0 ? overlay.pixelSize.heightPx / overlay.pixelSize.widthPx : 1;
+  return { widthMm: baseWidthMm * overlay.zoom, heightMm: baseWidthMm * overlay.zoom * aspect };
+}
+
+/**
+ * How far an overlay may move and still sit wholly inside every assigned spine, like `computeOffsetLimits` does for
+ * the background. An overlay taller than the shortest spine is centred on it instead.
+ */
+export function computeOverlayOffsetLimits(
+  edge: OverlayEdge,
+  spines: OverlaySpine[],
+  dimensionsMm: ArtworkDimensionsMm,
+): OverlayOffsetLimits {
+  if (spines.length === 0) {
+    return { minX: 0, maxX: 0, minY: 0, maxY: 0 };
+  }
+  const narrowestMm = Math.min(...spines.map((spine) => spine.widthMm));
+  const shortestMm = Math.min(...spines.map((spine) => spine.heightMm));
+  const horizontalRoomMm = Math.max((narrowestMm - dimensionsMm.widthMm) / 2, 0);
+  const halfHeightMm = dimensionsMm.heightMm / 2;
+  const nearMm = Math.min(halfHeightMm, shortestMm / 2);
+  const farMm = Math.max(shortestMm - halfHeightMm, shortestMm / 2);
+  const sign = edge === "bottom" ? -1 : 1;
+  return {
+    minX: -horizontalRoomMm,
+    maxX: horizontalRoomMm,
+    minY: Math.min(sign * nearMm, sign * farMm),
+    maxY: Math.max(sign * nearMm, sign * farMm),
+  };
+}
+
+/** Keeps zoom, opacity and offset inside their limits for the current layout. */
+export function clampArtworkOverlay(overlay: ArtworkOverlay, rects: BookRect[]): ArtworkOverlay {
+  const zoom = clamp(overlay.zoom, OVERLAY_MIN_ZOOM, OVERLAY_MAX_ZOOM);
+  const spines = overlaySpines(overlay, rects);
+  const limits = computeOverlayOffsetLimits(overlay.edge, spines, overlayDimensionsMm({ ...overlay, zoom }, spines));
+  return {
+    ...overlay,
+    zoom,
+    opacity: clamp(overlay.opacity, 0, 1),
+    offsetMm: {
+      x: clamp(overlay.offsetMm.x, limits.minX, limits.maxX),
+      y: clamp(overlay.offsetMm.y, limits.minY, limits.maxY),
+    },
+  };
+}
+
+/**
+ * Every copy of an overlay for `rects`, which may be the whole layout or one tiled sheet's sheet-local rects. Pass the
+ * full layout's `dimensionsMm` for a tiled sheet so its copies match the size of those on other sheets.
+ */
+export function resolveOverlayPlacements(
+  overlay: ArtworkOverlay,
+  rects: BookRect[],
+  dimensionsMm: ArtworkDimensionsMm = overlayDimensionsMm(overlay, overlaySpines(overlay, rects)),
+): OverlayPlacement[] {
+  const { widthMm, heightMm } = dimensionsMm;
+  return overlaySpines(overlay, rects).map((spine) => {
+    const centreX = spine.leftMm + spine.widthMm / 2 + overlay.offsetMm.x;
+    const edgeY = overlay.edge === "bottom" ? spine.topMm + spine.heightMm : spine.topMm;
+    return {
+      spine,
+      leftMm: centreX - widthMm / 2,
+      topMm: edgeY + overlay.offsetMm.y - heightMm / 2,
+      widthMm,
+      heightMm,
+    };
+  });
+}
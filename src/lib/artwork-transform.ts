@@ -0,0 +1,158 @@
+import {
+  clamp,
+  computeOffsetLimits,
+  type ArtworkBounds,
+  type ArtworkDimensionsMm,
+  type StackLayout,
+} from "./geometry";
+
+/**
+ * Artwork placement in shelf coordinates: `offsetMm` moves the artwork centre away from the centre of the stack and
+ * `zoom` scales its natural size.
+ */
+export type ArtworkTransform = {
+  offsetMm: { x: number; y: number };
+  zoom: number;
+};
+
+export type PointMm = { x: number; y: number };
+
+/**
+ * Non-destructive crop as fractions (0–1) of the source image, measured from its top-left corner. The uncropped image
+ * is `FULL_ARTWORK_CROP`; the source file itself is never modified.
+ */
+export type ArtworkCrop = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * How the cropped artwork is turned before it is placed: flipped within its own frame, then rotated clockwise by
+ * `rotationDeg` about its centre.
+ */
+export type ArtworkOrientation = {
+  rotationDeg: number;
+  flipX: boolean;
+  flipY: boolean;
+  crop: ArtworkCrop;
+};
+
+export const ARTWORK_MAX_ZOOM = 1.25;
+export const ARTWORK_NUDGE_MM = 1;
+export const ARTWORK_NUDGE_LARGE_MM = 10;
+export const ARTWORK_ZOOM_STEP = 0.05;
+/** The smallest share of either side a crop may keep, so the artwork never collapses to a sliver. */
+export const ARTWORK_MIN_CROP = 0.05;
+export const FULL_ARTWORK_CROP: ArtworkCrop = { x: 0, y: 0, width: 1, height: 1 };
+export const DEFAULT_ARTWORK_ORIENTATION: ArtworkOrientation = {
+  rotationDeg: 0,
+  flipX: false,
+  flipY: false,
+  crop: FULL_ARTWORK_CROP,
+};
+
+/** Wraps an angle into (-180, 180] so free rotation and 90° steps share one range. */
+export function normaliseRotationDeg(rotationDeg: number): number {
+  const wrapped = ((rotationDeg % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+}
+
+/** Turns by a quarter in `direction` (1 is clockwise), snapping free angles to the next multiple of 90°. */
+export function rotateArtworkQuarter(rotationDeg: number, direction: -1 | 1): number {
+  const quarters = direction > 0 ? Math.floor(rotationDeg / 90 + 1e-6) + 1 : Math.ceil(rotationDeg / 90 - 1e-6) - 1;
+  return normaliseRotationDeg(quarters * 90);
+}
+
+/** Keeps a crop inside the image and at least `ARTWORK_MIN_CROP` on each side. */
+export function clampArtworkCrop(crop: ArtworkCrop): ArtworkCrop {
+  const width = clamp(crop.width, ARTWORK_MIN_CROP, 1);
+  const height = clamp(crop.height, ARTWORK_MIN_CROP, 1);
+  return { x: clamp(crop.x, 0, 1 - width), y: clamp(crop.y, 0, 1 - height), width, height };
+}
+
+export function isFullArtworkCrop(crop: ArtworkCrop): boolean {
+  return crop.x === 0 && crop.y === 0 && crop.width === 1 && crop.height === 1;
+}
+
+/** The natural size of the part of the artwork the crop keeps, before zoom and rotation. */
+export function croppedArtworkDimensionsMm(dimensionsMm: ArtworkDimensionsMm, crop: ArtworkCrop): ArtworkDimensionsMm {
+  return { widthMm: dimensionsMm.widthMm * crop.width, heightMm: dimensionsMm.heightMm * crop.height };
+}
+
+/**
+ * Keeps a transform inside the same limits the sliders use: zoom never drops below the safe-area minimum and the
+ * offset never uncovers the safe area at that zoom.
+ */
+export function clampArtworkTransform(
+  transform: ArtworkTransform,
+  bounds: ArtworkBounds,
+  dimensionsMm: ArtworkDimensionsMm,
+): ArtworkTransform {
+  const zoom = clamp(transform.zoom, bounds.minZoom, Math.max(ARTWORK_MAX_ZOOM, bounds.minZoom));
+  const limits = computeOffsetLimits(bounds, dimensionsMm, zoom);
+  return {
+    zoom,
+    offsetMm: {
+      x: clamp(transform.offsetMm.x, limits.minX, limits.maxX),
+      y: clamp(transform.offsetMm.y, limits.minY, limits.maxY),
+    },
+  };
+}
+
+export function panArtwork(
+  transform: ArtworkTransform,
+  deltaMm: PointMm,
+  bounds: ArtworkBounds,
+  dimensionsMm: ArtworkDimensionsMm,
+): ArtworkTransform {
+  return clampArtworkTransform(
+    { ...transform, offsetMm: { x: transform.offsetMm.x + deltaMm.x, y: transform.offsetMm.y + deltaMm.y } },
+    bounds,
+    dimensionsMm,
+  );
+}
+
+/**
+ * Zooms so the artwork point under `anchorMm` stays put. The anchor is measured from the centre of the stack, the
+ * same origin as `offsetMm`; once the zoom is clamped the offset is clamped again for the new size.
+ */
+export function zoomArtworkAt(
+  transform: ArtworkTransform,
+  nextZoom: number,
+  anchorMm: PointMm,
+  bounds: ArtworkBounds,
+  dimensionsMm: ArtworkDimensionsMm,
+): ArtworkTransform {
+  const zoom = clamp(nextZoom, bounds.minZoom, Math.max(ARTWORK_MAX_ZOOM, bounds.minZoom));
+  const ratio = zoom / transform.zoom;
+  return clampArtworkTransform(
+    {
+      zoom,
+      offsetMm: {
+        x: anchorMm.x - (anchorMm.x - transform.offsetMm.x) * ratio,
+        y: anchorMm.y - (anchorMm.y - transform.offsetMm.y) * ratio,
+      },
+    },
+    bounds,
+    dimensionsMm,
+  );
+}
+
+/**
+ * Maps a point on the printed preview to the shelf coordinates the artwork is designed in. In jacket mode only the
+ * spine panels show the shared artwork, so points over covers and flaps have no shelf position and return null.
+ */
+export function previewPointToShelf(layout: StackLayout, pointMm: PointMm): PointMm | null {
+  if (layout.mode === "spines") {
+    return pointMm;
+  }
+  for (const rect of layout.rects) {
+    const spine = rect.panels.find((panel) => panel.kind === "spine");
+    if (spine && pointMm.x >= spine.xMm && pointMm.x <= spine.xMm + spine.widthMm) {
+      return { x: rect.shelfXMm + (pointMm.x - spine.xMm), y: pointMm.y };
+    }
+  }
+  return null;
+}
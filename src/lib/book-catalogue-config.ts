@@ -0,0 +1,56 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import {
+  createDatasetCatalogue,
+  parseCsvBookDataset,
+  parseJsonBookDataset,
+  type BookCatalogue,
+} from "./book-catalogue";
+
+export const DEFAULT_BOOK_DATASET_PATH = path.join(process.cwd(), "data", "book-catalogue.json");
+
+/**
+ * A catalogue over a local dataset file, read on first lookup: `.csv` files are read as CSV, anything else as JSON.
+ */
+export function createFileDatasetCatalogue(filePath: string): BookCatalogue {
+  let catalogue: Promise<BookCatalogue> | null = null;
+  const load = () => {
+    if (!catalogue) {
+      catalogue = readFile(filePath, "utf8").then((contents) =>
+        createDatasetCatalogue(
+          path.extname(filePath).toLowerCase() === ".csv"
+            ? parseCsvBookDataset(contents)
+            : parseJsonBookDataset(JSON.parse(contents)),
+        ),
+      );
+      // Let a fixed dataset be picked up on the next lookup instead of caching the failure.
+      catalogue.catch(() => {
+        catalogue = null;
+      });
+    }
+    return catalogue;
+  };
+  return {
+    lookup: async (query, limit) => (await load()).lookup(query, limit),
+  };
+}
+
+let sharedCatalogue: BookCatalogue | null = null;
+
+/**
+ * Picks the metadata provider from `FLYLEAF_BOOK_CATALOGUE`. `dataset` (the default) searches a local JSON or CSV file
+ * at `FLYLEAF_BOOK_CATALOGUE_PATH`, falling back to the sample in `data/book-catalogue.json`; other providers plug
+ * in here by implementing `BookCatalogue`.
+ */
+export function getBookCatalogue(): BookCatalogue {
+  if (!sharedCatalogue) {
+    const kind = process.env.FLYLEAF_BOOK_CATALOGUE ?? "dataset";
+    if (kind === "dataset") {
+      sharedCatalogue = createFileDatasetCatalogue(process.env.FLYLEAF_BOOK_CATALOGUE_PATH ?? DEFAULT_BOOK_DATASET_PATH);
+    } else {
+      throw new Error(`Unknown FLYLEAF_BOOK_CATALOGUE "${kind}". Use "dataset".`);
+    }
+  }
+  return sharedCatalogue;
+}
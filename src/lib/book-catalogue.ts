@@ -0,0 +1,165 @@
+import { parseCsv } from "./csv";
+
+/**
+ * What a catalogue knows about an edition. Any dimension may be missing: many records carry a page count but no
+ * measured spine, which the designer can then estimate (see `estimateSpineWidthCm`).
+ */
+export type BookMetadata = {
+  isbn: string | null;
+  title: string;
+  author: string;
+  heightCm: number | null;
+  spineWidthCm: number | null;
+  pageCount: number | null;
+};
+
+/**
+ * A source of book metadata. `query` is an ISBN (any punctuation, ISBN-10 or ISBN-13) or part of a title or author.
+ */
+export type BookCatalogue = {
+  lookup: (query: string, limit?: number) => Promise<BookMetadata[]>;
+};
+
+export class BookCatalogueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BookCatalogueError";
+  }
+}
+
+export const BOOK_LOOKUP_MAX_RESULTS = 8;
+
+/** The CSV header, and the field names of each entry in a JSON dataset's `books` list. */
+export const BOOK_DATASET_COLUMNS = ["isbn", "title", "author", "heightCm", "spineWidthCm", "pageCount"] as const;
+
+function isbn10CheckDigit(digits: string): string {
+  const sum = digits
+    .slice(0, 9)
+    .split("")
+    .reduce((acc, digit, index) => acc + Number(digit) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? "X" : String(check);
+}
+
+function isbn13CheckDigit(digits: string): string {
+  const sum = digits
+    .slice(0, 12)
+    .split("")
+    .reduce((acc, digit, index) => acc + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * Normalises an ISBN to its 13-digit form, or returns null when `value` is not a valid ISBN-10 or ISBN-13. Spaces and
+ * hyphens are ignored, so printed forms such as "978-0-261-10221-7" match.
+ */
+export function normalizeIsbn(value: string): string | null {
+  const compact = value.replace(/[\s-]/g, "").toUpperCase();
+  if (/^\d{9}[\dX]$/.test(compact)) {
+    if (isbn10CheckDigit(compact) !== compact[9]) {
+      return null;
+    }
+    const stem = `978${compact.slice(0, 9)}`;
+    return stem + isbn13CheckDigit(stem);
+  }
+  if (/^97[89]\d{10}$/.test(compact)) {
+    return isbn13CheckDigit(compact) === compact[12] ? compact : null;
+  }
+  return null;
+}
+
+/** Names a dataset field in error messages, such as `"books[2].isbn"` or `The isbn in row 3`. */
+type FieldName = (key?: string) => string;
+
+function readOptionalNumber(value: unknown, field: string): number | null {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  const number = typeof value === "string" ? Number(value.trim()) : value;
+  if (typeof number !== "number" || !Number.isFinite(number) || number <= 0) {
+    throw new BookCatalogueError(`${field} must be a positive number.`);
+  }
+  return number;
+}
+
+function readDatasetEntry(value: unknown, field: FieldName): BookMetadata {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new BookCatalogueError(`${field()} is missing or malformed.`);
+  }
+  const record = value as Record<string, unknown>;
+  const title = typeof record.title === "string" ? record.title.trim() : "";
+  if (!title) {
+    throw new BookCatalogueError(`${field("title")} must be text.`);
+  }
+  const rawIsbn = typeof record.isbn === "string" ? record.isbn.trim() : "";
+  const isbn = rawIsbn ? normalizeIsbn(rawIsbn) : null;
+  if (rawIsbn && !isbn) {
+    throw new BookCatalogueError(`${field("isbn")} is not a valid ISBN.`);
+  }
+  return {
+    isbn,
+    title,
+    author: typeof record.author === "string" ? record.author.trim() : "",
+    heightCm: readOptionalNumber(record.heightCm, field("heightCm")),
+    spineWidthCm: readOptionalNumber(record.spineWidthCm, field("spineWidthCm")),
+    pageCount: readOptionalNumber(record.pageCount, field("pageCount")),
+  };
+}
+
+/**
+ * Reads a JSON dataset: `{ "books": [...] }` with the fields in `BOOK_DATASET_COLUMNS`. Only `title` is required.
+ */
+export function parseJsonBookDataset(value: unknown): BookMetadata[] {
+  const books =
+    typeof value === "object" && value !== null && !Array.isArray(value)
+      ? (value as Record<string, unknown>).books
+      : undefined;
+  if (!Array.isArray(books)) {
+    throw new BookCatalogueError('A book dataset must have a "books" list.');
+  }
+  return books.map((book, index) =>
+    readDatasetEntry(book, (key) => `"books[${index}]${key ? `.${key}` : ""}"`),
+  );
+}
+
+/**
+ * Reads a CSV dataset whose header row names the columns in `BOOK_DATASET_COLUMNS`, in any order; `title` is the only
+ * column that must be present.
+ */
+export function parseCsvBookDataset(text: string): BookMetadata[] {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header ?? []).map((name) => name.trim());
+  if (!columns.includes("title")) {
+    throw new BookCatalogueError('A CSV book dataset needs a "title" column.');
+  }
+  return rows.map((row, index) =>
+    readDatasetEntry(
+      Object.fromEntries(columns.map((column, columnIndex) => [column, row[columnIndex] ?? ""])),
+      // Row numbers as a spreadsheet shows them, counting the header.
+      (key) => (key ? `The ${key} in row ${index + 2}` : `Row ${index + 2}`),
+    ),
+  );
+}
+
+/**
+ * A catalogue over an in-memory list: ISBN queries match exactly, anything else matches titles and authors
+ * containing every word of the query, titles first.
+ */
+export function createDatasetCatalogue(books: BookMetadata[]): BookCatalogue {
+  return {
+    lookup: async (query, limit = BOOK_LOOKUP_MAX_RESULTS) => {
+      const isbn = normalizeIsbn(query);
+      if (isbn) {
+        return books.filter((book) => book.isbn === isbn).slice(0, limit);
+      }
+      const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+      if (words.length === 0) {
+        return [];
+      }
+      const matches = (text: string) => words.every((word) => text.toLowerCase().includes(word));
+      const byTitle = books.filter((book) => matches(book.title));
+      const byAuthor = books.filter((book) => !byTitle.includes(book) && matches(`${book.title} ${book.author}`));
+      return [...byTitle, ...byAuthor].slice(0, limit);
+    },
+  };
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+
+import { detectLengthUnit, formatBooksCsv, guessBookCsvMapping, readBookCsvRows } from "./book-csv";
+import { parseCsv } from "./csv";
+import type { BookFormState } from "./geometry";
+import { DEFAULT_PRODUCTION_PROFILE } from "./production-profiles";
+import { createSpineText } from "./spine-text";
+
+function heightsOnly(...heights: string[]) {
+  const header = ["Title", "Height", "Spine"];
+  return { header, rows: heights.map((height) => ["Book", height, "2"]), mapping: guessBookCsvMapping(header) };
+}
+
+describe("guessBookCsvMapping", () => {
+  it("maps common header spellings, ignoring case, spaces and units", () => {
+    expect(guessBookCsvMapping(["Title", "Height (mm)", "Spine width (mm)", "Colour", "ISBN-13"])).toEqual({
+      label: 0,
+      height: 1,
+      spineWidth: 2,
+      color: 3,
+      isbn: 4,
+    });
+  });
+
+  it("uses each column once", () => {
+    expect(guessBookCsvMapping(["Name", "Title", "heightCm", "spineWidthCm"])).toMatchObject({
+      label: 0,
+      height: 2,
+      spineWidth: 3,
+    });
+  });
+
+  it("does not read a width or cover width column as the spine", () => {
+    expect(guessBookCsvMapping(["Title", "Height", "Width"]).spineWidth).toBeNull();
+    expect(guessBookCsvMapping(["Title", "Height", "Cover width"]).spineWidth).toBeNull();
+  });
+});
+
+describe("detectLengthUnit", () => {
+  it("takes the unit a header names", () => {
+    for (const [name, unit] of [
+      ["Height (mm)", "mm"],
+      ["height_in", "in"],
+      ["Height [inches]", "in"],
+      ["heightCm", "cm"],
+    ] as const) {
+      const header = ["Title", name, "Spine"];
+      expect(detectLengthUnit(header, [["Book", "12", "2"]], guessBookCsvMapping(header))).toEqual({
+        unit,
+        fromHeader: true,
+      });
+    }
+  });
+
+  it("guesses from the median bare height", () => {
+    const guess = (...heights: string[]) => {
+      const { header, rows, mapping } = heightsOnly(...heights);
+      return detectLengthUnit(header, rows, mapping);
+    };
+    expect(guess("9 1/4", "11", "12.5", "14")).toEqual({ unit: "in", fromHeader: false });
+    expect(guess("19.9")).toEqual({ unit: "in", fromHeader: false });
+    expect(guess("20", "23", "24")).toEqual({ unit: "cm", fromHeader: false });
+    expect(guess("59")).toEqual({ unit: "cm", fromHeader: false });
+    expect(guess("60", "230", "240")).toEqual({ unit: "mm", fromHeader: false });
+  });
+
+  it("ignores heights written with a unit and falls back to centimetres", () => {
+    const { header, rows, mapping } = heightsOnly("9 in", "240 mm", "");
+    expect(detectLengthUnit(header, rows, mapping)).toEqual({ unit: "cm", fromHeader: false });
+  });
+});
+
+describe("readBookCsvRows", () => {
+  const mapping = guessBookCsvMapping(["Title", "Height", "Spine", "Colour", "ISBN"]);
+
+  it("converts lengths to centimetres and normalises colour and ISBN", () => {
+    const { books, errors } = readBookCsvRows(
+      [["Dune", "23,5", "3.2", "F00", "0-306-40615-2"]],
+      mapping,
+      "cm",
+      DEFAULT_PRODUCTION_PROFILE,
+    );
+    expect(errors).toEqual([]);
+    expect(books).toEqual([
+      { label: "Dune", heightCm: 23.5, spineWidthCm: 3.2, color: "#ff0000", isbn: "9780306406157" },
+    ]);
+  });
+
+  it("reads fractions in inches and lets a cell's own unit override the column's", () => {
+    const { books } = readBookCsvRows([["", "9 1/2", "12 mm", "", ""]], mapping, "in", DEFAULT_PRODUCTION_PROFILE);
+    expect(books).toEqual([{ label: null, heightCm: 24.13, spineWidthCm: 1.2, color: null, isbn: null }]);
+  });
+
+  it("reports every problem in a row with its spreadsheet row number", () => {
+    const { books, errors } = readBookCsvRows(
+      [
+        ["Good", "23", "3", "", ""],
+        ["Bad", "tall", "", "blue", "123"],
+        ["Tiny", "5", "0.1", "", ""],
+      ],
+      mapping,
+      "cm",
+      DEFAULT_PRODUCTION_PROFILE,
+    );
+    expect(books.map((book) => book.label)).toEqual(["Good"]);
+    expect(errors).toEqual([
+      {
+        row: 3,
+        messages: [
+          "Height “tall” is not a positive length.",
+          "Spine width is missing.",
+          "Colour “blue” is not a hex colour such as #2563eb.",
+          "ISBN “123” is not a valid ISBN-10 or ISBN-13.",
+        ],
+      },
+      {
+        row: 4,
+        messages: ["Tiny must be between 10 cm and 26 cm tall.", "Tiny needs a spine of at least 0.3 cm."],
+      },
+    ]);
+  });
+});
+
+describe("formatBooksCsv", () => {
+  it("writes a header that maps back onto every column", () => {
+    const book: BookFormState = {
+      id: 1,
+      label: "Dune, 1st ed.",
+      heightCm: 23.5,
+      spineWidthCm: 3.2,
+      coverWidthCm: 15,
+      flapWidthCm: 0,
+      color: "#2563eb",
+      isbn: "9780306406157",
+      verticalOffsetMm: 0,
+      spineText: createSpineText("Dune"),
+    };
+    const [header, ...rows] = parseCsv(formatBooksCsv([book]));
+    const mapping = guessBookCsvMapping(header);
+    expect(detectLengthUnit(header, rows, mapping).unit).toBe("cm");
+    expect(readBookCsvRows(rows, mapping, "cm", DEFAULT_PRODUCTION_PROFILE).books).toEqual([
+      { label: "Dune, 1st ed.", heightCm: 23.5, spineWidthCm: 3.2, color: "#2563eb", isbn: "9780306406157" },
+    ]);
+  });
+});
@@ -0,0 +1,216 @@
+import { normalizeIsbn } from "./book-catalogue";
+import { formatCsv } from "./csv";
+import { CM_TO_MM, type BookFormState } from "./geometry";
+import { checkBookRanges, type CentimetreFormatter, type ProductionProfile } from "./production-profiles";
+import { parseLength, type UnitSystem } from "./units";
+
+export type BookCsvField = "label" | "height" | "spineWidth" | "color" | "isbn";
+
+export type LengthUnit = "cm" | "mm" | "in";
+
+/** Which column (by index) feeds each field; null leaves the field to its default. */
+export type BookCsvMapping = Record<BookCsvField, number | null>;
+
+/** A row that passed validation, with lengths already converted to centimetres. */
+export type ImportedBook = {
+  label: string | null;
+  heightCm: number;
+  spineWidthCm: number;
+  color: string | null;
+  isbn: string | null;
+};
+
+export type BookCsvRowError = {
+  /** The row number a spreadsheet shows, counting the header as row 1. */
+  row: number;
+  messages: string[];
+};
+
+export type BookCsvImport = {
+  books: ImportedBook[];
+  errors: BookCsvRowError[];
+};
+
+export const BOOK_CSV_FIELDS: { field: BookCsvField; label: string; required: boolean }[] = [
+  { field: "label", label: "Name", required: false },
+  { field: "height", label: "Height", required: true },
+  { field: "spineWidth", label: "Spine width", required: true },
+  { field: "color", label: "Colour", required: false },
+  { field: "isbn", label: "ISBN", required: false },
+];
+
+export const LENGTH_UNITS: { value: LengthUnit; label: string }[] = [
+  { value: "cm", label: "Centimetres" },
+  { value: "mm", label: "Millimetres" },
+  { value: "in", label: "Inches" },
+];
+
+// Cells are read as the designer reads typed lengths, so "9 1/4" works and a suffix such as "3 mm" overrides the unit.
+const UNIT_SYSTEM_FOR: Record<LengthUnit, UnitSystem> = { cm: "cm", mm: "mm", in: "inDecimal" };
+
+// Only cells without a unit suffix say anything about the column's unit.
+const BARE_NUMBER = /^[-\d\s.,/]+$/;
+
+// Header names are compared lower-cased with everything but letters and digits removed, so "Spine width (mm)" reads as
+// "spinewidthmm" and matches "spinewidth" as a prefix.
+const FIELD_ALIASES: Record<BookCsvField, string[]> = {
+  label: ["label", "name", "title"],
+  height: ["height", "tall"],
+  spineWidth: ["spinewidth", "spine", "thickness"],
+  color: ["color", "colour", "swatch"],
+  isbn: ["isbn", "isbn13", "isbn10", "ean"],
+};
+
+function headerKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Maps header names to fields by common spellings. Each column is used once; earlier fields in `BOOK_CSV_FIELDS`
+ * pick first, so "Title" becomes the name rather than being left over.
+ */
+export function guessBookCsvMapping(header: readonly string[]): BookCsvMapping {
+  const keys = header.map(headerKey);
+  const used = new Set<number>();
+  const mapping = {} as BookCsvMapping;
+  BOOK_CSV_FIELDS.forEach(({ field }) => {
+    const index = keys.findIndex(
+      (key, column) =>
+        !used.has(column) && FIELD_ALIASES[field].some((alias) => key === alias || key.startsWith(alias)),
+    );
+    mapping[field] = index >= 0 ? index : null;
+    if (index >= 0) {
+      used.add(index);
+    }
+  });
+  return mapping;
+}
+
+function unitInHeader(name: string): LengthUnit | null {
+  // "Height (mm)", "height_in", "Spine cm" or camel-cased "heightCm".
+  const match =
+    name.toLowerCase().match(/(?:\(|\[|_|\s)(cm|mm|in|inch|inches)(?:\)|\]|$)/) ??
+    name.match(/[a-z](Cm|Mm|In|Inches)$/)?.map((part) => part.toLowerCase()) ??
+    null;
+  if (!match) {
+    return null;
+  }
+  return match[1].startsWith("in") ? "in" : (match[1] as LengthUnit);
+}
+
+/**
+ * Works out the unit lengths are written in: from the height or spine header when it names one ("Height (mm)"),
+ * otherwise from the typical bare height: below 20 reads as inches (books are roughly 4–18 in tall), below 60 as
+ * centimetres and anything larger as millimetres. Small books measured in centimetres fall in the inch range, so the
+ * guess is shown for the user to check.
+ */
+export function detectLengthUnit(
+  header: readonly string[],
+  rows: readonly (readonly string[])[],
+  mapping: BookCsvMapping,
+): { unit: LengthUnit; fromHeader: boolean } {
+  for (const column of [mapping.height, mapping.spineWidth]) {
+    const unit = column === null ? null : unitInHeader(header[column] ?? "");
+    if (unit) {
+      return { unit, fromHeader: true };
+    }
+  }
+  // Read in millimetres, a bare number comes back as written.
+  const heights = rows
+    .map((row) => (mapping.height === null ? "" : (row[mapping.height] ?? "").trim()))
+    .map((cell) => (BARE_NUMBER.test(cell) ? parseLength(cell, "mm") : null))
+    .filter((height): height is number => height !== null && height > 0)
+    .sort((a, b) => a - b);
+  const median = heights[Math.floor(heights.length / 2)] ?? 0;
+  return { unit: median >= 60 ? "mm" : median > 0 && median < 20 ? "in" : "cm", fromHeader: false };
+}
+
+function normalizeHexColor(value: string): string | null {
+  const match = value.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) {
+    return null;
+  }
+  const hex = match[1].length === 3 ? match[1].replace(/./g, (digit) => digit + digit) : match[1];
+  return `#${hex.toLowerCase()}`;
+}
+
+/**
+ * Validates every data row against the mapping and the production profile's ranges (the same ones the designer's
+ * inputs use). Rows with any problem are left out and reported with all of their problems at once; `format` writes
+ * the range limits in those messages.
+ */
+export function readBookCsvRows(
+  rows: readonly (readonly string[])[],
+  mapping: BookCsvMapping,
+  unit: LengthUnit,
+  profile: ProductionProfile,
+  format?: CentimetreFormatter,
+): BookCsvImport {
+  const books: ImportedBook[] = [];
+  const errors: BookCsvRowError[] = [];
+  const cell = (row: readonly string[], field: BookCsvField) => {
+    const column = mapping[field];
+    return column === null ? "" : (row[column] ?? "").trim();
+  };
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const messages: string[] = [];
+    const label = cell(row, "label") || null;
+    const readLength = (field: "height" | "spineWidth", name: string) => {
+      const raw = cell(row, field);
+      const valueMm = parseLength(raw, UNIT_SYSTEM_FOR[unit]);
+      if (valueMm === null || valueMm <= 0) {
+        messages.push(raw ? `${name} “${raw}” is not a positive length.` : `${name} is missing.`);
+        return null;
+      }
+      return Number((valueMm / CM_TO_MM).toFixed(2));
+    };
+    const heightCm = readLength("height", "Height");
+    const spineWidthCm = readLength("spineWidth", "Spine width");
+
+    const rawColor = cell(row, "color");
+    const color = rawColor ? normalizeHexColor(rawColor) : null;
+    if (rawColor && !color) {
+      messages.push(`Colour “${rawColor}” is not a hex colour such as #2563eb.`);
+    }
+    const rawIsbn = cell(row, "isbn");
+    const isbn = rawIsbn ? normalizeIsbn(rawIsbn) : null;
+    if (rawIsbn && !isbn) {
+      messages.push(`ISBN “${rawIsbn}” is not a valid ISBN-10 or ISBN-13.`);
+    }
+    if (heightCm !== null && spineWidthCm !== null) {
+      const rangeIssues = checkBookRanges(
+        { label: label ?? `Row ${rowNumber}`, heightCm, spineWidthCm, coverWidthCm: 0, flapWidthCm: 0 },
+        profile,
+        false,
+        format,
+      );
+      messages.push(...rangeIssues.map((issue) => issue.message));
+    }
+
+    if (messages.length > 0 || heightCm === null || spineWidthCm === null) {
+      errors.push({ row: rowNumber, messages });
+      return;
+    }
+    books.push({ label, heightCm, spineWidthCm, color, isbn });
+  });
+
+  return { books, errors };
+}
+
+/**
+ * The book list as CSV in centimetres, with the header `guessBookCsvMapping` reads back.
+ */
+export function formatBooksCsv(books: readonly BookFormState[]): string {
+  return formatCsv([
+    ["label", "heightCm", "spineWidthCm", "color", "isbn"],
+    ...books.map((book) => [
+      book.label,
+      String(book.heightCm),
+      String(book.spineWidthCm),
+      book.color,
+      book.isbn ?? "",
+    ]),
+  ]);
+}
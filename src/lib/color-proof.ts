@@ -0,0 +1,397 @@
+/** An sRGB colour with 0–255 channels. */
+export type RgbColor = {
+  r: number;
+  g: number;
+  b: number;
+};
+
+/** Ink coverage, 0–1 per separation. */
+export type CmykColor = {
+  c: number;
+  m: number;
+  y: number;
+  k: number;
+};
+
+/**
+ * A printing condition the designer can proof against. It is a characterisation of the press, not an ICC profile:
+ * each solid ink and the paper are given as the sRGB colour they print, and tints are modelled as transparent layers
+ * that multiply the light reaching the paper (Beer–Lambert), which is accurate enough to show which colours shift.
+ * `outputCondition` is the registered characterisation name written into CMYK exports.
+ */
+export type PrintProfile = {
+  id: string;
+  label: string;
+  description: string;
+  outputCondition: string;
+  paper: string;
+  inks: { cyan: string; magenta: string; yellow: string; black: string };
+  /** Total area coverage the press accepts, in percent (400 would be solid CMYK). */
+  totalInkLimit: number;
+  /** How much of the neutral part of a colour is printed with black rather than CMY (0–1). */
+  blackGeneration: number;
+};
+
+export type ColorProof = {
+  cmyk: CmykColor;
+  /** How the colour prints on this profile's paper, for the soft-proof preview. */
+  proofHex: string;
+  /** CIE76 difference between the requested colour and what the press can reproduce (relative to paper white). */
+  deltaE: number;
+  outOfGamut: boolean;
+};
+
+export type ColorGamutIssue = {
+  label: string;
+  hex: string;
+  proofHex: string;
+  deltaE: number;
+};
+
+export type ImageProofResult = {
+  proof: Blob;
+  /** Transparent except for out-of-gamut pixels, to lay over the proof. */
+  gamutMask: Blob;
+  outOfGamutShare: number;
+};
+
+export type CmykPixels = {
+  widthPx: number;
+  heightPx: number;
+  /** Four bytes per pixel, C, M, Y, K. */
+  cmyk: Uint8Array;
+  /** One byte per pixel, or null when the image is fully opaque. */
+  alpha: Uint8Array | null;
+};
+
+export const PRINT_PROFILES: PrintProfile[] = [
+  {
+    id: "coated-fogra39",
+    label: "Coated (FOGRA39)",
+    description: "Sheet-fed offset on gloss or matte coated paper; most European book jackets.",
+    outputCondition: "FOGRA39",
+    paper: "#fafafa",
+    inks: { cyan: "#009fe3", magenta: "#e5007d", yellow: "#ffed00", black: "#1d1d1b" },
+    totalInkLimit: 300,
+    blackGeneration: 0.6,
+  },
+  {
+    id: "uncoated-fogra29",
+    label: "Uncoated (FOGRA29)",
+    description: "Offset on uncoated or offset paper; softer blacks and duller brights.",
+    outputCondition: "FOGRA29",
+    paper: "#f7f5ee",
+    inks: { cyan: "#2f90c8", magenta: "#cf3f82", yellow: "#fbe33d", black: "#3c3a38" },
+    totalInkLimit: 260,
+    blackGeneration: 0.7,
+  },
+  {
+    id: "swop-coated",
+    label: "US web coated (SWOP)",
+    description: "Web offset on coated stock; the common North American default.",
+    outputCondition: "CGATS TR 001",
+    paper: "#f3f3ef",
+    inks: { cyan: "#009dd9", magenta: "#e0127c", yellow: "#fdea10", black: "#24201f" },
+    totalInkLimit: 300,
+    blackGeneration: 0.5,
+  },
+];
+
+export const DEFAULT_PRINT_PROFILE_ID = "coated-fogra39";
+/** Colours further than this (CIE76) from what the press prints are flagged; generous because the model is approximate. */
+export const GAMUT_WARNING_DELTA_E = 10;
+/** Artwork is flagged once this share of its visible pixels is out of gamut, so stray pixels do not nag. */
+export const GAMUT_WARNING_AREA_SHARE = 0.01;
+/** Where the soft-proof gamut overlay paints out-of-gamut pixels. */
+const GAMUT_MASK_RGBA = [255, 0, 200, 190];
+const MIN_TRANSMITTANCE = 1e-3;
+
+export function findPrintProfile(profiles: readonly PrintProfile[], id: string): PrintProfile {
+  return profiles.find((profile) => profile.id === id) ?? profiles[0];
+}
+
+export function parseHexColor(hex: string): RgbColor {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  const value = match ? parseInt(match[1], 16) : 0xffffff;
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+}
+
+export function formatHexColor(color: RgbColor): string {
+  return `#${[color.r, color.g, color.b]
+    .map((channel) => Math.round(Math.min(Math.max(channel, 0), 255)).toString(16).padStart(2, "0"))
+    .join("")}`;
+}
+
+function srgbToLinear(channel: number): number {
+  const value = channel / 255;
+  return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+}
+
+function linearToSrgb(value: number): number {
+  const clamped = Math.min(Math.max(value, 0), 1);
+  return 255 * (clamped <= 0.0031308 ? clamped * 12.92 : 1.055 * clamped ** (1 / 2.4) - 0.055);
+}
+
+const LINEAR_TABLE = Array.from({ length: 256 }, (_, channel) => srgbToLinear(channel));
+const LOG_LINEAR_TABLE = LINEAR_TABLE.map((value) => Math.log(Math.max(value, MIN_TRANSMITTANCE)));
+
+type Vector3 = [number, number, number];
+
+/** Precomputed per profile: the log transmittance of each ink per channel and the inverse of the CMY matrix. */
+type InkModel = {
+  paperLinear: Vector3;
+  cyan: Vector3;
+  magenta: Vector3;
+  yellow: Vector3;
+  black: Vector3;
+  inverse: [Vector3, Vector3, Vector3];
+  inkLimit: number;
+  blackGeneration: number;
+};
+
+const inkModels = new WeakMap<PrintProfile, InkModel>();
+
+function invert3(columns: [Vector3, Vector3, Vector3]): [Vector3, Vector3, Vector3] {
+  // `columns` holds the matrix by column; the result is returned by row so it multiplies a column vector directly.
+  const [[a, d, g], [b, e, h], [c, f, i]] = columns;
+  const determinant = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  return [
+    [(e * i - f * h) / determinant, (c * h - b * i) / determinant, (b * f - c * e) / determinant],
+    [(f * g - d * i) / determinant, (a * i - c * g) / determinant, (c * d - a * f) / determinant],
+    [(d * h - e * g) / determinant, (b * g - a * h) / determinant, (a * e - b * d) / determinant],
+  ];
+}
+
+function inkModelFor(profile: PrintProfile): InkModel {
+  const cached = inkModels.get(profile);
+  if (cached) {
+    return cached;
+  }
+  const paper = parseHexColor(profile.paper);
+  const paperLinear: Vector3 = [LINEAR_TABLE[paper.r], LINEAR_TABLE[paper.g], LINEAR_TABLE[paper.b]];
+  const logTransmittance = (hex: string): Vector3 => {
+    const ink = parseHexColor(hex);
+    return [ink.r, ink.g, ink.b].map((channel, index) =>
+      Math.log(Math.min(Math.max(LINEAR_TABLE[channel] / paperLinear[index], MIN_TRANSMITTANCE), 1)),
+    ) as Vector3;
+  };
+  const cyan = logTransmittance(profile.inks.cyan);
+  const magenta = logTransmittance(profile.inks.magenta);
+  const yellow = logTransmittance(profile.inks.yellow);
+  const model: InkModel = {
+    paperLinear,
+    cyan,
+    magenta,
+    yellow,
+    black: logTransmittance(profile.inks.black),
+    inverse: invert3([cyan, magenta, yellow]),
+    inkLimit: profile.totalInkLimit / 100,
+    blackGeneration: profile.blackGeneration,
+  };
+  inkModels.set(profile, model);
+  return model;
+}
+
+/**
+ * Separates a colour relative to paper white (so white is no ink): black replaces part of the neutral component, CMY
+ * are solved exactly for the rest, then clipped to 0–1 and scaled back to the total ink limit.
+ */
+function separateChannels(model: InkModel, r: number, g: number, b: number): CmykColor {
+  const target: Vector3 = [LOG_LINEAR_TABLE[r], LOG_LINEAR_TABLE[g], LOG_LINEAR_TABLE[b]];
+  let k = model.blackGeneration * (1 - Math.max(r, g, b) / 255);
+  // Never print more black than the darkest channel asks for, or CMY cannot lighten it again.
+  model.black.forEach((ink, channel) => {
+    if (ink < 0) {
+      k = Math.min(k, target[channel] / ink);
+    }
+  });
+  k = Math.min(Math.max(k, 0), 1);
+  const rest = target.map((value, channel) => value - k * model.black[channel]) as Vector3;
+  const [c, m, y] = model.inverse.map((row) =>
+    Math.min(Math.max(row[0] * rest[0] + row[1] * rest[1] + row[2] * rest[2], 0), 1),
+  );
+  const total = c + m + y + k;
+  if (total <= model.inkLimit || c + m + y === 0) {
+    return { c, m, y, k };
+  }
+  const scale = Math.max(model.inkLimit - k, 0) / (c + m + y);
+  return { c: c * scale, m: m * scale, y: y * scale, k };
+}
+
+/** Linear light reflected by the print, relative to bare paper (1 is paper white). */
+function simulateRelative(model: InkModel, cmyk: CmykColor): Vector3 {
+  return [0, 1, 2].map((channel) =>
+    Math.exp(
+      cmyk.c * model.cyan[channel] +
+        cmyk.m * model.magenta[channel] +
+        cmyk.y * model.yellow[channel] +
+        cmyk.k * model.black[channel],
+    ),
+  ) as Vector3;
+}
+
+function labFromLinear([r, g, b]: Vector3): Vector3 {
+  // sRGB (D65) to XYZ, normalised to the D65 white point.
+  const x = (0.4124 * r + 0.3576 * g + 0.1805 * b) / 0.95047;
+  const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  const z = (0.0193 * r + 0.1192 * g + 0.9505 * b) / 1.08883;
+  const f = (value: number) => (value > 0.008856 ? Math.cbrt(value) : 7.787 * value + 16 / 116);
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+}
+
+function deltaE76(a: Vector3, b: Vector3): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+export function separateColor(color: RgbColor, profile: PrintProfile): CmykColor {
+  return separateChannels(inkModelFor(profile), Math.round(color.r), Math.round(color.g), Math.round(color.b));
+}
+
+/** How a CMYK colour looks printed on the profile's paper. */
+export function simulateCmyk(cmyk: CmykColor, profile: PrintProfile): RgbColor {
+  const model = inkModelFor(profile);
+  const [r, g, b] = simulateRelative(model, cmyk).map((value, channel) =>
+    linearToSrgb(value * model.paperLinear[channel]),
+  );
+  return { r, g, b };
+}
+
+export function proofColor(hex: string, profile: PrintProfile): ColorProof {
+  const model = inkModelFor(profile);
+  const color = parseHexColor(hex);
+  const cmyk = separateChannels(model, color.r, color.g, color.b);
+  const relative = simulateRelative(model, cmyk);
+  const deltaE = deltaE76(
+    labFromLinear([LINEAR_TABLE[color.r], LINEAR_TABLE[color.g], LINEAR_TABLE[color.b]]),
+    labFromLinear(relative),
+  );
+  return {
+    cmyk,
+    proofHex: formatHexColor(simulateCmyk(cmyk, profile)),
+    deltaE,
+    outOfGamut: deltaE > GAMUT_WARNING_DELTA_E,
+  };
+}
+
+/** The design colours that will visibly shift in print, worst first. */
+export function assessColorGamut(
+  colors: readonly { label: string; hex: string }[],
+  profile: PrintProfile,
+): ColorGamutIssue[] {
+  return colors
+    .map(({ label, hex }) => ({ label, hex, ...proofColor(hex, profile) }))
+    .filter((proof) => proof.outOfGamut)
+    .map(({ label, hex, proofHex, deltaE }) => ({ label, hex, proofHex, deltaE }))
+    .sort((a, b) => b.deltaE - a.deltaE);
+}
+
+/**
+ * Soft-proofs RGBA pixels: returns a copy showing the printed appearance and a mask that marks out-of-gamut pixels.
+ * Transparent pixels stay transparent and are not counted.
+ */
+export function proofPixels(rgba: Uint8ClampedArray, profile: PrintProfile) {
+  const model = inkModelFor(profile);
+  const proofed = new Uint8ClampedArray(rgba.length);
+  const gamutMask = new Uint8ClampedArray(rgba.length);
+  let visiblePixels = 0;
+  let outOfGamutPixels = 0;
+  for (let index = 0; index < rgba.length; index += 4) {
+    const r = rgba[index];
+    const g = rgba[index + 1];
+    const b = rgba[index + 2];
+    const cmyk = separateChannels(model, r, g, b);
+    const relative = simulateRelative(model, cmyk);
+    proofed[index] = linearToSrgb(relative[0] * model.paperLinear[0]);
+    proofed[index + 1] = linearToSrgb(relative[1] * model.paperLinear[1]);
+    proofed[index + 2] = linearToSrgb(relative[2] * model.paperLinear[2]);
+    proofed[index + 3] = rgba[index + 3];
+    if (rgba[index + 3] < 8) {
+      continue;
+    }
+    visiblePixels += 1;
+    const target = labFromLinear([LINEAR_TABLE[r], LINEAR_TABLE[g], LINEAR_TABLE[b]]);
+    if (deltaE76(target, labFromLinear(relative)) > GAMUT_WARNING_DELTA_E) {
+      outOfGamutPixels += 1;
+      gamutMask.set(GAMUT_MASK_RGBA, index);
+    }
+  }
+  return { proofed, gamutMask, outOfGamutShare: visiblePixels ? outOfGamutPixels / visiblePixels : 0 };
+}
+
+/**
+ * Separates RGBA pixels for a CMYK export. Partly transparent pixels keep their colour and carry their alpha in a
+ * separate channel for the PDF soft mask.
+ */
+export function separatePixels(rgba: Uint8ClampedArray, widthPx: number, heightPx: number, profile: PrintProfile): CmykPixels {
+  const model = inkModelFor(profile);
+  const cmyk = new Uint8Array(widthPx * heightPx * 4);
+  const alpha = new Uint8Array(widthPx * heightPx);
+  let hasTransparency = false;
+  for (let pixel = 0; pixel < widthPx * heightPx; pixel += 1) {
+    const index = pixel * 4;
+    const ink = separateChannels(model, rgba[index], rgba[index + 1], rgba[index + 2]);
+    cmyk[index] = Math.round(ink.c * 255);
+    cmyk[index + 1] = Math.round(ink.m * 255);
+    cmyk[index + 2] = Math.round(ink.y * 255);
+    cmyk[index + 3] = Math.round(ink.k * 255);
+    alpha[pixel] = rgba[index + 3];
+    hasTransparency ||= rgba[index + 3] < 255;
+  }
+  return { widthPx, heightPx, cmyk, alpha: hasTransparency ? alpha : null };
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("The proof image could not be encoded."))), "image/png"),
+  );
+}
+
+/** Decodes an image and draws it onto a canvas, at its natural size unless a size in pixels is given. */
+async function rasteriseImage(src: string, widthPx?: number, heightPx?: number) {
+  const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const element = new Image();
+    element.decoding = "async";
+    element.onload = () => resolve(element);
+    element.onerror = () => reject(new Error("The artwork could not be decoded."));
+    element.src = src;
+  });
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(widthPx ?? image.naturalWidth) || 1);
+  canvas.height = Math.max(1, Math.round(heightPx ?? image.naturalHeight) || 1);
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Your browser could not prepare the artwork.");
+  }
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return { image, canvas, context };
+}
+
+/**
+ * Soft-proofs an image for the live preview at no more than `maxEdgePx` on its long side. Images from other origins
+ * cannot be read back from a canvas and reject.
+ */
+export async function proofImage(src: string, profile: PrintProfile, maxEdgePx: number): Promise<ImageProofResult> {
+  const { canvas, context } = await rasteriseImage(src);
+  const scale = Math.min(1, maxEdgePx / Math.max(canvas.width, canvas.height));
+  if (scale < 1) {
+    const { canvas: scaled } = await rasteriseImage(src, canvas.width * scale, canvas.height * scale);
+    return proofCanvas(scaled, profile);
+  }
+  return proofCanvas(canvas, profile, context);
+}
+
+async function proofCanvas(
+  canvas: HTMLCanvasElement,
+  profile: PrintProfile,
+  context = canvas.getContext("2d"),
+): Promise<ImageProofResult> {
+  if (!context) {
+    throw new Error("Your browser could not prepare the artwork.");
+  }
+  const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+  const { proofed, gamutMask, outOfGamutShare } = proofPixels(pixels.data, profile);
+  context.putImageData(new ImageData(proofed, canvas.width, canvas.height), 0, 0);
+  const proof = await canvasToBlob(canvas);
+  context.putImageData(new ImageData(gamutMask, canvas.width, canvas.height), 0, 0);
+  return { proof, gamutMask: await canvasToBlob(canvas), outOfGamutShare };
+}
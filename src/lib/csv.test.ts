@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+
+import { formatCsv, parseCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("splits rows and fields", () => {
+    expect(parseCsv("a,b,c\n1,2,3\n")).toEqual([
+      ["a", "b", "c"],
+      ["1", "2", "3"],
+    ]);
+  });
+
+  it("reads quoted fields with commas, line breaks and doubled quotes", () => {
+    expect(parseCsv('"Smith, J","Line one\nline two","6"" tall"\n')).toEqual([
+      ["Smith, J", "Line one\nline two", '6" tall'],
+    ]);
+  });
+
+  it("accepts CRLF endings, a byte order mark and a missing final newline", () => {
+    expect(parseCsv("﻿a,b\r\n1,2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("drops blank lines but keeps empty fields", () => {
+    expect(parseCsv("a,b\n\n,2\n\r\n")).toEqual([
+      ["a", "b"],
+      ["", "2"],
+    ]);
+  });
+});
+
+describe("formatCsv", () => {
+  it("quotes only the fields that need it", () => {
+    expect(formatCsv([["plain", "a,b", 'say "hi"', " padded"]])).toBe('plain,"a,b","say ""hi"""," padded"\r\n');
+  });
+
+  it("round-trips through parseCsv", () => {
+    const rows = [
+      ["label", "note"],
+      ["Dune, 1st ed.", 'The "big" one\nwith a line break'],
+    ];
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+  });
+});
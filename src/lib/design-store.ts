@@ -0,0 +1,283 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { Database } from "sql.js";
+
+import type { ProjectDocument } from "./project-file";
+
+/**
+ * A design as stored by the API. `document` is the same project document the designer saves to disk, so anything
+ * that opens a `.flyleaf.json` file can open a stored design.
+ */
+export type StoredDesign = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  document: ProjectDocument;
+};
+
+export type DesignSummary = Omit<StoredDesign, "document"> & {
+  bookCount: number;
+  layoutMode: ProjectDocument["layoutMode"];
+};
+
+export type DesignInput = {
+  name: string;
+  document: ProjectDocument;
+};
+
+/**
+ * Storage backend for the designs API. Adapters only persist records; validation happens in the route handlers before
+ * anything reaches the store.
+ */
+export type DesignStore = {
+  list: () => Promise<DesignSummary[]>;
+  get: (id: string) => Promise<StoredDesign | null>;
+  create: (input: DesignInput) => Promise<StoredDesign>;
+  update: (id: string, input: DesignInput) => Promise<StoredDesign | null>;
+  remove: (id: string) => Promise<boolean>;
+};
+
+type DesignRecords = Map<string, StoredDesign>;
+
+export function summarizeDesign(design: StoredDesign): DesignSummary {
+  return {
+    id: design.id,
+    name: design.name,
+    createdAt: design.createdAt,
+    updatedAt: design.updatedAt,
+    bookCount: design.document.books.length,
+    layoutMode: design.document.layoutMode,
+  };
+}
+
+/**
+ * Runs tasks one after another so concurrent requests never interleave a read-modify-write cycle.
+ */
+function createTaskQueue() {
+  let queue: Promise<unknown> = Promise.resolve();
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task, task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+}
+
+async function writeFileAtomically(filePath: string, contents: string | Uint8Array) {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await writeFile(tempPath, contents);
+  await rename(tempPath, filePath);
+}
+
+/**
+ * Shared CRUD logic over a load/save pair of the whole record set.
+ */
+function createRecordStore(load: () => Promise<DesignRecords>, save: (records: DesignRecords) => Promise<void>) {
+  const enqueue = createTaskQueue();
+
+  const store: DesignStore = {
+    list: () =>
+      enqueue(async () =>
+        Array.from((await load()).values())
+          .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+          .map(summarizeDesign),
+      ),
+    get: (id) => enqueue(async () => (await load()).get(id) ?? null),
+    create: (input) =>
+      enqueue(async () => {
+        const records = await load();
+        const now = new Date().toISOString();
+        const design: StoredDesign = { id: randomUUID(), createdAt: now, updatedAt: now, ...input };
+        records.set(design.id, design);
+        await save(records);
+        return design;
+      }),
+    update: (id, input) =>
+      enqueue(async () => {
+        const records = await load();
+        const existing = records.get(id);
+        if (!existing) {
+          return null;
+        }
+        const design: StoredDesign = { ...existing, ...input, updatedAt: new Date().toISOString() };
+        records.set(id, design);
+        await save(records);
+        return design;
+      }),
+    remove: (id) =>
+      enqueue(async () => {
+        const records = await load();
+        if (!records.delete(id)) {
+          return false;
+        }
+        await save(records);
+        return true;
+      }),
+  };
+  return store;
+}
+
+export function createMemoryDesignStore(): DesignStore {
+  let records: DesignRecords = new Map();
+  return createRecordStore(
+    async () => new Map(records),
+    async (next) => {
+      records = next;
+    },
+  );
+}
+
+/**
+ * Keeps every design in one JSON file. Saves go through a temporary file and a rename so a crash never leaves a
+ * half-written store behind. Suited to development and single-instance deployments.
+ */
+export function createFileDesignStore(filePath: string): DesignStore {
+  return createRecordStore(
+    async () => {
+      try {
+        const parsed = JSON.parse(await readFile(filePath, "utf8")) as { designs?: StoredDesign[] };
+        return new Map((parsed.designs ?? []).map((design) => [design.id, design]));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return new Map();
+        }
+        throw error;
+      }
+    },
+    (records) => writeFileAtomically(filePath, JSON.stringify({ designs: Array.from(records.values()) }, null, 2)),
+  );
+}
+
+type DesignRow = [string, string, string, string, string];
+
+function rowToDesign([id, name, createdAt, updatedAt, document]: DesignRow): StoredDesign {
+  return { id, name, createdAt, updatedAt, document: JSON.parse(document) as ProjectDocument };
+}
+
+/**
+ * SQLite-backed store using sql.js, so no native build is needed. The database lives in memory and is written back
+ * to `filePath` after every change; documents are kept as JSON text alongside indexed summary columns.
+ */
+export function createSqliteDesignStore(filePath: string): DesignStore {
+  const enqueue = createTaskQueue();
+  let databasePromise: Promise<Database> | null = null;
+
+  const open = () => {
+    databasePromise ??= (async () => {
+      const { default: initSqlJs } = await import("sql.js");
+      const SQL = await initSqlJs({
+        locateFile: (file: string) => path.join(process.cwd(), "node_modules", "sql.js", "dist", file),
+      });
+      let existing: Uint8Array | null = null;
+      try {
+        existing = await readFile(filePath);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw error;
+        }
+      }
+      const database = new SQL.Database(existing);
+      database.run(
+        `CREATE TABLE IF NOT EXISTS designs (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          document TEXT NOT NULL
+        )`,
+      );
+      return database;
+    })();
+    return databasePromise;
+  };
+
+  const selectOne = (database: Database, id: string): StoredDesign | null => {
+    const result = database.exec("SELECT id, name, created_at, updated_at, document FROM designs WHERE id = ?", [id]);
+    const row = result[0]?.values[0] as DesignRow | undefined;
+    return row ? rowToDesign(row) : null;
+  };
+
+  const persist = (database: Database) => writeFileAtomically(filePath, database.export());
+
+  return {
+    list: () =>
+      enqueue(async () => {
+        const database = await open();
+        const result = database.exec(
+          "SELECT id, name, created_at, updated_at, document FROM designs ORDER BY updated_at DESC",
+        );
+        return (result[0]?.values ?? []).map((row) => summarizeDesign(rowToDesign(row as DesignRow)));
+      }),
+    get: (id) => enqueue(async () => selectOne(await open(), id)),
+    create: (input) =>
+      enqueue(async () => {
+        const database = await open();
+        const now = new Date().toISOString();
+        const design: StoredDesign = { id: randomUUID(), createdAt: now, updatedAt: now, ...input };
+        database.run("INSERT INTO designs (id, name, created_at, updated_at, document) VALUES (?, ?, ?, ?, ?)", [
+          design.id,
+          design.name,
+          design.createdAt,
+          design.updatedAt,
+          JSON.stringify(design.document),
+        ]);
+        await persist(database);
+        return design;
+      }),
+    update: (id, input) =>
+      enqueue(async () => {
+        const database = await open();
+        const existing = selectOne(database, id);
+        if (!existing) {
+          return null;
+        }
+        const design: StoredDesign = { ...existing, ...input, updatedAt: new Date().toISOString() };
+        database.run("UPDATE designs SET name = ?, updated_at = ?, document = ? WHERE id = ?", [
+          design.name,
+          design.updatedAt,
+          JSON.stringify(design.document),
+          id,
+        ]);
+        await persist(database);
+        return design;
+      }),
+    remove: (id) =>
+      enqueue(async () => {
+        const database = await open();
+        database.run("DELETE FROM designs WHERE id = ?", [id]);
+        if (database.getRowsModified() === 0) {
+          return false;
+        }
+        await persist(database);
+        return true;
+      }),
+  };
+}
+
+export const DEFAULT_DESIGN_STORE_DIRECTORY = path.join(process.cwd(), ".data");
+
+let sharedStore: DesignStore | null = null;
+
+/**
+ * Picks the adapter from `FLYLEAF_DESIGN_STORE`: `file` (the default, a JSON file), `sqlite` or `memory`.
+ * `FLYLEAF_DESIGN_STORE_PATH` overrides where the file and SQLite adapters write; both default to `.data/`.
+ */
+export function getDesignStore(): DesignStore {
+  if (!sharedStore) {
+    const kind = process.env.FLYLEAF_DESIGN_STORE ?? "file";
+    const customPath = process.env.FLYLEAF_DESIGN_STORE_PATH;
+    if (kind === "memory") {
+      sharedStore = createMemoryDesignStore();
+    } else if (kind === "file") {
+      sharedStore = createFileDesignStore(customPath ?? path.join(DEFAULT_DESIGN_STORE_DIRECTORY, "designs.json"));
+    } else if (kind === "sqlite") {
+      sharedStore = createSqliteDesignStore(customPath ?? path.join(DEFAULT_DESIGN_STORE_DIRECTORY, "designs.sqlite"));
+    } else {
+      throw new Error(`Unknown FLYLEAF_DESIGN_STORE "${kind}". Use "file", "sqlite" or "memory".`);
+    }
+  }
+  return sharedStore;
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_ARTWORK_ORIENTATION } from "./artwork-transform";
+import { validateDesignDocument, validateDesignInput } from "./design-validation";
+import { DEFAULT_PRINT_MARGINS, MAX_BOOK_OFFSET_MM, type BookFormState } from "./geometry";
+import { DEFAULT_DPI_THRESHOLDS } from "./print-resolution";
+import { DEFAULT_PRODUCTION_PROFILE, PRODUCTION_PROFILES } from "./production-profiles";
+import { PROJECT_FORMAT, PROJECT_SCHEMA_VERSION, type ProjectDocument } from "./project-file";
+import { createSpineText } from "./spine-text";
+
+function makeBook(id: number, overrides: Partial<BookFormState> = {}): BookFormState {
+  return {
+    id,
+    label: `Book ${id}`,
+    heightCm: 24,
+    spineWidthCm: 3,
+    coverWidthCm: 15,
+    flapWidthCm: 0,
+    color: "#2563eb",
+    isbn: null,
+    verticalOffsetMm: 0,
+    spineText: createSpineText(),
+    ...overrides,
+  };
+}
+
+function makeDocument(overrides: Partial<ProjectDocument> = {}): ProjectDocument {
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_SCHEMA_VERSION,
+    savedAt: "2024-01-01T00:00:00.000Z",
+    books: [makeBook(1), makeBook(2)],
+    layoutMode: "spines",
+    stackAlignment: "bottom",
+    paper: { id: "tabloid", orientation: "landscape", custom: [] },
+    artwork: {
+      source: null,
+      offsetMm: { x: 0, y: 0 },
+      zoom: 1,
+      orientation: DEFAULT_ARTWORK_ORIENTATION,
+      hasManualOffset: false,
+      hasManualZoom: false,
+      dpiThresholds: DEFAULT_DPI_THRESHOLDS,
+      opacity: 1,
+      blendMode: "normal",
+      overlays: [],
+    },
+    textLayers: [],
+    fonts: [],
+    print: DEFAULT_PRINT_MARGINS,
+    production: DEFAULT_PRODUCTION_PROFILE,
+    units: "cm",
+    ...overrides,
+  };
+}
+
+describe("validateDesignDocument", () => {
+  it("accepts a design that fits its profile and paper", () => {
+    const document = makeDocument();
+    expect(validateDesignDocument(document)).toEqual({ ok: true, document, issues: [] });
+  });
+
+  it("reports a document that does not parse", () => {
+    expect(validateDesignDocument({ format: PROJECT_FORMAT, version: PROJECT_SCHEMA_VERSION + 1 })).toMatchObject({
+      ok: false,
+      document: null,
+      issues: [{ field: "document" }],
+    });
+  });
+
+  it("flags books outside the profile's ranges by field", () => {
+    const result = validateDesignDocument(makeDocument({ books: [makeBook(1), makeBook(2, { heightCm: 30 })] }));
+    expect(result.ok).toBe(false);
+    expect(result.issues).toEqual([
+      { field: "books[1].heightCm", message: "Book 2 must be between 10 cm and 26 cm tall." },
+    ]);
+  });
+
+  it("checks against the server's copy of the profile, not the document's", () => {
+    const loosened = { ...DEFAULT_PRODUCTION_PROFILE, bookHeightMaxCm: 40 };
+    const document = makeDocument({ books: [makeBook(1, { heightCm: 30 })], production: loosened });
+    expect(validateDesignDocument(document).issues.map((issue) => issue.field)).toEqual(["books[0].heightCm"]);
+  });
+
+  it("rejects a profile the server does not offer", () => {
+    const unknown = { ...DEFAULT_PRODUCTION_PROFILE, id: "elsewhere", label: "Elsewhere" };
+    expect(validateDesignDocument(makeDocument({ production: unknown }), PRODUCTION_PROFILES).issues).toEqual([
+      { field: "production.id", message: 'The production profile "Elsewhere" is not offered by this server.' },
+    ]);
+  });
+
+  it("limits each book's vertical offset", () => {
+    const books = [makeBook(1, { verticalOffsetMm: MAX_BOOK_OFFSET_MM }), makeBook(2, { verticalOffsetMm: -51 })];
+    expect(validateDesignDocument(makeDocument({ books })).issues).toEqual([
+      { field: "books[1].verticalOffsetMm", message: `Book 2 can move at most ${MAX_BOOK_OFFSET_MM} mm up or down.` },
+    ]);
+  });
+
+  it("rejects duplicate book ids and out-of-range bleed", () => {
+    const print = { ...DEFAULT_PRINT_MARGINS, bleedMm: { ...DEFAULT_PRINT_MARGINS.bleedMm, left: 11 } };
+    const result = validateDesignDocument(makeDocument({ books: [makeBook(1), makeBook(1)], print }));
+    expect(result.issues.map((issue) => issue.field)).toEqual(["books[1].id", "print.bleedMm.left"]);
+  });
+
+  it("rejects a book too wide for the paper even when tiled", () => {
+    const result = validateDesignDocument(makeDocument({ books: [makeBook(1, { spineWidthCm: 45 })] }));
+    expect(result.issues).toEqual([
+      {
+        field: "books",
+        message: "At least one book is too large to print on 11×17 in, even when tiled across sheets.",
+      },
+    ]);
+  });
+});
+
+describe("validateDesignInput", () => {
+  it("names an untitled design after its first book", () => {
+    expect(validateDesignInput({ document: makeDocument() })).toMatchObject({ ok: true, name: "Book 1 stack" });
+    expect(validateDesignInput({ name: "  Shelf  ", document: makeDocument() })).toMatchObject({ name: "Shelf" });
+  });
+
+  it("collects body, name and document issues together", () => {
+    expect(validateDesignInput([])).toEqual({
+      ok: false,
+      issues: [{ field: "body", message: "Expected a JSON object with a design document." }],
+    });
+    const document = makeDocument({ books: [makeBook(1, { heightCm: 5 })] });
+    expect(validateDesignInput({ name: 3, document })).toMatchObject({
+      ok: false,
+      issues: [{ field: "name" }, { field: "books[0].heightCm" }],
+    });
+  });
+});
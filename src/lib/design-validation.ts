@@ -0,0 +1,168 @@
+import { MAX_BLEED_MM, MAX_BOOK_OFFSET_MM, MAX_SAFE_MARGIN_MM, computeStackLayout } from "./geometry";
+import { PAPER_SIZES, findPaperSize, resolveSheet } from "./paper-sizes";
+import { PRODUCTION_PROFILES, checkBookRanges, type ProductionProfile } from "./production-profiles";
+import { ProjectFileError, parseProjectDocument, type ProjectDocument } from "./project-file";
+import { TEXT_LAYER_MAX_CHARACTERS } from "./text-validation";
+
+export type DesignIssue = {
+  field: string;
+  message: string;
+};
+
+export type DesignValidationResult =
+  | { ok: true; document: ProjectDocument; issues: [] }
+  | { ok: false; document: ProjectDocument | null; issues: DesignIssue[] };
+
+/**
+ * Checks a design the way the designer would: the document must parse as a project file, every book must sit inside
+ * its production profile's ranges, and the stack laid out by `computeStackLayout` must fit the chosen paper (tiling
+ * across sheets is allowed, a single book wider than the paper is not). The profile is looked up by id in `profiles`
+ * rather than trusted from the document, so a design cannot loosen the rules it is checked against.
+ */
+export function validateDesignDocument(
+  value: unknown,
+  profiles: readonly ProductionProfile[] = PRODUCTION_PROFILES,
+): DesignValidationResult {
+  let document: ProjectDocument;
+  try {
+    document = parseProjectDocument(value);
+  } catch (error) {
+    if (error instanceof ProjectFileError) {
+      return { ok: false, document: null, issues: [{ field: "document", message: error.message }] };
+    }
+    throw error;
+  }
+
+  const issues: DesignIssue[] = [];
+  const production = profiles.find((profile) => profile.id === document.production.id);
+  if (!production) {
+    issues.push({
+      field: "production.id",
+      message: `The production profile "${document.production.label}" is not offered by this server.`,
+    });
+  }
+  const ids = new Set<number>();
+  document.books.forEach((book, index) => {
+    const field = `books[${index}]`;
+    if (ids.has(book.id)) {
+      issues.push({ field: `${field}.id`, message: `Book id ${book.id} is used more than once.` });
+    }
+    ids.add(book.id);
+    if (Math.abs(book.verticalOffsetMm) > MAX_BOOK_OFFSET_MM) {
+      issues.push({
+        field: `${field}.verticalOffsetMm`,
+        message: `${book.label} can move at most ${MAX_BOOK_OFFSET_MM} mm up or down.`,
+      });
+    }
+    if (production) {
+      checkBookRanges(book, production, document.layoutMode === "jacket").forEach((issue) => {
+        issues.push({ field: `${field}.${issue.field}`, message: issue.message });
+      });
+    }
+  });
+
+  if (document.artwork.zoom <= 0) {
+    issues.push({ field: "artwork.zoom", message: "Artwork zoom must be greater than zero." });
+  }
+  if (document.artwork.dpiThresholds.errorDpi > document.artwork.dpiThresholds.warningDpi) {
+    issues.push({
+      field: "artwork.dpiThresholds",
+      message: "The blocking DPI threshold cannot be higher than the warning threshold.",
+    });
+  }
+  if (document.artwork.source?.kind === "reference" && document.artwork.source.url.startsWith("blob:")) {
+    issues.push({
+      field: "artwork.source.url",
+      message: "Uploaded artwork must be embedded; browser-local blob URLs cannot be stored.",
+    });
+  }
+  (["top", "right", "bottom", "left"] as const).forEach((side) => {
+    const bleedMm = document.print.bleedMm[side];
+    if (bleedMm < 0 || bleedMm > MAX_BLEED_MM) {
+      issues.push({
+        field: `print.bleedMm.${side}`,
+        message: `The ${side} bleed must be between 0 and ${MAX_BLEED_MM} mm.`,
+      });
+    }
+  });
+  if (document.print.safeMarginMm < 0 || document.print.safeMarginMm > MAX_SAFE_MARGIN_MM) {
+    issues.push({
+      field: "print.safeMarginMm",
+      message: `The safe margin must be between 0 and ${MAX_SAFE_MARGIN_MM} mm.`,
+    });
+  }
+  document.textLayers.forEach((layer, index) => {
+    if (layer.sizeMm <= 0) {
+      issues.push({ field: `textLayers[${index}].sizeMm`, message: `${layer.name} needs a size greater than zero.` });
+    }
+    if (layer.text.length > TEXT_LAYER_MAX_CHARACTERS) {
+      issues.push({
+        field: `textLayers[${index}].text`,
+        message: `${layer.name} is longer than ${TEXT_LAYER_MAX_CHARACTERS} characters.`,
+      });
+    }
+    if (layer.lineHeight <= 0) {
+      issues.push({
+        field: `textLayers[${index}].lineHeight`,
+        message: `${layer.name} needs a line height greater than zero.`,
+      });
+    }
+    const { anchor } = layer;
+    if (anchor.kind === "spine" && !document.books.some((book) => book.id === anchor.bookId)) {
+      issues.push({ field: `textLayers[${index}].anchor.bookId`, message: `${layer.name} is pinned to a missing book.` });
+    }
+  });
+
+  if (issues.length === 0 && production) {
+    const paper = findPaperSize([...PAPER_SIZES, ...document.paper.custom], document.paper.id);
+    const layout = computeStackLayout(
+      document.books,
+      resolveSheet(paper, document.paper.orientation),
+      document.layoutMode,
+      document.print,
+      production,
+      document.stackAlignment,
+    );
+    if (!layout.metrics.fitsTiledSheets) {
+      issues.push({
+        field: "books",
+        message: `At least one book is too large to print on ${paper.label}, even when tiled across sheets.`,
+      });
+    }
+  }
+
+  return issues.length === 0 ? { ok: true, document, issues: [] } : { ok: false, document, issues };
+}
+
+export const DESIGN_NAME_MAX_LENGTH = 120;
+
+export type DesignInputValidationResult =
+  | { ok: true; name: string; document: ProjectDocument }
+  | { ok: false; issues: DesignIssue[] };
+
+/**
+ * Validates a create/update request body of the form `{ name, document }`. A missing name falls back to the stack's
+ * first book so quick saves still get a readable label.
+ */
+export function validateDesignInput(
+  body: unknown,
+  profiles: readonly ProductionProfile[] = PRODUCTION_PROFILES,
+): DesignInputValidationResult {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { ok: false, issues: [{ field: "body", message: "Expected a JSON object with a design document." }] };
+  }
+  const { name, document } = body as { name?: unknown; document?: unknown };
+  const issues: DesignIssue[] = [];
+  if (name !== undefined && typeof name !== "string") {
+    issues.push({ field: "name", message: "Name must be text." });
+  } else if (typeof name === "string" && name.trim().length > DESIGN_NAME_MAX_LENGTH) {
+    issues.push({ field: "name", message: `Name must be at most ${DESIGN_NAME_MAX_LENGTH} characters.` });
+  }
+  const result = validateDesignDocument(document, profiles);
+  issues.push(...result.issues);
+  if (!result.ok || issues.length > 0) {
+    return { ok: false, issues };
+  }
+  const trimmed = typeof name === "string" ? name.trim() : "";
+  return { ok: true, name: trimmed || `${result.document.books[0]?.label ?? "Untitled"} stack`, document: result.document };
+}
@@ -0,0 +1,190 @@
+import fontkit from "@pdf-lib/fontkit";
+import { PDFDocument } from "pdf-lib";
+
+import { TEXT_LAYER_BOLD_WEIGHT } from "./text-layers";
+
+/** One font file. `url` is a path under /public for bundled fonts and a data URL for uploads. */
+export type FontFaceFile = {
+  weight: number;
+  url: string;
+};
+
+/**
+ * A font the designer can preview and embed. `stack` is the CSS font-family value stored on text layers and spine
+ * text; its first family is the one the faces are registered under, the rest is the fallback while they load.
+ */
+export type FontDefinition = {
+  label: string;
+  family: string;
+  stack: string;
+  faces: FontFaceFile[];
+  uploaded: boolean;
+};
+
+/** A user-supplied font as stored in project files, so a reopened design still prints with it. */
+export type UploadedFont = {
+  label: string;
+  family: string;
+  fileName: string;
+  dataUrl: string;
+};
+
+export class FontUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FontUploadError";
+  }
+}
+
+export const FONT_UPLOAD_EXTENSIONS = [".ttf", ".otf", ".woff", ".woff2"];
+/** Uploaded fonts travel inside project files and the browser autosave, so very large families are refused. */
+export const FONT_UPLOAD_MAX_BYTES = 4 * 1024 * 1024;
+
+const FONT_MIME_TYPES: Record<string, string> = {
+  ".ttf": "font/ttf",
+  ".otf": "font/otf",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+};
+
+function bundledFont(label: string, fileStem: string, fallback: string): FontDefinition {
+  return {
+    label,
+    family: label,
+    stack: `'${label}', ${fallback}`,
+    faces: [400, 700].map((weight) => ({ weight, url: `/fonts/${fileStem}-${weight}.woff` })),
+    uploaded: false,
+  };
+}
+
+/**
+ * Fonts served from /public/fonts (SIL Open Font License, Latin subset). Regular and bold are shipped; other weights
+ * resolve to the nearest of the two on screen and in exports alike.
+ */
+export const BUNDLED_FONTS: FontDefinition[] = [
+  bundledFont("Inter", "inter", "-apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif"),
+  bundledFont("Playfair Display", "playfair-display", "'Times New Roman', serif"),
+  bundledFont("Crimson Text", "crimson-text", "Georgia, serif"),
+  bundledFont("Montserrat", "montserrat", "'Helvetica Neue', sans-serif"),
+  bundledFont("Libre Baskerville", "libre-baskerville", "'Times New Roman', serif"),
+];
+
+export function uploadedFontDefinition(font: UploadedFont): FontDefinition {
+  return {
+    label: font.label,
+    family: font.family,
+    stack: `'${font.family}', sans-serif`,
+    faces: [{ weight: 400, url: font.dataUrl }],
+    uploaded: true,
+  };
+}
+
+export function buildFontLibrary(uploaded: UploadedFont[]): FontDefinition[] {
+  return [...BUNDLED_FONTS, ...uploaded.map(uploadedFontDefinition)];
+}
+
+/** The first family named in a CSS font-family value, without quotes. */
+export function primaryFontFamily(stack: string): string {
+  return stack.split(",")[0].trim().replace(/^['"]|['"]$/g, "");
+}
+
+export function findFontDefinition(fonts: readonly FontDefinition[], stack: string): FontDefinition | null {
+  const family = primaryFontFamily(stack);
+  return fonts.find((font) => font.family === family) ?? null;
+}
+
+/**
+ * The face used for `weight`, following the browser's matching: lighter requests prefer the nearest lighter face and
+ * bold requests the nearest heavier one, so the preview and the export pick the same file.
+ */
+export function pickFontFace(font: FontDefinition, weight: number): FontFaceFile {
+  const prefersHeavier = weight >= TEXT_LAYER_BOLD_WEIGHT;
+  return font.faces.reduce((best, face) => {
+    const distance = Math.abs(face.weight - weight);
+    const bestDistance = Math.abs(best.weight - weight);
+    if (distance !== bestDistance) {
+      return distance < bestDistance ? face : best;
+    }
+    return (face.weight > best.weight) === prefersHeavier ? face : best;
+  });
+}
+
+const registeredFaces = new Set<string>();
+
+/**
+ * Adds every face to `document.fonts` (once) and resolves when they have loaded, so canvas measurement afterwards uses
+ * the real metrics. Uploaded fonts cover the whole weight range because they ship a single face and the export has no
+ * way to embolden it.
+ */
+export async function registerFontFaces(fonts: readonly FontDefinition[]): Promise<void> {
+  const pending: Promise<unknown>[] = [];
+  fonts.forEach((font) => {
+    font.faces.forEach((face) => {
+      const key = `${font.family}:${face.weight}`;
+      if (registeredFaces.has(key)) {
+        return;
+      }
+      registeredFaces.add(key);
+      const fontFace = new FontFace(font.family, `url(${face.url})`, {
+        weight: font.uploaded ? "1 1000" : String(face.weight),
+        display: "swap",
+      });
+      document.fonts.add(fontFace);
+      pending.push(fontFace.load().catch(() => registeredFaces.delete(key)));
+    });
+  });
+  await Promise.all(pending);
+}
+
+// Subsetting only touches the glyphs drawn, so the probe draws the whole printable ASCII range.
+const PROBE_TEXT = Array.from({ length: 95 }, (_, index) => String.fromCharCode(32 + index)).join("");
+
+function readFileAsDataUrl(file: File, mimeType: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^;]*;/, `data:${mimeType};`));
+    reader.onerror = () => reject(new FontUploadError(`${file.name} could not be read.`));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Validates an uploaded TTF, OTF, WOFF or WOFF2 file and prepares it for the library. The file is test-embedded in a
+ * throwaway PDF first: a font the preview can show but the export cannot embed would break the print match.
+ */
+export async function readUploadedFont(file: File, existing: readonly FontDefinition[]): Promise<UploadedFont> {
+  const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+  if (!FONT_UPLOAD_EXTENSIONS.includes(extension)) {
+    throw new FontUploadError("Upload a TTF, OTF, WOFF or WOFF2 font file.");
+  }
+  if (file.size > FONT_UPLOAD_MAX_BYTES) {
+    throw new FontUploadError(
+      `${file.name} is larger than ${FONT_UPLOAD_MAX_BYTES / (1024 * 1024)} MB — upload a single weight or a subset.`,
+    );
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let familyName: string | null;
+  try {
+    familyName = fontkit.create(bytes).familyName;
+  } catch {
+    throw new FontUploadError(`${file.name} is not a font file Flyleaf can read.`);
+  }
+  try {
+    const probe = await PDFDocument.create();
+    probe.registerFontkit(fontkit);
+    const font = await probe.embedFont(bytes, { subset: true });
+    probe.addPage().drawText(PROBE_TEXT, { font, size: 12 });
+    await probe.save();
+  } catch {
+    throw new FontUploadError(`${file.name} cannot be embedded in PDF exports — try the TTF or OTF version.`);
+  }
+
+  // Quotes and commas would break the CSS font-family value the name ends up in.
+  const label = (familyName?.trim() || file.name.slice(0, file.name.lastIndexOf("."))).replace(/['",\\]/g, "");
+  // Uploaded families get their own name so they never shadow a bundled font or an earlier upload.
+  let family = `${label} (uploaded)`;
+  for (let copy = 2; existing.some((font) => font.family === family); copy += 1) {
+    family = `${label} (uploaded ${copy})`;
+  }
+  return { label, family, fileName: file.name, dataUrl: await readFileAsDataUrl(file, FONT_MIME_TYPES[extension]) };
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  computeArtworkBounds,
+  computeOffsetLimits,
+  computeStackLayout,
+  DEFAULT_PRINT_MARGINS,
+  NO_PRINT_MARGINS,
+  resolveStackSpacing,
+  TABLOID_SHEET,
+  type BookFormState,
+} from "./geometry";
+import { DEFAULT_PRODUCTION_PROFILE } from "./production-profiles";
+import { createSpineText } from "./spine-text";
+
+function makeBook(id: number, overrides: Partial<BookFormState> = {}): BookFormState {
+  return {
+    id,
+    label: `Book ${id}`,
+    heightCm: 24,
+    spineWidthCm: 3,
+    coverWidthCm: 15,
+    flapWidthCm: 0,
+    color: "#2563eb",
+    isbn: null,
+    verticalOffsetMm: 0,
+    spineText: createSpineText(),
+    ...overrides,
+  };
+}
+
+describe("resolveStackSpacing", () => {
+  it("keeps the profile's gap and clearances under the default bleed", () => {
+    expect(resolveStackSpacing(DEFAULT_PRINT_MARGINS)).toEqual({ gapMm: 2, sideMm: 10, topMm: 2, bottomMm: 2 });
+    expect(resolveStackSpacing(NO_PRINT_MARGINS)).toEqual({ gapMm: 2, sideMm: 10, topMm: 2, bottomMm: 2 });
+  });
+
+  it("widens the gap and clearances to fit a larger bleed", () => {
+    const margins = { ...DEFAULT_PRINT_MARGINS, bleedMm: { top: 3, right: 4, bottom: 1, left: 4 } };
+    expect(resolveStackSpacing(margins, DEFAULT_PRODUCTION_PROFILE)).toEqual({
+      gapMm: 8,
+      sideMm: 10,
+      topMm: 3,
+      bottomMm: 3,
+    });
+  });
+});
+
+describe("computeStackLayout", () => {
+  it("places spines left to right from the side clearance", () => {
+    const { rects, metrics } = computeStackLayout([makeBook(1), makeBook(2, { spineWidthCm: 2 })]);
+    expect(rects.map((rect) => [rect.xMm, rect.widthMm])).toEqual([
+      [10, 30],
+      [42, 20],
+    ]);
+    expect(metrics.totalWidthMm).toBe(52);
+    expect(metrics.requiredWidthMm).toBe(72);
+    expect(metrics.requiredHeightMm).toBe(244);
+  });
+
+  it("lines mixed heights up on the chosen edge", () => {
+    const books = [makeBook(1, { heightCm: 20 }), makeBook(2)];
+    const tops = (alignment: "top" | "center" | "bottom") =>
+      computeStackLayout(books, TABLOID_SHEET, "spines", DEFAULT_PRINT_MARGINS, DEFAULT_PRODUCTION_PROFILE, alignment)
+        .rects.map((rect) => rect.yMm);
+    expect(tops("bottom")).toEqual([42, 2]);
+    expect(tops("center")).toEqual([22, 2]);
+    expect(tops("top")).toEqual([2, 2]);
+  });
+
+  it("moves books by their offsets and measures the stack from the outermost edges", () => {
+    const books = [makeBook(1, { heightCm: 20 }), makeBook(2, { verticalOffsetMm: -5 })];
+    const { rects, metrics } = computeStackLayout(books);
+    expect(rects.map((rect) => rect.yMm)).toEqual([47, 2]);
+    expect(metrics.stackHeightMm).toBe(245);
+    expect(metrics.maxHeightMm).toBe(240);
+  });
+
+  it("lays jackets out as panels and keeps the spines-only shelf", () => {
+    const layout = computeStackLayout([makeBook(1, { flapWidthCm: 8 })], TABLOID_SHEET, "jacket");
+    expect(layout.rects[0].panels.map((panel) => [panel.kind, panel.widthMm])).toEqual([
+      ["backFlap", 80],
+      ["backCover", 150],
+      ["spine", 30],
+      ["frontCover", 150],
+      ["frontFlap", 80],
+    ]);
+    expect(layout.rects[0].shelfXMm).toBe(10);
+    expect(layout.shelf.rects[0].widthMm).toBe(30);
+  });
+
+  it("tiles a wide stack across sheets at spine boundaries", () => {
+    const books = Array.from({ length: 13 }, (_, index) => makeBook(index + 1));
+    const { metrics, sheets } = computeStackLayout(books);
+    expect(metrics.fitsOnSheet).toBe(false);
+    expect(metrics.sheetCount).toBe(2);
+    expect(metrics.fitsTiledSheets).toBe(true);
+    expect(sheets.map((tile) => tile.rects.length)).toEqual([12, 1]);
+    expect(sheets[1].shiftXMm).toBe(384);
+    expect(sheets[1].rects[0].xMm).toBe(10);
+    expect(sheets[1].metrics.stackHeightMm).toBe(metrics.stackHeightMm);
+  });
+
+  it("gives a book wider than the paper a sheet of its own and flags it", () => {
+    const books = [makeBook(1), makeBook(2, { spineWidthCm: 45 })];
+    const { sheets, metrics } = computeStackLayout(books);
+    expect(sheets.map((tile) => tile.fitsSheet)).toEqual([true, false]);
+    expect(metrics.fitsTiledSheets).toBe(false);
+  });
+});
+
+describe("computeArtworkBounds and computeOffsetLimits", () => {
+  const { metrics } = computeStackLayout([makeBook(1), makeBook(2)]);
+  const artwork = { widthMm: metrics.requiredWidthMm, heightMm: metrics.requiredHeightMm };
+
+  it("needs no extra zoom for artwork the size of the safe area", () => {
+    const bounds = computeArtworkBounds(metrics, artwork);
+    expect(bounds.safeWidthMm).toBe(metrics.requiredWidthMm);
+    expect(bounds.minZoom).toBeCloseTo(1);
+    const limits = computeOffsetLimits(bounds, artwork, bounds.minZoom);
+    expect(limits.maxX).toBeCloseTo(0);
+    expect(limits.maxY).toBeCloseTo(0);
+  });
+
+  it("raises the minimum zoom when the artwork is turned", () => {
+    expect(computeArtworkBounds(metrics, artwork, 10).minZoom).toBeGreaterThan(1);
+  });
+
+  it("allows half the extra size either way once zoomed in", () => {
+    const bounds = computeArtworkBounds(metrics, artwork);
+    const limits = computeOffsetLimits(bounds, artwork, 1.5);
+    expect(limits.maxX).toBeCloseTo(artwork.widthMm / 4);
+    expect(limits.minX).toBeCloseTo(-artwork.widthMm / 4);
+    expect(limits.maxY).toBeCloseTo(artwork.heightMm / 4);
+  });
+
+  it("keeps the offsets inside the room a turned artwork leaves", () => {
+    const bounds = computeArtworkBounds(metrics, artwork, 30);
+    const limits = computeOffsetLimits(bounds, artwork, bounds.minZoom * 1.2);
+    expect(limits.maxX).toBeGreaterThan(0);
+    expect(limits.maxY).toBeGreaterThan(0);
+    const artWidthMm = artwork.widthMm * bounds.minZoom * 1.2;
+    const cos = Math.cos(Math.PI / 6);
+    const sin = Math.sin(Math.PI / 6);
+    expect(limits.maxX * cos + limits.maxY * sin).toBeLessThanOrEqual(
+      (artWidthMm - (bounds.safeWidthMm * cos + bounds.safeHeightMm * sin)) / 2 + 1e-9,
+    );
+  });
+});
@@ -0,0 +1,483 @@
+import { DEFAULT_PRODUCTION_PROFILE, type ProductionProfile } from "./production-profiles";
+import type { SpineText } from "./spine-text";
+
+export type BookFormState = {
+  id: number;
+  label: string;
+  heightCm: number;
+  spineWidthCm: number;
+  coverWidthCm: number;
+  flapWidthCm: number;
+  color: string;
+  /** ISBN-13 of the edition, when known, so exports and catalogue lookups can refer back to it. */
+  isbn: string | null;
+  /**
+   * Moves the book down (positive) or up (negative) from where the stack alignment puts it, in millimetres, for
+   * editions that stand on a plinth or hang from a rail.
+   */
+  verticalOffsetMm: number;
+  spineText: SpineText;
+};
+
+export type LayoutMode = "spines" | "jacket";
+
+/** Which edge books of different heights line up on: their tops, their bottoms (the shelf) or their centres. */
+export type StackAlignment = "top" | "center" | "bottom";
+
+export type JacketPanelKind = "backFlap" | "backCover" | "spine" | "frontCover" | "frontFlap";
+
+export type JacketPanel = {
+  kind: JacketPanelKind;
+  xMm: number;
+  widthMm: number;
+};
+
+/**
+ * A book's printed footprint. In spines mode it is just the spine; in jacket mode it spans the whole jacket and
+ * `panels` holds each fold-delimited panel. `shelfXMm` is where the spine sits when the books stand side by side on
+ * the shelf, which is the coordinate space shared artwork and stack-wide text layers are designed in.
+ */
+export type BookRect = {
+  id: number;
+  label: string;
+  widthMm: number;
+  heightMm: number;
+  xMm: number;
+  yMm: number;
+  color: string;
+  panels: JacketPanel[];
+  shelfXMm: number;
+};
+
+/** How far artwork and colour run past each trim line, so a slightly misaligned cut never shows bare paper. */
+export type BleedMm = {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+};
+
+/** The bleed beyond every book's trim, and the inset inside it that text keeps clear of. */
+export type PrintMargins = {
+  bleedMm: BleedMm;
+  safeMarginMm: number;
+};
+
+/**
+ * The room a stack is laid out with: `gapMm` between footprints and the clearances around the stack, each grown past
+ * the production profile's minimum when the bleed needs more so neighbouring bleeds never overlap.
+ */
+export type StackSpacing = {
+  gapMm: number;
+  sideMm: number;
+  topMm: number;
+  bottomMm: number;
+};
+
+export type StackMetrics = {
+  totalWidthMm: number;
+  maxHeightMm: number;
+  minHeightMm: number;
+  /** From the highest top edge to the lowest bottom edge once books are aligned and offset. */
+  stackHeightMm: number;
+  requiredWidthMm: number;
+  requiredHeightMm: number;
+  collectionWidthCm: number;
+  fitsOnSheet: boolean;
+  sheetCount: number;
+  fitsTiledSheets: boolean;
+  margins: PrintMargins;
+  spacing: StackSpacing;
+  /** The rules the stack was laid out under. */
+  production: ProductionProfile;
+};
+
+/**
+ * One printable sheet of a tiled stack. `rects` and `metrics` are sheet-local; `shiftXMm` is how far the sheet's
+ * left edge sits from the left edge of the full stack, so shared artwork and text can be offset to continue
+ * seamlessly from one sheet to the next.
+ */
+export type SheetTile = {
+  index: number;
+  metrics: StackMetrics;
+  rects: BookRect[];
+  shiftXMm: number;
+  fitsSheet: boolean;
+};
+
+export type StackGeometry = {
+  metrics: StackMetrics;
+  rects: BookRect[];
+};
+
+/**
+ * `metrics`, `rects` and `sheets` describe what gets printed. `shelf` is the spines-only arrangement of the same
+ * books; in spines mode the two are identical.
+ */
+export type StackLayout = StackGeometry & {
+  mode: LayoutMode;
+  sheets: SheetTile[];
+  shelf: StackGeometry;
+};
+
+export type SheetSizeMm = {
+  widthMm: number;
+  heightMm: number;
+};
+
+export type ArtworkDimensionsMm = {
+  widthMm: number;
+  heightMm: number;
+};
+
+export const CM_TO_MM = 10;
+export const MM_PER_INCH = 25.4;
+export const DEFAULT_STACK_ALIGNMENT: StackAlignment = "bottom";
+export const STACK_ALIGNMENTS: { value: StackAlignment; label: string }[] = [
+  { value: "top", label: "Top" },
+  { value: "center", label: "Centre" },
+  { value: "bottom", label: "Bottom" },
+];
+export const MAX_BOOK_OFFSET_MM = 50;
+/**
+ * Half the standard profile's gap, the most bleed neighbouring spines can share without widening the gap or
+ * clearances; more is available per design and widens them to fit.
+ */
+export const DEFAULT_BLEED_MM = DEFAULT_PRODUCTION_PROFILE.gapMm / 2;
+export const MAX_BLEED_MM = 10;
+export const DEFAULT_SAFE_MARGIN_MM = 3;
+export const MAX_SAFE_MARGIN_MM = 10;
+export const DEFAULT_PRINT_MARGINS: PrintMargins = {
+  bleedMm: { top: DEFAULT_BLEED_MM, right: DEFAULT_BLEED_MM, bottom: DEFAULT_BLEED_MM, left: DEFAULT_BLEED_MM },
+  safeMarginMm: DEFAULT_SAFE_MARGIN_MM,
+};
+/** Layouts from before bleed existed: trims only, no inset for text. */
+export const NO_PRINT_MARGINS: PrintMargins = {
+  bleedMm: { top: 0, right: 0, bottom: 0, left: 0 },
+  safeMarginMm: 0,
+};
+export const TABLOID_WIDTH_MM = 17 * MM_PER_INCH;
+export const TABLOID_HEIGHT_MM = 11 * MM_PER_INCH;
+export const TABLOID_SHEET: SheetSizeMm = { widthMm: TABLOID_WIDTH_MM, heightMm: TABLOID_HEIGHT_MM };
+export const JACKET_PANEL_ORDER: JacketPanelKind[] = ["backFlap", "backCover", "spine", "frontCover", "frontFlap"];
+export const JACKET_PANEL_LABELS: Record<JacketPanelKind, string> = {
+  backFlap: "Back flap",
+  backCover: "Back cover",
+  spine: "Spine",
+  frontCover: "Front cover",
+  frontFlap: "Front flap",
+};
+
+/**
+ * Converts a numeric value in centimetres to millimetres so geometry rules can share a consistent unit.
+ */
+export function cmToMm(valueCm: number): number {
+  return valueCm * CM_TO_MM;
+}
+
+/**
+ * Converts millimetres back to the centimetres book inputs are stored in, rounded to a micron so values typed in
+ * other units do not pick up floating-point noise.
+ */
+export function mmToCm(valueMm: number): number {
+  return Number((valueMm / CM_TO_MM).toFixed(4));
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * The gap and clearances for `margins` under `profile`. Top and bottom clearances grow by the same bleed so a
+ * profile with equal clearances keeps the stack centred on the sheet.
+ */
+export function resolveStackSpacing(
+  margins: PrintMargins,
+  profile: ProductionProfile = DEFAULT_PRODUCTION_PROFILE,
+): StackSpacing {
+  const { bleedMm } = margins;
+  const verticalBleedMm = Math.max(bleedMm.top, bleedMm.bottom);
+  return {
+    gapMm: Math.max(profile.gapMm, bleedMm.left + bleedMm.right),
+    sideMm: Math.max(profile.clearanceSideMm, bleedMm.left, bleedMm.right),
+    topMm: Math.max(profile.clearanceTopMm, verticalBleedMm),
+    bottomMm: Math.max(profile.clearanceBottomMm, verticalBleedMm),
+  };
+}
+
+function measureRects(rects: BookRect[], gapMm: number) {
+  const heightsMm = rects.map((rect) => rect.heightMm);
+  const totalWidthMm = rects.reduce((acc, rect, index) => acc + rect.widthMm + (index === 0 ? 0 : gapMm), 0);
+  return {
+    totalWidthMm,
+    minHeightMm: heightsMm.length ? Math.min(...heightsMm) : 0,
+  };
+}
+
+/**
+ * Splits a stack into sheets at spine boundaries, never cutting through a book. Books are added greedily while the
+ * sheet (books, gaps and side clearances) still fits the paper width; a single book wider than the paper gets a sheet
+ * of its own and is flagged. Every sheet keeps the full stack height so the artwork lines up vertically.
+ */
+export function computeSheetTiles(
+  rects: BookRect[],
+  metrics: Omit<StackMetrics, "sheetCount" | "fitsTiledSheets">,
+  sheet: SheetSizeMm,
+): SheetTile[] {
+  const { spacing } = metrics;
+  const groups: BookRect[][] = [];
+  rects.forEach((rect) => {
+    const current = groups[groups.length - 1];
+    if (current) {
+      const candidateWidthMm = measureRects([...current, rect], spacing.gapMm).totalWidthMm + spacing.sideMm * 2;
+      if (candidateWidthMm <= sheet.widthMm) {
+        current.push(rect);
+        return;
+      }
+    }
+    groups.push([rect]);
+  });
+
+  return groups.map((group, index) => {
+    const shiftXMm = group[0].xMm - spacing.sideMm;
+    const { totalWidthMm, minHeightMm } = measureRects(group, spacing.gapMm);
+    const requiredWidthMm = totalWidthMm + spacing.sideMm * 2;
+    const fitsSheet = requiredWidthMm <= sheet.widthMm && metrics.requiredHeightMm <= sheet.heightMm;
+    return {
+      index,
+      rects: group.map((rect) => ({
+        ...rect,
+        xMm: rect.xMm - shiftXMm,
+        panels: rect.panels.map((panel) => ({ ...panel, xMm: panel.xMm - shiftXMm })),
+      })),
+      shiftXMm,
+      fitsSheet,
+      metrics: {
+        totalWidthMm,
+        maxHeightMm: metrics.maxHeightMm,
+        minHeightMm,
+        stackHeightMm: metrics.stackHeightMm,
+        requiredWidthMm,
+        requiredHeightMm: metrics.requiredHeightMm,
+        collectionWidthCm: totalWidthMm / CM_TO_MM,
+        fitsOnSheet: fitsSheet,
+        sheetCount: 1,
+        fitsTiledSheets: fitsSheet,
+        margins: metrics.margins,
+        spacing,
+        production: metrics.production,
+      },
+    };
+  });
+}
+
+function panelWidthsMm(book: BookFormState): Record<JacketPanelKind, number> {
+  const coverMm = cmToMm(book.coverWidthCm);
+  const flapMm = cmToMm(book.flapWidthCm);
+  return {
+    backFlap: flapMm,
+    backCover: coverMm,
+    spine: cmToMm(book.spineWidthCm),
+    frontCover: coverMm,
+    frontFlap: flapMm,
+  };
+}
+
+/**
+ * Each book's top edge below the top of the stack: lined up on `alignment` against the tallest book, moved by its own
+ * offset, then shifted together so the highest top edge sits at zero.
+ */
+function alignBookTops(books: BookFormState[], alignment: StackAlignment): number[] {
+  const heightsMm = books.map((book) => cmToMm(book.heightCm));
+  const maxHeightMm = heightsMm.length ? Math.max(...heightsMm) : 0;
+  const slack = alignment === "top" ? 0 : alignment === "center" ? 0.5 : 1;
+  const topsMm = books.map((book, index) => (maxHeightMm - heightsMm[index]) * slack + book.verticalOffsetMm);
+  const highestMm = topsMm.length ? Math.min(...topsMm) : 0;
+  return topsMm.map((topMm) => topMm - highestMm);
+}
+
+/**
+ * Places books left to right from the side clearance with the same gap between footprints, at the top edges
+ * `alignBookTops` worked out. Each footprint is either the spine alone or the full jacket, split into panels at its
+ * fold lines.
+ */
+function placeBooks(
+  books: BookFormState[],
+  mode: LayoutMode,
+  topsMm: number[],
+  shelfXMm: number[],
+  spacing: StackSpacing,
+): BookRect[] {
+  const rects: BookRect[] = [];
+  let cursorMm = spacing.sideMm;
+  books.forEach((book, index) => {
+    const widths = panelWidthsMm(book);
+    const kinds: JacketPanelKind[] = mode === "jacket" ? JACKET_PANEL_ORDER : ["spine"];
+    const heightMm = cmToMm(book.heightCm);
+    if (index > 0) {
+      cursorMm += spacing.gapMm;
+    }
+    const xMm = cursorMm;
+    const panels = kinds.map((kind) => {
+      const panel = { kind, xMm: cursorMm, widthMm: widths[kind] };
+      cursorMm += widths[kind];
+      return panel;
+    });
+    rects.push({
+      id: book.id,
+      label: book.label,
+      widthMm: cursorMm - xMm,
+      heightMm,
+      xMm,
+      yMm: spacing.topMm + (topsMm[index] ?? 0),
+      color: book.color,
+      panels,
+      shelfXMm: shelfXMm[index] ?? xMm,
+    });
+  });
+  return rects;
+}
+
+type StackRules = { margins: PrintMargins; spacing: StackSpacing; production: ProductionProfile };
+
+function measureStack(rects: BookRect[], sheet: SheetSizeMm, { margins, spacing, production }: StackRules) {
+  const heightsMm = rects.map((rect) => rect.heightMm);
+  const maxHeightMm = heightsMm.length ? Math.max(...heightsMm) : 0;
+  const { totalWidthMm, minHeightMm } = measureRects(rects, spacing.gapMm);
+  const stackHeightMm = rects.length ? Math.max(...rects.map((rect) => rect.yMm + rect.heightMm)) - spacing.topMm : 0;
+  const requiredWidthMm = totalWidthMm + spacing.sideMm * 2;
+  const requiredHeightMm = stackHeightMm + spacing.topMm + spacing.bottomMm;
+  return {
+    totalWidthMm,
+    maxHeightMm,
+    minHeightMm,
+    stackHeightMm,
+    requiredWidthMm,
+    requiredHeightMm,
+    collectionWidthCm: totalWidthMm / CM_TO_MM,
+    fitsOnSheet: requiredWidthMm <= sheet.widthMm && requiredHeightMm <= sheet.heightMm,
+    margins,
+    spacing,
+    production,
+  };
+}
+
+function withTiles(rects: BookRect[], sheet: SheetSizeMm, rules: StackRules) {
+  const baseMetrics = measureStack(rects, sheet, rules);
+  const sheets = computeSheetTiles(rects, baseMetrics, sheet);
+  return {
+    metrics: {
+      ...baseMetrics,
+      sheetCount: sheets.length,
+      fitsTiledSheets: sheets.length > 0 && sheets.every((tile) => tile.fitsSheet),
+    },
+    rects,
+    sheets,
+  };
+}
+
+/**
+ * Calculates stack metrics and per-book rectangles for the preview canvas while enforcing the production profile's
+ * gap and clearances, widened where `margins` asks for more bleed. Fit checks run against the selected paper; stacks
+ * wider than it are tiled across several sheets (see `computeSheetTiles`). In jacket mode the printed layout holds
+ * full jackets while `shelf` keeps the spines-only arrangement the shared artwork is positioned against. Mixed heights
+ * line up on `alignment`, and the clearances are measured from the highest and lowest book edges after offsets.
+ */
+export function computeStackLayout(
+  books: BookFormState[],
+  sheet: SheetSizeMm = TABLOID_SHEET,
+  mode: LayoutMode = "spines",
+  margins: PrintMargins = DEFAULT_PRINT_MARGINS,
+  production: ProductionProfile = DEFAULT_PRODUCTION_PROFILE,
+  alignment: StackAlignment = DEFAULT_STACK_ALIGNMENT,
+): StackLayout {
+  const spacing = resolveStackSpacing(margins, production);
+  const rules: StackRules = { margins, spacing, production };
+  const topsMm = alignBookTops(books, alignment);
+  const shelfRects = placeBooks(books, "spines", topsMm, [], spacing);
+  const shelf = withTiles(shelfRects, sheet, rules);
+  if (mode === "spines") {
+    return { mode, ...shelf, shelf: { metrics: shelf.metrics, rects: shelf.rects } };
+  }
+
+  const jacketRects = placeBooks(
+    books,
+    "jacket",
+    topsMm,
+    shelfRects.map((rect) => rect.xMm),
+    spacing,
+  );
+  return { mode, ...withTiles(jacketRects, sheet, rules), shelf: { metrics: shelf.metrics, rects: shelf.rects } };
+}
+
+/** |cos| and |sin| of a clockwise rotation, which is all the bounding-box maths needs. */
+function rotationExtents(rotationDeg: number) {
+  const radians = (rotationDeg * Math.PI) / 180;
+  return { cos: Math.abs(Math.cos(radians)), sin: Math.abs(Math.sin(radians)) };
+}
+
+/**
+ * The safe area the artwork must cover and the smallest zoom that covers it: the stack plus its clearances, which are
+ * never less than the bleed. `artworkDimensions` is the (cropped) artwork before rotation; a rotated rectangle covers the
+ * safe area only if it is at least as large as the safe area's bounding box in the artwork's own axes, so turning the
+ * artwork raises the minimum zoom.
+ */
+export function computeArtworkBounds(
+  metrics: StackMetrics,
+  artworkDimensions: ArtworkDimensionsMm,
+  rotationDeg = 0,
+) {
+  const { spacing } = metrics;
+  const safeWidthMm = metrics.totalWidthMm + spacing.sideMm * 2;
+  const safeHeightMm = metrics.stackHeightMm + spacing.topMm + spacing.bottomMm;
+  const fallbackWidthMm = metrics.requiredWidthMm || safeWidthMm;
+  const fallbackHeightMm = metrics.requiredHeightMm || safeHeightMm;
+  const baseWidthMm = artworkDimensions.widthMm || fallbackWidthMm;
+  const baseHeightMm = artworkDimensions.heightMm || fallbackHeightMm;
+  const { cos, sin } = rotationExtents(rotationDeg);
+  const coveredWidthMm = safeWidthMm * cos + safeHeightMm * sin;
+  const coveredHeightMm = safeWidthMm * sin + safeHeightMm * cos;
+  const minZoomRaw = Math.max(coveredWidthMm / baseWidthMm, coveredHeightMm / baseHeightMm);
+  const minZoom = Number.isFinite(minZoomRaw) && minZoomRaw > 0 ? minZoomRaw : 1;
+
+  return {
+    safeWidthMm,
+    safeHeightMm,
+    containerWidthMm: metrics.requiredWidthMm,
+    containerHeightMm: metrics.requiredHeightMm,
+    rotationDeg,
+    minZoom,
+  } as const;
+}
+
+export type ArtworkBounds = ReturnType<typeof computeArtworkBounds>;
+
+/**
+ * How far the artwork centre may move while it still covers the safe area. Rotated artwork has room along its own
+ * axes; the limits are the largest axis-aligned box inside that room, so the two sliders stay independent.
+ */
+export function computeOffsetLimits(bounds: ArtworkBounds, artworkDimensions: ArtworkDimensionsMm, zoom: number) {
+  const baseWidthMm = artworkDimensions.widthMm || bounds.safeWidthMm;
+  const baseHeightMm = artworkDimensions.heightMm || bounds.safeHeightMm;
+  const artWidthMm = baseWidthMm * zoom;
+  const artHeightMm = baseHeightMm * zoom;
+  const { cos, sin } = rotationExtents(bounds.rotationDeg);
+  const roomAlongWidthMm = Math.max((artWidthMm - (bounds.safeWidthMm * cos + bounds.safeHeightMm * sin)) / 2, 0);
+  const roomAlongHeightMm = Math.max((artHeightMm - (bounds.safeWidthMm * sin + bounds.safeHeightMm * cos)) / 2, 0);
+  // Solve x·cos + y·sin = room along the width and x·sin + y·cos = room along the height; near 45° (or when that
+  // leaves one axis without room) fall back to the largest square.
+  const determinant = cos * cos - sin * sin;
+  let horizontalRoomMm = (roomAlongWidthMm * cos - roomAlongHeightMm * sin) / determinant;
+  let verticalRoomMm = (roomAlongHeightMm * cos - roomAlongWidthMm * sin) / determinant;
+  if (Math.abs(determinant) < 1e-6 || horizontalRoomMm < 0 || verticalRoomMm < 0) {
+    horizontalRoomMm = Math.min(roomAlongWidthMm, roomAlongHeightMm) / (cos + sin);
+    verticalRoomMm = horizontalRoomMm;
+  }
+
+  return {
+    minX: -horizontalRoomMm,
+    maxX: horizontalRoomMm,
+    minY: -verticalRoomMm,
+    maxY: verticalRoomMm,
+  } as const;
+}
@@ -0,0 +1,92 @@
+export type HistoryEntry<T> = {
+  id: number;
+  label: string;
+  snapshot: T;
+  coalesceKey: string | null;
+  recordedAt: number;
+};
+
+/**
+ * Linear undo stack: `past` ends with the step before `present`, `future` starts with the step after it.
+ */
+export type HistoryState<T> = {
+  past: HistoryEntry<T>[];
+  present: HistoryEntry<T>;
+  future: HistoryEntry<T>[];
+  nextId: number;
+};
+
+/** Consecutive edits with the same coalesce key closer together than this become one step (e.g. a slider drag). */
+export const HISTORY_COALESCE_WINDOW_MS = 1000;
+export const HISTORY_LIMIT = 100;
+
+export function createHistory<T>(snapshot: T, label: string): HistoryState<T> {
+  return {
+    past: [],
+    present: { id: 0, label, snapshot, coalesceKey: null, recordedAt: 0 },
+    future: [],
+    nextId: 1,
+  };
+}
+
+/**
+ * Records a user edit. Repeated edits to the same control merge into the current step while they keep arriving
+ * within the coalesce window; anything else starts a new step and discards the redo branch.
+ */
+export function recordHistory<T>(
+  history: HistoryState<T>,
+  snapshot: T,
+  label: string,
+  coalesceKey: string | null,
+  now: number,
+): HistoryState<T> {
+  const { present } = history;
+  if (
+    coalesceKey !== null &&
+    present.coalesceKey === coalesceKey &&
+    history.future.length === 0 &&
+    now - present.recordedAt <= HISTORY_COALESCE_WINDOW_MS
+  ) {
+    return { ...history, present: { ...present, snapshot, recordedAt: now } };
+  }
+  return {
+    past: [...history.past, present].slice(-HISTORY_LIMIT),
+    present: { id: history.nextId, label, snapshot, coalesceKey, recordedAt: now },
+    future: [],
+    nextId: history.nextId + 1,
+  };
+}
+
+/**
+ * Folds a change that was not a user edit (for example zoom clamped after new artwork loaded) into the current step,
+ * so undo never lands on an intermediate state the user did not create.
+ */
+export function amendHistory<T>(history: HistoryState<T>, snapshot: T): HistoryState<T> {
+  return { ...history, present: { ...history.present, snapshot } };
+}
+
+/**
+ * Moves to any entry in the combined `past`/`present`/`future` list; `index` counts from the oldest step.
+ */
+export function jumpToHistory<T>(history: HistoryState<T>, index: number): HistoryState<T> {
+  const entries = [...history.past, history.present, ...history.future];
+  if (index < 0 || index >= entries.length || index === history.past.length) {
+    return history;
+  }
+  // Jumped-to entries never coalesce with the next edit, even if it touches the same control.
+  const present = { ...entries[index], coalesceKey: null };
+  return {
+    past: entries.slice(0, index),
+    present,
+    future: entries.slice(index + 1),
+    nextId: history.nextId,
+  };
+}
+
+export function undoHistory<T>(history: HistoryState<T>): HistoryState<T> {
+  return jumpToHistory(history, history.past.length - 1);
+}
+
+export function redoHistory<T>(history: HistoryState<T>): HistoryState<T> {
+  return jumpToHistory(history, history.past.length + 1);
+}
@@ -0,0 +1,73 @@
+import { MM_PER_INCH, type SheetSizeMm } from "./geometry";
+
+export type PaperOrientation = "landscape" | "portrait";
+
+/**
+ * A sheet or roll the print partners can run. Dimensions are stored short edge × long edge; rolls store the roll
+ * width as the short edge and the longest length the partner will cut as the long edge.
+ */
+export type PaperSize = {
+  id: string;
+  label: string;
+  shortEdgeMm: number;
+  longEdgeMm: number;
+  kind: "sheet" | "roll";
+  custom?: boolean;
+};
+
+export type ResolvedSheet = SheetSizeMm & {
+  paper: PaperSize;
+  orientation: PaperOrientation;
+};
+
+export const PAPER_SIZES: PaperSize[] = [
+  { id: "tabloid", label: "11×17 in", shortEdgeMm: 11 * MM_PER_INCH, longEdgeMm: 17 * MM_PER_INCH, kind: "sheet" },
+  { id: "arch-b", label: "12×18 in", shortEdgeMm: 12 * MM_PER_INCH, longEdgeMm: 18 * MM_PER_INCH, kind: "sheet" },
+  { id: "a3", label: "A3", shortEdgeMm: 297, longEdgeMm: 420, kind: "sheet" },
+  { id: "a3-plus", label: "A3+", shortEdgeMm: 329, longEdgeMm: 483, kind: "sheet" },
+  { id: "sra3", label: "SRA3", shortEdgeMm: 320, longEdgeMm: 450, kind: "sheet" },
+  { id: "roll-24in", label: "24 in roll", shortEdgeMm: 24 * MM_PER_INCH, longEdgeMm: 3000, kind: "roll" },
+  { id: "roll-36in", label: "36 in roll", shortEdgeMm: 36 * MM_PER_INCH, longEdgeMm: 3000, kind: "roll" },
+];
+
+export const DEFAULT_PAPER_ID = "tabloid";
+
+export function findPaperSize(papers: PaperSize[], id: string): PaperSize {
+  return papers.find((paper) => paper.id === id) ?? PAPER_SIZES[0];
+}
+
+/**
+ * Turns a catalogue entry into the sheet the layout engine fits against. Rolls always run landscape: the stack is laid
+ * along the roll's length and its height has to fit within the roll width.
+ */
+export function resolveSheet(paper: PaperSize, orientation: PaperOrientation): ResolvedSheet {
+  const effectiveOrientation = paper.kind === "roll" ? "landscape" : orientation;
+  return {
+    paper,
+    orientation: effectiveOrientation,
+    widthMm: effectiveOrientation === "landscape" ? paper.longEdgeMm : paper.shortEdgeMm,
+    heightMm: effectiveOrientation === "landscape" ? paper.shortEdgeMm : paper.longEdgeMm,
+  };
+}
+
+export function describeSheet(sheet: ResolvedSheet): string {
+  if (sheet.paper.kind === "roll") {
+    return sheet.paper.label;
+  }
+  return `${sheet.paper.label} ${sheet.orientation}`;
+}
+
+/**
+ * Builds a user-defined paper size, normalising the edges so orientation can be applied like any catalogue entry.
+ */
+export function createCustomPaperSize(label: string, widthMm: number, heightMm: number): PaperSize {
+  const trimmed = label.trim() || `${Math.round(widthMm)}×${Math.round(heightMm)} mm`;
+  return {
+    id: `custom-${Date.now().toString(36)}`,
+    label: trimmed,
+    shortEdgeMm: Math.min(widthMm, heightMm),
+    longEdgeMm: Math.max(widthMm, heightMm),
+    kind: "sheet",
+    custom: true,
+  };
+}
@@ -0,0 +1,809 @@
+import fontkit from "@pdf-lib/fontkit";
+import {
+  BlendMode,
+  PDFDocument,
+  PDFFont,
+  PDFName,
+  PDFPage,
+  PDFRef,
+  PDFString,
+  StandardFonts,
+  clip,
+  cmyk,
+  concatTransformationMatrix,
+  degrees,
+  drawObject,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle,
+  rgb,
+  setGraphicsState,
+  setCharacterSpacing,
+  setLineWidth,
+  setStrokingColor,
+  setTextRenderingMode,
+  TextRenderingMode,
+  type Color,
+} from "pdf-lib";
+
+import {
+  overlayDimensionsMm,
+  overlaySpines,
+  resolveOverlayPlacements,
+  type ArtworkBlendMode,
+  type ArtworkOverlay,
+  type OverlayPlacement,
+} from "./artwork-layers";
+import type { ArtworkOrientation } from "./artwork-transform";
+import { parseHexColor, separateColor, separatePixels, type CmykPixels, type PrintProfile } from "./color-proof";
+import { findFontDefinition, pickFontFace, type FontDefinition, type FontFaceFile } from "./fonts";
+import {
+  MM_PER_INCH,
+  type ArtworkDimensionsMm,
+  type StackGeometry,
+  type StackLayout,
+} from "./geometry";
+import type { ResolvedSheet } from "./paper-sizes";
+import { extendToBleed } from "./print-zones";
+import { MARK_DASH_MM, MARK_STROKE_MM, computeProductionMarks } from "./production-marks";
+import { composeSpineLine, fitSpineText, type SpineText, type TextMeasure } from "./spine-text";
+import {
+  TEXT_LAYER_BOLD_WEIGHT,
+  layoutTextLayer,
+  resolveTextLayerBoxes,
+  textLayerCentreMm,
+  type TextLayer,
+  type TextLayerBox,
+} from "./text-layers";
+import { findShelfGutters, type Gutter } from "./text-gutters";
+import { fitTextLayerSize } from "./text-validation";
+
+export type ExportPageSize = "sheet" | "stack";
+
+/** Encoded PNG or JPEG bytes, or pixels already separated for a CMYK export. */
+export type ArtworkImageData =
+  | {
+      bytes: Uint8Array;
+      format: "png" | "jpg";
+    }
+  | {
+      pixels: CmykPixels;
+      format: "cmyk";
+    };
+
+/** `dimensionsMm` is the uncropped image's natural size; the crop, flips and rotation come from `orientation`. */
+export type ArtworkPlacement = {
+  image: ArtworkImageData;
+  dimensionsMm: ArtworkDimensionsMm;
+  offsetMm: { x: number; y: number };
+  zoom: number;
+  orientation: ArtworkOrientation;
+  opacity: number;
+  blendMode: ArtworkBlendMode;
+};
+
+export type OverlayImage = {
+  overlay: ArtworkOverlay;
+  image: ArtworkImageData;
+};
+
+export type JacketPdfOptions = {
+  layout: StackLayout;
+  artwork: ArtworkPlacement;
+  /** Visible overlays in drawing order, each with its prepared image. */
+  overlays: OverlayImage[];
+  textLayers: TextLayer[];
+  spineTexts: ReadonlyMap<number, SpineText>;
+  /** The designer's font library; text set in one of these families embeds the same file the preview uses. */
+  fonts: readonly FontDefinition[];
+  pageSize: ExportPageSize;
+  sheet: ResolvedSheet;
+  productionMarks: boolean;
+  /** Separates every colour and image for this press; null keeps the design's sRGB colours. */
+  printProfile: PrintProfile | null;
+  title?: string;
+};
+
+const POINTS_PER_MM = 72 / MM_PER_INCH;
+const OUTPUT_INTENT_REGISTRY = "http://www.color.org";
+const RASTER_EXPORT_DPI = 300;
+const MAX_RASTER_EDGE_PX = 8000;
+
+function mmToPt(valueMm: number): number {
+  return valueMm * POINTS_PER_MM;
+}
+
+/**
+ * Resolves the physical page size for one exported sheet. Paper pages are used whenever every tiled sheet fits on
+ * the selected paper (rolls are cut to the sheet's length); otherwise the export falls back to a single page the size
+ * of the whole stack.
+ */
+export function resolveExportPageSizeMm(
+  layout: Pick<StackGeometry, "metrics">,
+  pageSize: ExportPageSize,
+  sheet: ResolvedSheet,
+) {
+  if (pageSize === "sheet" && layout.metrics.fitsTiledSheets) {
+    return {
+      widthMm: sheet.paper.kind === "roll" ? layout.metrics.requiredWidthMm : sheet.widthMm,
+      heightMm: sheet.heightMm,
+    };
+  }
+  return { widthMm: layout.metrics.requiredWidthMm, heightMm: layout.metrics.requiredHeightMm };
+}
+
+function readBlobBytes(blob: Blob): Promise<Uint8Array> {
+  return blob.arrayBuffer().then((buffer) => new Uint8Array(buffer));
+}
+
+function decodeImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.decoding = "async";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("The artwork could not be decoded for export."));
+    image.src = src;
+  });
+}
+
+/**
+ * Draws an image blob onto a canvas at print resolution for the physical size it covers. With `keepNaturalSize`,
+ * bitmaps are never scaled up past their own pixels.
+ */
+async function rasteriseForExport(blob: Blob, placedSizeMm: ArtworkDimensionsMm, keepNaturalSize: boolean) {
+  const objectUrl = URL.createObjectURL(blob);
+  try {
+    const image = await decodeImage(objectUrl);
+    const targetWidthPx = (placedSizeMm.widthMm / MM_PER_INCH) * RASTER_EXPORT_DPI;
+    const targetHeightPx = (placedSizeMm.heightMm / MM_PER_INCH) * RASTER_EXPORT_DPI;
+    const naturalScale =
+      keepNaturalSize && image.naturalWidth > 0 ? image.naturalWidth / Math.max(targetWidthPx, 1) : 1;
+    const scale = Math.min(1, naturalScale, MAX_RASTER_EDGE_PX / Math.max(targetWidthPx, targetHeightPx, 1));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(targetWidthPx * scale));
+    canvas.height = Math.max(1, Math.round(targetHeightPx * scale));
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Your browser could not prepare the artwork for export.");
+    }
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return { canvas, context };
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+}
+
+/**
+ * Fetches artwork bytes for embedding. PNG and JPEG files are embedded untouched; other formats (SVG, WebP, GIF)
+ * are rasterised through a canvas at print resolution for the physical size they cover. With a print profile every
+ * format is rasterised (bitmaps at no more than their own resolution) and separated into CMYK.
+ */
+export async function loadArtworkImage(
+  src: string,
+  placedSizeMm: ArtworkDimensionsMm,
+  printProfile: PrintProfile | null = null,
+): Promise<ArtworkImageData> {
+  const response = await fetch(src);
+  if (!response.ok) {
+    throw new Error(`The artwork could not be loaded (${response.status}).`);
+  }
+  const blob = await response.blob();
+  if (printProfile) {
+    const { canvas, context } = await rasteriseForExport(blob, placedSizeMm, blob.type !== "image/svg+xml");
+    const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+    return { pixels: separatePixels(data, canvas.width, canvas.height, printProfile), format: "cmyk" };
+  }
+  if (blob.type === "image/png") {
+    return { bytes: await readBlobBytes(blob), format: "png" };
+  }
+  if (blob.type === "image/jpeg") {
+    return { bytes: await readBlobBytes(blob), format: "jpg" };
+  }
+
+  const { canvas } = await rasteriseForExport(blob, placedSizeMm, false);
+  const pngBlob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  if (!pngBlob) {
+    throw new Error("Your browser could not prepare the artwork for export.");
+  }
+  return { bytes: await readBlobBytes(pngBlob), format: "png" };
+}
+
+/** Embeds an image once and returns the reference every copy of it draws. CMYK pixels become a DeviceCMYK image. */
+async function embedArtworkImage(pdf: PDFDocument, data: ArtworkImageData): Promise<PDFRef> {
+  if (data.format !== "cmyk") {
+    return (data.format === "png" ? await pdf.embedPng(data.bytes) : await pdf.embedJpg(data.bytes)).ref;
+  }
+  const { pixels } = data;
+  const softMask = pixels.alpha
+    ? pdf.context.register(
+        pdf.context.flateStream(pixels.alpha, {
+          Type: "XObject",
+          Subtype: "Image",
+          Width: pixels.widthPx,
+          Height: pixels.heightPx,
+          BitsPerComponent: 8,
+          ColorSpace: "DeviceGray",
+        }),
+      )
+    : undefined;
+  return pdf.context.register(
+    pdf.context.flateStream(pixels.cmyk, {
+      Type: "XObject",
+      Subtype: "Image",
+      Width: pixels.widthPx,
+      Height: pixels.heightPx,
+      BitsPerComponent: 8,
+      ColorSpace: "DeviceCMYK",
+      SMask: softMask,
+    }),
+  );
+}
+
+/** Tags a CMYK export with the printing condition its colours were separated for. */
+function addOutputIntent(pdf: PDFDocument, profile: PrintProfile) {
+  const intent = pdf.context.obj({
+    Type: "OutputIntent",
+    S: "GTS_PDFX",
+    OutputCondition: PDFString.of(profile.label),
+    OutputConditionIdentifier: PDFString.of(profile.outputCondition),
+    RegistryName: PDFString.of(OUTPUT_INTENT_REGISTRY),
+    Info: PDFString.of(profile.description),
+  });
+  pdf.catalog.set(PDFName.of("OutputIntents"), pdf.context.obj([intent]));
+}
+
+function isSerifFamily(fontFamily: string): boolean {
+  return /\bserif\b/.test(fontFamily.replace(/sans-serif/g, ""));
+}
+
+function sanitiseForFont(font: PDFFont, text: string): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text)
+    .map((character) => (character === "\n" || supported.has(character.codePointAt(0) ?? 0) ? character : "?"))
+    .join("");
+}
+
+/** Measures with the embedded font's own metrics, so export fitting matches what is actually printed. */
+function pdfTextMeasure(font: PDFFont): TextMeasure {
+  return (value, sizeMm) => font.widthOfTextAtSize(sanitiseForFont(font, value), mmToPt(sizeMm)) / POINTS_PER_MM;
+}
+
+/**
+ * Where one sheet of the stack lands on a PDF page. Shared artwork and text are positioned in shelf coordinates and
+ * moved left by `shiftXMm`, so tiled sheets (and, in jacket mode, each spine panel) continue seamlessly.
+ */
+type SheetFrame = {
+  sheet: StackGeometry;
+  sheetLabel?: string;
+  shiftXMm: number;
+  originMm: { x: number; y: number };
+  pageHeightMm: number;
+};
+
+type BoxMm = {
+  leftMm: number;
+  topMm: number;
+  widthMm: number;
+  heightMm: number;
+};
+
+function toPagePoint(frame: SheetFrame, xMm: number, yMm: number) {
+  return {
+    x: mmToPt(frame.originMm.x + xMm),
+    y: mmToPt(frame.pageHeightMm - frame.originMm.y - yMm),
+  };
+}
+
+function sheetBox(frame: SheetFrame): BoxMm {
+  return { leftMm: 0, topMm: 0, widthMm: frame.sheet.metrics.requiredWidthMm, heightMm: frame.sheet.metrics.requiredHeightMm };
+}
+
+function pushClip(page: PDFPage, frame: SheetFrame, box: BoxMm) {
+  const bottomLeft = toPagePoint(frame, box.leftMm, box.topMm + box.heightMm);
+  page.pushOperators(
+    pushGraphicsState(),
+    rectangle(bottomLeft.x, bottomLeft.y, mmToPt(box.widthMm), mmToPt(box.heightMm)),
+    clip(),
+    endPath(),
+  );
+}
+
+const PDF_BLEND_MODES: Record<ArtworkBlendMode, BlendMode> = {
+  normal: BlendMode.Normal,
+  multiply: BlendMode.Multiply,
+  screen: BlendMode.Screen,
+  overlay: BlendMode.Overlay,
+  darken: BlendMode.Darken,
+  lighten: BlendMode.Lighten,
+  softLight: BlendMode.SoftLight,
+  hardLight: BlendMode.HardLight,
+  difference: BlendMode.Difference,
+};
+
+/** How design colours are written to the PDF: as designed in sRGB, or separated for a press. */
+type PdfInks = {
+  paint: (hex: string) => Color;
+  /** Prints on every separation so marks line up on each plate. */
+  registration: Color;
+};
+
+function pdfInksFor(profile: PrintProfile | null): PdfInks {
+  if (!profile) {
+    return {
+      paint: (hex) => {
+        const { r, g, b } = parseHexColor(hex);
+        return rgb(r / 255, g / 255, b / 255);
+      },
+      registration: rgb(0, 0, 0),
+    };
+  }
+  return {
+    paint: (hex) => {
+      const { c, m, y, k } = separateColor(parseHexColor(hex), profile);
+      return cmyk(c, m, y, k);
+    },
+    registration: cmyk(1, 1, 1, 1),
+  };
+}
+
+/** Draws an embedded image into `box` (in points, bottom-left origin) with its opacity and blend mode. */
+function drawImageObject(
+  page: PDFPage,
+  image: PDFRef,
+  box: { x: number; y: number; width: number; height: number },
+  opacity: number,
+  blendMode: ArtworkBlendMode,
+) {
+  const name = page.node.newXObject("Image", image);
+  const graphicsState = page.node.newExtGState(
+    "GS",
+    page.doc.context.obj({ Type: "ExtGState", ca: opacity, BM: PDF_BLEND_MODES[blendMode] }),
+  );
+  page.pushOperators(
+    pushGraphicsState(),
+    setGraphicsState(graphicsState),
+    concatTransformationMatrix(box.width, 0, 0, box.height, box.x, box.y),
+    drawObject(name),
+    popGraphicsState(),
+  );
+}
+
+/**
+ * Draws the artwork clipped to `clipBox`. The page is first moved into the cropped artwork's own frame (origin at its
+ * centre, y up, flipped and then rotated like the preview's CSS transform) so the crop is a plain rectangle there.
+ */
+function drawArtwork(
+  page: PDFPage,
+  image: PDFRef,
+  artwork: ArtworkPlacement,
+  shelf: StackGeometry,
+  frame: SheetFrame,
+  clipBox: BoxMm,
+) {
+  const { requiredWidthMm, requiredHeightMm } = shelf.metrics;
+  const { rotationDeg, flipX, flipY, crop } = artwork.orientation;
+  const artWidthMm = artwork.dimensionsMm.widthMm * artwork.zoom;
+  const artHeightMm = artwork.dimensionsMm.heightMm * artwork.zoom;
+  const cropWidthMm = artWidthMm * crop.width;
+  const cropHeightMm = artHeightMm * crop.height;
+  const centre = toPagePoint(
+    frame,
+    requiredWidthMm / 2 + artwork.offsetMm.x - frame.shiftXMm,
+    requiredHeightMm / 2 + artwork.offsetMm.y,
+  );
+  // Clockwise on the page is a negative angle in PDF's y-up space.
+  const radians = (-rotationDeg * Math.PI) / 180;
+  const scaleX = flipX ? -1 : 1;
+  const scaleY = flipY ? -1 : 1;
+
+  pushClip(page, frame, clipBox);
+  page.pushOperators(
+    concatTransformationMatrix(
+      scaleX * Math.cos(radians),
+      scaleX * Math.sin(radians),
+      -scaleY * Math.sin(radians),
+      scaleY * Math.cos(radians),
+      centre.x,
+      centre.y,
+    ),
+    rectangle(-mmToPt(cropWidthMm) / 2, -mmToPt(cropHeightMm) / 2, mmToPt(cropWidthMm), mmToPt(cropHeightMm)),
+    clip(),
+    endPath(),
+  );
+  const imageTopMm = (crop.y + crop.height / 2) * artHeightMm;
+  drawImageObject(
+    page,
+    image,
+    {
+      x: mmToPt(-(crop.x + crop.width / 2) * artWidthMm),
+      y: mmToPt(imageTopMm - artHeightMm),
+      width: mmToPt(artWidthMm),
+      height: mmToPt(artHeightMm),
+    },
+    artwork.opacity,
+    artwork.blendMode,
+  );
+  page.pushOperators(popGraphicsState());
+}
+
+/** An overlay's embedded image and its copies on the current sheet, in the sheet's printed coordinates. */
+type PlacedOverlay = {
+  overlay: ArtworkOverlay;
+  image: PDFRef;
+  placements: OverlayPlacement[];
+};
+
+function drawOverlayPlacement(page: PDFPage, placed: PlacedOverlay, placement: OverlayPlacement, frame: SheetFrame) {
+  const { spine } = placement;
+  const spineBox = { leftMm: spine.leftMm, topMm: spine.topMm, widthMm: spine.widthMm, heightMm: spine.heightMm };
+  const rect = frame.sheet.rects.find((candidate) => candidate.id === spine.bookId);
+  // An overlay touching a trimmed edge runs on into the bleed, like the background.
+  pushClip(page, frame, rect ? extendToBleed(spineBox, rect, frame.sheet.metrics.margins.bleedMm) : spineBox);
+  drawImageObject(
+    page,
+    placed.image,
+    {
+      ...toPagePoint(frame, placement.leftMm, placement.topMm + placement.heightMm),
+      width: mmToPt(placement.widthMm),
+      height: mmToPt(placement.heightMm),
+    },
+    placed.overlay.opacity,
+    placed.overlay.blendMode,
+  );
+  page.pushOperators(popGraphicsState());
+}
+
+function drawOverlays(page: PDFPage, overlays: PlacedOverlay[], frame: SheetFrame, bookId?: number) {
+  overlays.forEach((placed) => {
+    placed.placements
+      .filter((placement) => bookId === undefined || placement.spine.bookId === bookId)
+      .forEach((placement) => drawOverlayPlacement(page, placed, placement, frame));
+  });
+}
+
+async function loadFontFile(font: FontDefinition, face: FontFaceFile): Promise<ArrayBuffer> {
+  const response = await fetch(face.url).catch(() => null);
+  if (!response?.ok) {
+    throw new Error(`The ${font.label} font could not be loaded for export.`);
+  }
+  return response.arrayBuffer();
+}
+
+function standardFontFor(fontFamily: string, weight = 400): StandardFonts {
+  const bold = weight >= TEXT_LAYER_BOLD_WEIGHT;
+  if (isSerifFamily(fontFamily)) {
+    return bold ? StandardFonts.TimesRomanBold : StandardFonts.TimesRoman;
+  }
+  return bold ? StandardFonts.HelveticaBold : StandardFonts.Helvetica;
+}
+
+/**
+ * A visible text layer with its embedded font, fitted size and the boxes it is drawn in on the current page. `gutters`
+ * are the gaps between spines in shelf coordinates, which stack-wide layers are laid out around.
+ */
+type PlacedTextLayer = {
+  layer: TextLayer;
+  font: PDFFont;
+  sizeMm: number;
+  gutters: Gutter[];
+  boxes: TextLayerBox[];
+};
+
+/**
+ * Draws one text layer centred in `box`, moved left by `shiftXMm` into the frame's coordinates. Lines are laid out
+ * like the preview, then each run is rotated about the layer centre; the shadow is an unblurred offset copy in the
+ * layer's rotated space, matching the preview's `text-shadow`.
+ */
+function drawTextLayer(
+  page: PDFPage,
+  inks: PdfInks,
+  { layer, font, sizeMm, gutters }: PlacedTextLayer,
+  frame: SheetFrame,
+  box: TextLayerBox,
+  clipBox: BoxMm,
+  shiftXMm = 0,
+) {
+  const sizePt = mmToPt(sizeMm);
+  const spacingPt = mmToPt(layer.letterSpacingMm);
+  const { lines, lineHeightMm, blockHeightMm } = layoutTextLayer(
+    { ...layer, text: sanitiseForFont(font, layer.text) },
+    box,
+    pdfTextMeasure(font),
+    sizeMm,
+    gutters,
+  );
+  const ascentMm = font.heightAtSize(sizePt, { descender: false }) / POINTS_PER_MM;
+  const contentHeightMm = font.heightAtSize(sizePt) / POINTS_PER_MM;
+  const halfLeadingMm = (lineHeightMm - contentHeightMm) / 2;
+  const centre = textLayerCentreMm(layer, box);
+  const centreXMm = centre.x - shiftXMm;
+  const radians = (layer.rotationDeg * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  const drawLines = (shiftMm: { x: number; y: number }, color: Color) => {
+    lines.forEach((line, index) => {
+      const localY = -blockHeightMm / 2 + index * lineHeightMm + halfLeadingMm + ascentMm + shiftMm.y;
+      line.segments.forEach((segment) => {
+        const localX = line.startMm + segment.offsetMm + shiftMm.x;
+        page.drawText(segment.text, {
+          ...toPagePoint(frame, centreXMm + localX * cos - localY * sin, centre.y + localX * sin + localY * cos),
+          size: sizePt,
+          font,
+          color,
+          rotate: degrees(-layer.rotationDeg),
+        });
+      });
+    });
+  };
+
+  pushClip(page, frame, clipBox);
+  page.pushOperators(setCharacterSpacing(spacingPt));
+  if (layer.shadow.enabled) {
+    drawLines({ x: layer.shadow.offsetXMm, y: layer.shadow.offsetYMm }, inks.paint(layer.shadow.color));
+  }
+  if (layer.outline.enabled && layer.outline.widthMm > 0) {
+    const outline = inks.paint(layer.outline.color);
+    page.pushOperators(
+      setTextRenderingMode(TextRenderingMode.FillAndOutline),
+      setStrokingColor(outline),
+      setLineWidth(mmToPt(layer.outline.widthMm)),
+    );
+  }
+  drawLines({ x: 0, y: 0 }, inks.paint(layer.color));
+  page.pushOperators(popGraphicsState());
+}
+
+/**
+ * Jacket pages fill flaps and covers with the book's swatch colour and show the shared artwork (and stack-wide text
+ * layers) only through each spine panel, shifted so the spines line up with their neighbours once shelved. The book's
+ * overlays sit between the two. Fills and artwork run into the bleed on every trimmed edge.
+ */
+function drawJacketPanels(
+  page: PDFPage,
+  inks: PdfInks,
+  image: PDFRef,
+  artwork: ArtworkPlacement,
+  layout: StackLayout,
+  frame: SheetFrame,
+  overlays: PlacedOverlay[],
+  shelfLayers: PlacedTextLayer[],
+) {
+  const { bleedMm } = frame.sheet.metrics.margins;
+  frame.sheet.rects.forEach((rect) => {
+    rect.panels.forEach((panel) => {
+      const panelBox = { leftMm: panel.xMm, topMm: rect.yMm, widthMm: panel.widthMm, heightMm: rect.heightMm };
+      const printedBox = extendToBleed(panelBox, rect, bleedMm);
+      if (panel.kind !== "spine") {
+        page.drawRectangle({
+          ...toPagePoint(frame, printedBox.leftMm, printedBox.topMm + printedBox.heightMm),
+          width: mmToPt(printedBox.widthMm),
+          height: mmToPt(printedBox.heightMm),
+          color: inks.paint(rect.color),
+        });
+        return;
+      }
+      const spineFrame = { ...frame, shiftXMm: rect.shelfXMm - panel.xMm };
+      drawArtwork(page, image, artwork, layout.shelf, spineFrame, printedBox);
+      drawOverlays(page, overlays, frame, rect.id);
+      shelfLayers.forEach((placed) => {
+        placed.boxes.forEach((box) =>
+          drawTextLayer(page, inks, placed, spineFrame, box, panelBox, spineFrame.shiftXMm),
+        );
+      });
+    });
+  });
+}
+
+/**
+ * Sets each book's spine line rotated along its spine, re-fitted with the PDF font's own metrics so it never overruns
+ * the safe area even where they differ slightly from the browser's.
+ */
+function drawSpineTexts(
+  page: PDFPage,
+  inks: PdfInks,
+  fonts: ReadonlyMap<string, PDFFont>,
+  spineTexts: ReadonlyMap<number, SpineText>,
+  frame: SheetFrame,
+) {
+  frame.sheet.rects.forEach((rect) => {
+    const text = spineTexts.get(rect.id);
+    const font = text ? fonts.get(text.style.fontFamily) : undefined;
+    if (!text || !font) {
+      return;
+    }
+    const fitted = fitSpineText(text, rect, pdfTextMeasure(font), frame.sheet.metrics.margins.safeMarginMm);
+    if (!fitted) {
+      return;
+    }
+    const { frame: textFrame, sizeMm, lineWidthMm } = fitted;
+    const sizePt = mmToPt(sizeMm);
+    const ascentMm = font.heightAtSize(sizePt, { descender: false }) / POINTS_PER_MM;
+    const descentMm = font.heightAtSize(sizePt) / POINTS_PER_MM - ascentMm;
+    const centreXMm = textFrame.xMm + textFrame.widthMm / 2;
+    const slackMm = textFrame.lengthMm - lineWidthMm;
+    const leadMm = text.style.align === "start" ? 0 : text.style.align === "center" ? slackMm / 2 : slackMm;
+    const topToBottom = text.style.direction === "topToBottom";
+    // Rotated clockwise the glyph tops face right, so the baseline sits left of centre; anticlockwise, the reverse.
+    const baselineXMm = centreXMm + ((topToBottom ? -1 : 1) * (ascentMm - descentMm)) / 2;
+    const startYMm = topToBottom ? textFrame.yMm + leadMm : textFrame.yMm + textFrame.heightMm - leadMm;
+
+    pushClip(page, frame, { leftMm: rect.xMm, topMm: rect.yMm, widthMm: rect.widthMm, heightMm: rect.heightMm });
+    page.drawText(sanitiseForFont(font, fitted.line), {
+      ...toPagePoint(frame, baselineXMm, startYMm),
+      size: sizePt,
+      font,
+      color: inks.paint(text.style.color),
+      rotate: degrees(topToBottom ? -90 : 90),
+    });
+    page.pushOperators(popGraphicsState());
+  });
+}
+
+function drawProductionMarks(page: PDFPage, inks: PdfInks, font: PDFFont, frame: SheetFrame) {
+  const marks = computeProductionMarks(frame.sheet, frame.originMm, frame.sheetLabel);
+  const toPoint = (xMm: number, yMm: number) => toPagePoint(frame, xMm, yMm);
+
+  marks.lines.forEach((line) => {
+    page.drawLine({
+      start: toPoint(line.x1Mm, line.y1Mm),
+      end: toPoint(line.x2Mm, line.y2Mm),
+      thickness: mmToPt(MARK_STROKE_MM),
+      color: inks.registration,
+      dashArray: MARK_DASH_MM[line.kind]?.map(mmToPt),
+    });
+  });
+
+  marks.registration.forEach((mark) => {
+    const centre = toPoint(mark.xMm, mark.yMm);
+    const radiusPt = mmToPt(mark.radiusMm);
+    page.drawCircle({
+      ...centre,
+      size: radiusPt * 0.6,
+      borderColor: inks.registration,
+      borderWidth: mmToPt(MARK_STROKE_MM),
+    });
+    page.drawLine({
+      start: { x: centre.x - radiusPt, y: centre.y },
+      end: { x: centre.x + radiusPt, y: centre.y },
+      thickness: mmToPt(MARK_STROKE_MM),
+      color: inks.registration,
+    });
+    page.drawLine({
+      start: { x: centre.x, y: centre.y - radiusPt },
+      end: { x: centre.x, y: centre.y + radiusPt },
+      thickness: mmToPt(MARK_STROKE_MM),
+      color: inks.registration,
+    });
+  });
+
+  page.drawText(sanitiseForFont(font, marks.slug.text), {
+    ...toPoint(marks.slug.xMm, marks.slug.baselineMm),
+    size: mmToPt(marks.slug.sizeMm),
+    font,
+    color: inks.registration,
+  });
+}
+
+/**
+ * Lays the stack out as page frames: one paper page per tiled sheet, or a single page the size of the whole stack.
+ */
+function planSheetFrames(layout: StackLayout, pageSize: ExportPageSize, paper: ResolvedSheet) {
+  const tiled = pageSize === "sheet" && layout.metrics.fitsTiledSheets;
+  const sheets = tiled ? layout.sheets : [{ ...layout, shiftXMm: 0 }];
+  return sheets.map((sheet, index) => {
+    const pageSizeMm = resolveExportPageSizeMm(tiled ? sheet : layout, pageSize, paper);
+    return {
+      pageSizeMm,
+      frame: {
+        sheet,
+        sheetLabel: sheets.length > 1 ? `Sheet ${index + 1} of ${sheets.length}` : undefined,
+        shiftXMm: sheet.shiftXMm,
+        originMm: {
+          x: (pageSizeMm.widthMm - sheet.metrics.requiredWidthMm) / 2,
+          y: (pageSizeMm.heightMm - sheet.metrics.requiredHeightMm) / 2,
+        },
+        pageHeightMm: pageSizeMm.heightMm,
+      } satisfies SheetFrame,
+    };
+  });
+}
+
+/**
+ * Builds a print-ready PDF of the jacket sheet at true physical size. Artwork is clipped to the stack area exactly
+ * like the live preview, no sample watermark is drawn, and production marks are layered on top when requested.
+ * Stacks wider than the selected paper are tiled onto one page per sheet with the artwork continuing across pages.
+ */
+export async function createJacketPdf(options: JacketPdfOptions): Promise<Uint8Array> {
+  const { layout, artwork, pageSize } = options;
+
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(options.title ?? "Flyleaf jacket sheet");
+  pdf.setCreator("Flyleaf");
+  pdf.setProducer("Flyleaf");
+
+  const inks = pdfInksFor(options.printProfile);
+  if (options.printProfile) {
+    addOutputIntent(pdf, options.printProfile);
+  }
+  const image = await embedArtworkImage(pdf, artwork.image);
+  const overlayImages: { overlay: ArtworkOverlay; image: PDFRef }[] = [];
+  for (const { overlay, image: overlayImage } of options.overlays) {
+    overlayImages.push({ overlay, image: await embedArtworkImage(pdf, overlayImage) });
+  }
+  const slugFont = options.productionMarks ? await pdf.embedFont(StandardFonts.Helvetica) : null;
+  pdf.registerFontkit(fontkit);
+  const embeddedFonts = new Map<string, PDFFont>();
+  // Library fonts are subset-embedded from their own files; unknown families fall back to a standard PDF font.
+  const embedFontFor = async (fontFamily: string, weight = 400) => {
+    const definition = findFontDefinition(options.fonts, fontFamily);
+    const face = definition ? pickFontFace(definition, weight) : null;
+    const key = face ? face.url : standardFontFor(fontFamily, weight);
+    let font = embeddedFonts.get(key);
+    if (!font) {
+      font =
+        definition && face
+          ? await pdf.embedFont(await loadFontFile(definition, face), { subset: true })
+          : await pdf.embedFont(standardFontFor(fontFamily, weight));
+      embeddedFonts.set(key, font);
+    }
+    return font;
+  };
+  const spineFonts = new Map<string, PDFFont>();
+  for (const text of Array.from(options.spineTexts.values())) {
+    const family = text.style.fontFamily;
+    if (spineFonts.has(family) || !composeSpineLine(text)) {
+      continue;
+    }
+    spineFonts.set(family, await embedFontFor(family));
+  }
+  const gutters = findShelfGutters(layout.shelf);
+  const textLayers: Omit<PlacedTextLayer, "boxes">[] = [];
+  for (const layer of options.textLayers) {
+    if (layer.visible && layer.text.trim().length > 0) {
+      const font = await embedFontFor(layer.fontFamily, layer.weight);
+      const { sizeMm } = fitTextLayerSize(layer, resolveTextLayerBoxes(layer, layout), pdfTextMeasure(font), gutters);
+      textLayers.push({ layer, font, sizeMm, gutters });
+    }
+  }
+
+  planSheetFrames(layout, pageSize, options.sheet).forEach(({ pageSizeMm, frame }) => {
+    const page = pdf.addPage([mmToPt(pageSizeMm.widthMm), mmToPt(pageSizeMm.heightMm)]);
+    // Printed-space boxes are resolved against this sheet's own rects so tiled pages get sheet-local positions.
+    const sheetLayout = { ...layout, rects: frame.sheet.rects };
+    const resolved = textLayers.map((placed) => ({ ...placed, boxes: resolveTextLayerBoxes(placed.layer, sheetLayout) }));
+    const shelfLayers = resolved.filter(({ boxes }) => boxes[0]?.space === "shelf");
+    // Copies keep the whole layout's size, so an overlay on a spine with a narrower neighbour on another sheet matches.
+    const overlays = overlayImages.map(({ overlay, image: overlayImage }) => ({
+      overlay,
+      image: overlayImage,
+      placements: resolveOverlayPlacements(
+        overlay,
+        frame.sheet.rects,
+        overlayDimensionsMm(overlay, overlaySpines(overlay, layout.rects)),
+      ),
+    }));
+    if (layout.mode === "jacket") {
+      drawJacketPanels(page, inks, image, artwork, layout, frame, overlays, shelfLayers);
+    } else {
+      drawArtwork(page, image, artwork, layout.shelf, frame, sheetBox(frame));
+      drawOverlays(page, overlays, frame);
+    }
+    resolved.forEach((placed) => {
+      placed.boxes.forEach((box) => {
+        if (box.space === "printed") {
+          drawTextLayer(page, inks, placed, frame, box, box);
+        } else if (layout.mode !== "jacket") {
+          drawTextLayer(page, inks, placed, frame, box, sheetBox(frame), frame.shiftXMm);
+        }
+      });
+    });
+    drawSpineTexts(page, inks, spineFonts, options.spineTexts, frame);
+    if (slugFont) {
+      drawProductionMarks(page, inks, slugFont, frame);
+    }
+  });
+
+  return pdf.save();
+}
@@ -0,0 +1,123 @@
+import { MM_PER_INCH, type ArtworkDimensionsMm, type StackGeometry } from "./geometry";
+
+export type ResolutionLevel = "ok" | "warning" | "error";
+
+export type DpiThresholds = {
+  warningDpi: number;
+  errorDpi: number;
+};
+
+export type ArtworkPixelSize = {
+  widthPx: number;
+  heightPx: number;
+};
+
+export type SpineResolution = {
+  id: number;
+  label: string;
+  dpi: number;
+  covered: boolean;
+  level: ResolutionLevel;
+};
+
+export type ResolutionReport = {
+  dpi: number;
+  level: ResolutionLevel;
+  isVector: boolean;
+  spines: SpineResolution[];
+};
+
+export const DEFAULT_DPI_THRESHOLDS: DpiThresholds = {
+  warningDpi: 150,
+  errorDpi: 100,
+};
+
+/** `dimensionsMm` is the cropped artwork's natural size, before zoom and the clockwise `rotationDeg`. */
+type ArtworkPlacementMm = {
+  dimensionsMm: ArtworkDimensionsMm;
+  offsetMm: { x: number; y: number };
+  zoom: number;
+  rotationDeg: number;
+};
+
+export function classifyDpi(dpi: number, thresholds: DpiThresholds): ResolutionLevel {
+  if (dpi < thresholds.errorDpi) {
+    return "error";
+  }
+  return dpi < thresholds.warningDpi ? "warning" : "ok";
+}
+
+/**
+ * Effective print resolution of a raster once it is scaled to its placed physical size. The lower of the two axes
+ * wins so non-uniform sources never report more detail than they carry.
+ */
+export function computeEffectiveDpi(pixelSize: ArtworkPixelSize, placedSizeMm: ArtworkDimensionsMm): number {
+  if (placedSizeMm.widthMm <= 0 || placedSizeMm.heightMm <= 0) {
+    return 0;
+  }
+  const horizontalDpi = pixelSize.widthPx / (placedSizeMm.widthMm / MM_PER_INCH);
+  const verticalDpi = pixelSize.heightPx / (placedSizeMm.heightMm / MM_PER_INCH);
+  return Math.min(horizontalDpi, verticalDpi);
+}
+
+/**
+ * Checks the artwork's effective DPI against the physical stack and reports each spine, flagging any that the
+ * artwork does not fully cover out to the bleed. Vector artwork always passes the DPI check.
+ */
+export function assessArtworkResolution(
+  layout: StackGeometry,
+  placement: ArtworkPlacementMm,
+  pixelSize: ArtworkPixelSize,
+  isVector: boolean,
+  thresholds: DpiThresholds = DEFAULT_DPI_THRESHOLDS,
+): ResolutionReport {
+  const placedSizeMm = {
+    widthMm: placement.dimensionsMm.widthMm * placement.zoom,
+    heightMm: placement.dimensionsMm.heightMm * placement.zoom,
+  };
+  const dpi = isVector ? Number.POSITIVE_INFINITY : computeEffectiveDpi(pixelSize, placedSizeMm);
+  const level = isVector ? "ok" : classifyDpi(dpi, thresholds);
+  const centreXMm = layout.metrics.requiredWidthMm / 2 + placement.offsetMm.x;
+  const centreYMm = layout.metrics.requiredHeightMm / 2 + placement.offsetMm.y;
+  const radians = (placement.rotationDeg * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  // A spine is covered when all four corners, turned back into the artwork's own axes, land inside it.
+  const isInsideArtwork = (xMm: number, yMm: number) => {
+    const dx = xMm - centreXMm;
+    const dy = yMm - centreYMm;
+    const tolerance = 1e-6;
+    return (
+      Math.abs(dx * cos + dy * sin) <= placedSizeMm.widthMm / 2 + tolerance &&
+      Math.abs(-dx * sin + dy * cos) <= placedSizeMm.heightMm / 2 + tolerance
+    );
+  };
+
+  const { bleedMm } = layout.metrics.margins;
+  const spines = layout.rects.map((rect) => {
+    const leftMm = rect.xMm - bleedMm.left;
+    const rightMm = rect.xMm + rect.widthMm + bleedMm.right;
+    const topMm = rect.yMm - bleedMm.top;
+    const bottomMm = rect.yMm + rect.heightMm + bleedMm.bottom;
+    const covered =
+      isInsideArtwork(leftMm, topMm) &&
+      isInsideArtwork(rightMm, topMm) &&
+      isInsideArtwork(leftMm, bottomMm) &&
+      isInsideArtwork(rightMm, bottomMm);
+    return {
+      id: rect.id,
+      label: rect.label,
+      dpi,
+      covered,
+      level: covered ? level : ("error" as const),
+    };
+  });
+
+  const worstLevel = spines.some((spine) => spine.level === "error")
+    ? "error"
+    : spines.some((spine) => spine.level === "warning")
+      ? "warning"
+      : level;
+
+  return { dpi, level: worstLevel, isVector, spines };
+}
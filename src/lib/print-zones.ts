@@ -0,0 +1,98 @@
+import type { BleedMm, BookRect, StackGeometry, StackLayout } from "./geometry";
+import type { TextLayerBox } from "./text-layers";
+
+export type ZoneBoxMm = {
+  leftMm: number;
+  topMm: number;
+  widthMm: number;
+  heightMm: number;
+};
+
+/**
+ * One book's print zones in the layout's printed coordinates: what is printed (`bleed`), where it is cut (`trim`) and
+ * the area text keeps to (`safe`), which collapses to zero size on a book too small for the safe margin.
+ */
+export type BookPrintZones = {
+  bookId: number;
+  label: string;
+  bleed: ZoneBoxMm;
+  trim: ZoneBoxMm;
+  safe: ZoneBoxMm;
+};
+
+const EDGE_TOLERANCE_MM = 1e-6;
+
+function insetBox(box: ZoneBoxMm, insetMm: { top: number; right: number; bottom: number; left: number }): ZoneBoxMm {
+  const widthMm = box.widthMm - insetMm.left - insetMm.right;
+  const heightMm = box.heightMm - insetMm.top - insetMm.bottom;
+  return {
+    leftMm: widthMm > 0 ? box.leftMm + insetMm.left : box.leftMm + box.widthMm / 2,
+    topMm: heightMm > 0 ? box.topMm + insetMm.top : box.topMm + box.heightMm / 2,
+    widthMm: Math.max(widthMm, 0),
+    heightMm: Math.max(heightMm, 0),
+  };
+}
+
+function trimBox(rect: BookRect): ZoneBoxMm {
+  return { leftMm: rect.xMm, topMm: rect.yMm, widthMm: rect.widthMm, heightMm: rect.heightMm };
+}
+
+export function computePrintZones(geometry: StackGeometry): BookPrintZones[] {
+  const { bleedMm, safeMarginMm } = geometry.metrics.margins;
+  return geometry.rects.map((rect) => {
+    const trim = trimBox(rect);
+    return {
+      bookId: rect.id,
+      label: rect.label,
+      bleed: insetBox(trim, { top: -bleedMm.top, right: -bleedMm.right, bottom: -bleedMm.bottom, left: -bleedMm.left }),
+      trim,
+      safe: insetBox(trim, { top: safeMarginMm, right: safeMarginMm, bottom: safeMarginMm, left: safeMarginMm }),
+    };
+  });
+}
+
+/**
+ * Grows a box on `rect` (a panel, spine or the whole book) by the bleed on each side that lies on the book's trim
+ * line. Sides on a fold stay put, so a panel's bleed never runs over its neighbour.
+ */
+export function extendToBleed(box: ZoneBoxMm, rect: BookRect, bleedMm: BleedMm): ZoneBoxMm {
+  const onEdge = (a: number, b: number) => Math.abs(a - b) < EDGE_TOLERANCE_MM;
+  const grow = {
+    top: onEdge(box.topMm, rect.yMm) ? bleedMm.top : 0,
+    right: onEdge(box.leftMm + box.widthMm, rect.xMm + rect.widthMm) ? bleedMm.right : 0,
+    bottom: onEdge(box.topMm + box.heightMm, rect.yMm + rect.heightMm) ? bleedMm.bottom : 0,
+    left: onEdge(box.leftMm, rect.xMm) ? bleedMm.left : 0,
+  };
+  return {
+    leftMm: box.leftMm - grow.left,
+    topMm: box.topMm - grow.top,
+    widthMm: box.widthMm + grow.left + grow.right,
+    heightMm: box.heightMm + grow.top + grow.bottom,
+  };
+}
+
+/**
+ * The part of a text layer's anchor box that is clear of every trim by the safe margin. Printed boxes are cut back
+ * to their book's safe zone. The stack-wide box keeps clear of the head and tail trims; its sides are trims only in
+ * spines mode, as in jacket mode the text shows through spine panels that end at folds.
+ */
+export function textSafeBounds(box: TextLayerBox, layout: StackLayout): ZoneBoxMm {
+  const { safeMarginMm } = layout.metrics.margins;
+  if (box.space === "shelf") {
+    const sideMm = layout.mode === "spines" ? safeMarginMm : 0;
+    return insetBox(box, { top: safeMarginMm, right: sideMm, bottom: safeMarginMm, left: sideMm });
+  }
+  const rect = layout.rects.find((candidate) => candidate.id === box.bookId);
+  if (!rect) {
+    return box;
+  }
+  const safe = insetBox(trimBox(rect), { top: safeMarginMm, right: safeMarginMm, bottom: safeMarginMm, left: safeMarginMm });
+  const leftMm = Math.max(box.leftMm, safe.leftMm);
+  const topMm = Math.max(box.topMm, safe.topMm);
+  return {
+    leftMm,
+    topMm,
+    widthMm: Math.max(Math.min(box.leftMm + box.widthMm, safe.leftMm + safe.widthMm) - leftMm, 0),
+    heightMm: Math.max(Math.min(box.topMm + box.heightMm, safe.topMm + safe.heightMm) - topMm, 0),
+  };
+}
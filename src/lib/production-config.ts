@@ -0,0 +1,32 @@
+import { readFile } from "node:fs/promises";
+
+import {
+  PRODUCTION_PROFILES,
+  mergeProductionProfiles,
+  parseProductionProfiles,
+  type ProductionProfile,
+} from "./production-profiles";
+
+let sharedProfiles: Promise<ProductionProfile[]> | null = null;
+
+/**
+ * The production profiles this server offers: the built-in ones plus any read from the JSON file named by
+ * `FLYLEAF_PRODUCTION_PROFILES` (see `parseProductionProfiles`), which may also override a built-in profile by id.
+ * The file is read once; a missing or invalid file fails loudly rather than silently validating against the wrong
+ * rules.
+ */
+export function loadProductionProfiles(): Promise<ProductionProfile[]> {
+  if (!sharedProfiles) {
+    const configPath = process.env.FLYLEAF_PRODUCTION_PROFILES;
+    sharedProfiles = configPath
+      ? readFile(configPath, "utf8").then((contents) =>
+          mergeProductionProfiles(PRODUCTION_PROFILES, parseProductionProfiles(JSON.parse(contents))),
+        )
+      : Promise.resolve(PRODUCTION_PROFILES);
+    // Let a fixed config file be picked up on the next request instead of caching the failure.
+    sharedProfiles.catch(() => {
+      sharedProfiles = null;
+    });
+  }
+  return sharedProfiles;
+}
@@ -0,0 +1,169 @@
+import { CM_TO_MM, type StackGeometry } from "./geometry";
+
+export type MarkKind = "trim" | "fold" | "clearance";
+
+export type MarkLine = {
+  kind: MarkKind;
+  x1Mm: number;
+  y1Mm: number;
+  x2Mm: number;
+  y2Mm: number;
+};
+
+export type RegistrationMark = {
+  xMm: number;
+  yMm: number;
+  radiusMm: number;
+};
+
+export type SlugLine = {
+  text: string;
+  xMm: number;
+  baselineMm: number;
+  sizeMm: number;
+};
+
+export type ProductionMarks = {
+  lines: MarkLine[];
+  registration: RegistrationMark[];
+  slug: SlugLine;
+};
+
+export const MARK_LENGTH_MM = 5;
+export const MARK_OFFSET_MM = 0.5;
+export const MARK_STROKE_MM = 0.1;
+export const MARK_DASH_MM: Record<MarkKind, number[] | null> = {
+  trim: null,
+  fold: [2, 1],
+  clearance: [0.5, 0.5],
+};
+const REGISTRATION_RADIUS_MM = 3;
+const SLUG_SIZE_MM = 1.4;
+
+function formatCentimetres(valueMm: number): string {
+  return `${Number((valueMm / CM_TO_MM).toFixed(2))}`;
+}
+
+/**
+ * Summarises every book with its trim size so the slug identifies the sheet once it leaves the designer.
+ */
+export function formatSlugText(layout: StackGeometry, sheetLabel?: string): string {
+  const books = layout.rects
+    .map((rect) => `${rect.label} ${formatCentimetres(rect.heightMm)}×${formatCentimetres(rect.widthMm)} cm`)
+    .join(" • ");
+  const sheet = `${formatCentimetres(layout.metrics.requiredWidthMm)}×${formatCentimetres(layout.metrics.requiredHeightMm)} cm`;
+  return `Flyleaf${sheetLabel ? ` • ${sheetLabel}` : ""} • ${books} • Sheet ${sheet}`;
+}
+
+/**
+ * Builds the production-marks layer in stack coordinates (millimetres from the top-left of the required sheet).
+ * `outerMarginMm` is the paper available beyond the stack area; marks grow into it when the page is larger than
+ * the stack, and shrink to the clearances when it is not. Trim marks start beyond the bleed so they are never printed
+ * over it. `sheetLabel` identifies the sheet of a tiled stack.
+ */
+export function computeProductionMarks(
+  layout: StackGeometry,
+  outerMarginMm = { x: 0, y: 0 },
+  sheetLabel?: string,
+): ProductionMarks {
+  const { requiredWidthMm, requiredHeightMm, totalWidthMm, stackHeightMm, spacing } = layout.metrics;
+  const { bleedMm } = layout.metrics.margins;
+  const lines: MarkLine[] = [];
+  const topLimitMm = -outerMarginMm.y;
+  const bottomLimitMm = requiredHeightMm + outerMarginMm.y;
+  const leftLimitMm = -outerMarginMm.x;
+  const rightLimitMm = requiredWidthMm + outerMarginMm.x;
+
+  const pushVertical = (kind: MarkKind, xMm: number, topMm: number, bottomMm: number) => {
+    const startAboveMm = topMm - MARK_OFFSET_MM - bleedMm.top;
+    const above = Math.max(startAboveMm - MARK_LENGTH_MM, topLimitMm);
+    if (above < startAboveMm) {
+      lines.push({ kind, x1Mm: xMm, y1Mm: above, x2Mm: xMm, y2Mm: startAboveMm });
+    }
+    const startBelowMm = bottomMm + MARK_OFFSET_MM + bleedMm.bottom;
+    const below = Math.min(startBelowMm + MARK_LENGTH_MM, bottomLimitMm);
+    if (below > startBelowMm) {
+      lines.push({ kind, x1Mm: xMm, y1Mm: startBelowMm, x2Mm: xMm, y2Mm: below });
+    }
+  };
+
+  const pushHorizontal = (kind: MarkKind, yMm: number, leftMm: number, rightMm: number) => {
+    const startBeforeMm = leftMm - MARK_OFFSET_MM - bleedMm.left;
+    const before = Math.max(startBeforeMm - MARK_LENGTH_MM, leftLimitMm);
+    if (before < startBeforeMm) {
+      lines.push({ kind, x1Mm: before, y1Mm: yMm, x2Mm: startBeforeMm, y2Mm: yMm });
+    }
+    const startAfterMm = rightMm + MARK_OFFSET_MM + bleedMm.right;
+    const after = Math.min(startAfterMm + MARK_LENGTH_MM, rightLimitMm);
+    if (after > startAfterMm) {
+      lines.push({ kind, x1Mm: startAfterMm, y1Mm: yMm, x2Mm: after, y2Mm: yMm });
+    }
+  };
+
+  // Trim marks sit on every spine (or jacket) boundary, above and below each book.
+  layout.rects.forEach((rect) => {
+    pushVertical("trim", rect.xMm, rect.yMm, rect.yMm + rect.heightMm);
+    pushVertical("trim", rect.xMm + rect.widthMm, rect.yMm, rect.yMm + rect.heightMm);
+  });
+
+  // Jackets fold between panels: flap/cover, cover/spine, spine/cover and cover/flap.
+  layout.rects.forEach((rect) => {
+    rect.panels.slice(1).forEach((panel) => {
+      pushVertical("fold", panel.xMm, rect.yMm, rect.yMm + rect.heightMm);
+    });
+  });
+
+  // Head and tail trims run out into the side clearances for every distinct book height.
+  const stackLeftMm = spacing.sideMm;
+  const stackRightMm = spacing.sideMm + totalWidthMm;
+  const edgesMm = new Set<number>();
+  layout.rects.forEach((rect) => {
+    edgesMm.add(rect.yMm);
+    edgesMm.add(rect.yMm + rect.heightMm);
+  });
+  edgesMm.forEach((yMm) => pushHorizontal("trim", yMm, stackLeftMm, stackRightMm));
+
+  // Score guides run down the centre of each gutter so strips can be separated cleanly.
+  layout.rects.slice(1).forEach((rect) => {
+    const gutterCentreMm = rect.xMm - spacing.gapMm / 2;
+    lines.push({ kind: "fold", x1Mm: gutterCentreMm, y1Mm: topLimitMm, x2Mm: gutterCentreMm, y2Mm: bottomLimitMm });
+  });
+
+  // Clearance guides outline the area the geometry rules reserve for the stack.
+  if (layout.rects.length) {
+    const clearanceTopMm = spacing.topMm;
+    const clearanceBottomMm = spacing.topMm + stackHeightMm;
+    lines.push(
+      { kind: "clearance", x1Mm: stackLeftMm, y1Mm: clearanceTopMm, x2Mm: stackRightMm, y2Mm: clearanceTopMm },
+      { kind: "clearance", x1Mm: stackLeftMm, y1Mm: clearanceBottomMm, x2Mm: stackRightMm, y2Mm: clearanceBottomMm },
+      { kind: "clearance", x1Mm: stackLeftMm, y1Mm: clearanceTopMm, x2Mm: stackLeftMm, y2Mm: clearanceBottomMm },
+      { kind: "clearance", x1Mm: stackRightMm, y1Mm: clearanceTopMm, x2Mm: stackRightMm, y2Mm: clearanceBottomMm },
+    );
+  }
+
+  // Registration targets sit in the corners, pushed into the outer margin when the page leaves room for them.
+  const insetXMm = outerMarginMm.x >= REGISTRATION_RADIUS_MM * 3 ? -outerMarginMm.x / 2 : spacing.sideMm / 2;
+  const insetYMm = outerMarginMm.y >= REGISTRATION_RADIUS_MM * 3 ? -outerMarginMm.y / 2 : REGISTRATION_RADIUS_MM + 2;
+  const registration: RegistrationMark[] = [
+    { xMm: insetXMm, yMm: insetYMm },
+    { xMm: requiredWidthMm - insetXMm, yMm: insetYMm },
+    { xMm: insetXMm, yMm: requiredHeightMm - insetYMm },
+    { xMm: requiredWidthMm - insetXMm, yMm: requiredHeightMm - insetYMm },
+  ].map((mark) => ({ ...mark, radiusMm: REGISTRATION_RADIUS_MM }));
+
+  const slugBaselineMm =
+    outerMarginMm.y >= SLUG_SIZE_MM * 3
+      ? requiredHeightMm + Math.min(outerMarginMm.y / 2, MARK_LENGTH_MM + 3)
+      : requiredHeightMm - (requiredHeightMm - spacing.topMm - stackHeightMm - SLUG_SIZE_MM) / 2;
+
+  return {
+    lines,
+    registration,
+    slug: {
+      text: formatSlugText(layout, sheetLabel),
+      xMm: spacing.sideMm,
+      baselineMm: slugBaselineMm,
+      sizeMm: SLUG_SIZE_MM,
+    },
+  };
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  checkBookRanges,
+  DEFAULT_PRODUCTION_PROFILE,
+  findProductionProfile,
+  formatHeightRange,
+  mergeProductionProfiles,
+  parseProductionProfiles,
+  PRODUCTION_PROFILES,
+  ProductionProfileError,
+} from "./production-profiles";
+
+const book = { label: "Dune", heightCm: 23, spineWidthCm: 3, coverWidthCm: 15, flapWidthCm: 0 };
+
+describe("parseProductionProfiles", () => {
+  it("reads a config file's profiles", () => {
+    expect(parseProductionProfiles({ profiles: PRODUCTION_PROFILES })).toEqual(PRODUCTION_PROFILES);
+  });
+
+  it("rejects a config without a profiles list", () => {
+    expect(() => parseProductionProfiles({})).toThrow(ProductionProfileError);
+    expect(() => parseProductionProfiles([])).toThrow('Production config must have a "profiles" list.');
+  });
+
+  it("names the field at fault", () => {
+    const profiles = [DEFAULT_PRODUCTION_PROFILE, { ...DEFAULT_PRODUCTION_PROFILE, id: "wide", gapMm: -1 }];
+    expect(() => parseProductionProfiles({ profiles })).toThrow(
+      '"profiles[1].gapMm" must be a number of zero or more.',
+    );
+    expect(() =>
+      parseProductionProfiles({ profiles: [{ ...DEFAULT_PRODUCTION_PROFILE, label: " " }] }),
+    ).toThrow('"profiles[0].label" must be text.');
+  });
+
+  it("rejects a height range that admits no book", () => {
+    const profile = { ...DEFAULT_PRODUCTION_PROFILE, bookHeightMinCm: 30 };
+    expect(() => parseProductionProfiles({ profiles: [profile] })).toThrow(
+      '"profiles[0]" needs a minimum book height below its maximum.',
+    );
+  });
+
+  it("rejects duplicate ids", () => {
+    const profiles = [DEFAULT_PRODUCTION_PROFILE, DEFAULT_PRODUCTION_PROFILE];
+    expect(() => parseProductionProfiles({ profiles })).toThrow(
+      'Production profile "flyleaf-standard" is listed more than once.',
+    );
+  });
+});
+
+describe("mergeProductionProfiles", () => {
+  it("replaces profiles with the same id and appends new ones", () => {
+    const override = { ...DEFAULT_PRODUCTION_PROFILE, gapMm: 3 };
+    const extra = { ...DEFAULT_PRODUCTION_PROFILE, id: "partner" };
+    const merged = mergeProductionProfiles(PRODUCTION_PROFILES, [override, extra]);
+    expect(merged.map((profile) => profile.id)).toEqual(["flyleaf-standard", "large-format", "partner"]);
+    expect(merged[0].gapMm).toBe(3);
+    expect(findProductionProfile(merged, "partner")).toBe(extra);
+    expect(findProductionProfile(merged, "missing")).toBe(DEFAULT_PRODUCTION_PROFILE);
+  });
+});
+
+describe("checkBookRanges", () => {
+  it("passes a book inside every range", () => {
+    expect(checkBookRanges(book, DEFAULT_PRODUCTION_PROFILE, true)).toEqual([]);
+  });
+
+  it("flags height and spine width", () => {
+    expect(checkBookRanges({ ...book, heightCm: 30, spineWidthCm: 0.2 }, DEFAULT_PRODUCTION_PROFILE, false)).toEqual([
+      { field: "heightCm", message: "Dune must be between 10 cm and 26 cm tall." },
+      { field: "spineWidthCm", message: "Dune needs a spine of at least 0.3 cm." },
+    ]);
+  });
+
+  it("checks cover and flap widths only for jackets", () => {
+    const narrow = { ...book, coverWidthCm: 4, flapWidthCm: -1 };
+    expect(checkBookRanges(narrow, DEFAULT_PRODUCTION_PROFILE, false)).toEqual([]);
+    expect(checkBookRanges(narrow, DEFAULT_PRODUCTION_PROFILE, true)).toEqual([
+      { field: "coverWidthCm", message: "Dune needs covers at least 5 cm wide." },
+      { field: "flapWidthCm", message: "Dune cannot have a negative flap width." },
+    ]);
+  });
+
+  it("writes limits with the given formatter", () => {
+    const inMillimetres = (valueCm: number) => `${valueCm * 10} mm`;
+    const [issue] = checkBookRanges({ ...book, heightCm: 5 }, DEFAULT_PRODUCTION_PROFILE, false, inMillimetres);
+    expect(issue.message).toBe("Dune must be between 100 mm and 260 mm tall.");
+  });
+});
+
+describe("formatHeightRange", () => {
+  it("summarises a profile's heights", () => {
+    expect(formatHeightRange(DEFAULT_PRODUCTION_PROFILE)).toBe("10 cm–26 cm");
+    expect(formatHeightRange(DEFAULT_PRODUCTION_PROFILE, (cm) => `${cm * 10} mm`)).toBe("100 mm–260 mm");
+  });
+});
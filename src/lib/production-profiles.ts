@@ -0,0 +1,199 @@
+/**
+ * A print partner's production rules: the room the stack is laid out with and the book sizes they will run. Gaps and
+ * clearances are millimetres; book dimensions are centimetres, like the designer inputs they bound.
+ */
+export type ProductionProfile = {
+  id: string;
+  label: string;
+  description: string;
+  gapMm: number;
+  clearanceSideMm: number;
+  clearanceTopMm: number;
+  clearanceBottomMm: number;
+  bookHeightMinCm: number;
+  bookHeightMaxCm: number;
+  spineWidthMinCm: number;
+  coverWidthMinCm: number;
+  flapWidthMinCm: number;
+};
+
+/** A book dimension outside a profile's range; `field` is the book property at fault. */
+export type BookRangeIssue = {
+  field: "heightCm" | "spineWidthCm" | "coverWidthCm" | "flapWidthCm";
+  message: string;
+};
+
+export class ProductionProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProductionProfileError";
+  }
+}
+
+export const PRODUCTION_PROFILES: ProductionProfile[] = [
+  {
+    id: "flyleaf-standard",
+    label: "Flyleaf standard",
+    description: "Digital sheets trimmed on a guillotine: 2 mm between books, 10 mm at the sides.",
+    gapMm: 2,
+    clearanceSideMm: 10,
+    clearanceTopMm: 2,
+    clearanceBottomMm: 2,
+    bookHeightMinCm: 10,
+    bookHeightMaxCm: 26,
+    spineWidthMinCm: 0.3,
+    coverWidthMinCm: 5,
+    flapWidthMinCm: 0,
+  },
+  {
+    id: "large-format",
+    label: "Large format",
+    description: "Wide-format rolls for art books and folios, with a wider gutter for the roll cutter.",
+    gapMm: 4,
+    clearanceSideMm: 15,
+    clearanceTopMm: 5,
+    clearanceBottomMm: 5,
+    bookHeightMinCm: 15,
+    bookHeightMaxCm: 45,
+    spineWidthMinCm: 0.5,
+    coverWidthMinCm: 10,
+    flapWidthMinCm: 0,
+  },
+];
+
+export const DEFAULT_PRODUCTION_PROFILE = PRODUCTION_PROFILES[0];
+
+export function findProductionProfile(profiles: readonly ProductionProfile[], id: string): ProductionProfile {
+  return profiles.find((profile) => profile.id === id) ?? DEFAULT_PRODUCTION_PROFILE;
+}
+
+/**
+ * Adds `extra` profiles to `profiles`, replacing any with the same id, so a partner's config can override a built-in
+ * profile as well as add new ones.
+ */
+export function mergeProductionProfiles(
+  profiles: readonly ProductionProfile[],
+  extra: readonly ProductionProfile[],
+): ProductionProfile[] {
+  const merged = profiles.map((profile) => extra.find((candidate) => candidate.id === profile.id) ?? profile);
+  extra.forEach((profile) => {
+    if (!merged.some((candidate) => candidate.id === profile.id)) {
+      merged.push(profile);
+    }
+  });
+  return merged;
+}
+
+/** Writes a length given in centimetres, such as "10 cm" or "3 15/16 in", so messages follow the designer's units. */
+export type CentimetreFormatter = (valueCm: number) => string;
+
+const formatCentimetres: CentimetreFormatter = (valueCm) => `${valueCm} cm`;
+
+/** The "10 cm–26 cm" style summary of a profile's book heights, for input hints and messages. */
+export function formatHeightRange(profile: ProductionProfile, format: CentimetreFormatter = formatCentimetres): string {
+  return `${format(profile.bookHeightMinCm)}–${format(profile.bookHeightMaxCm)}`;
+}
+
+/**
+ * Checks one book against a profile's ranges. Cover and flap widths only matter when jackets are printed.
+ */
+export function checkBookRanges(
+  book: { label: string; heightCm: number; spineWidthCm: number; coverWidthCm: number; flapWidthCm: number },
+  profile: ProductionProfile,
+  jackets: boolean,
+  format: CentimetreFormatter = formatCentimetres,
+): BookRangeIssue[] {
+  const issues: BookRangeIssue[] = [];
+  if (book.heightCm < profile.bookHeightMinCm || book.heightCm > profile.bookHeightMaxCm) {
+    issues.push({
+      field: "heightCm",
+      message: `${book.label} must be between ${format(profile.bookHeightMinCm)} and ${format(profile.bookHeightMaxCm)} tall.`,
+    });
+  }
+  if (book.spineWidthCm < profile.spineWidthMinCm) {
+    issues.push({
+      field: "spineWidthCm",
+      message: `${book.label} needs a spine of at least ${format(profile.spineWidthMinCm)}.`,
+    });
+  }
+  if (jackets && book.coverWidthCm < profile.coverWidthMinCm) {
+    issues.push({
+      field: "coverWidthCm",
+      message: `${book.label} needs covers at least ${format(profile.coverWidthMinCm)} wide.`,
+    });
+  }
+  if (jackets && book.flapWidthCm < profile.flapWidthMinCm) {
+    issues.push({
+      field: "flapWidthCm",
+      message:
+        profile.flapWidthMinCm === 0
+          ? `${book.label} cannot have a negative flap width.`
+          : `${book.label} needs flaps at least ${format(profile.flapWidthMinCm)} wide.`,
+    });
+  }
+  return issues;
+}
+
+const NUMERIC_FIELDS = [
+  "gapMm",
+  "clearanceSideMm",
+  "clearanceTopMm",
+  "clearanceBottomMm",
+  "bookHeightMinCm",
+  "bookHeightMaxCm",
+  "spineWidthMinCm",
+  "coverWidthMinCm",
+  "flapWidthMinCm",
+] as const;
+
+/**
+ * Reads one profile from a config file or project document, rejecting anything that could not lay out a stack:
+ * negative room, or a height range that admits no book.
+ */
+export function parseProductionProfile(value: unknown, field: string): ProductionProfile {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new ProductionProfileError(`"${field}" is missing or malformed.`);
+  }
+  const record = value as Record<string, unknown>;
+  const readText = (key: "id" | "label" | "description") => {
+    const text = record[key];
+    if (typeof text !== "string" || (key !== "description" && text.trim() === "")) {
+      throw new ProductionProfileError(`"${field}.${key}" must be text.`);
+    }
+    return text;
+  };
+  const numbers = {} as Record<(typeof NUMERIC_FIELDS)[number], number>;
+  NUMERIC_FIELDS.forEach((key) => {
+    const number = record[key];
+    if (typeof number !== "number" || !Number.isFinite(number) || number < 0) {
+      throw new ProductionProfileError(`"${field}.${key}" must be a number of zero or more.`);
+    }
+    numbers[key] = number;
+  });
+  if (numbers.bookHeightMinCm >= numbers.bookHeightMaxCm) {
+    throw new ProductionProfileError(`"${field}" needs a minimum book height below its maximum.`);
+  }
+  return { id: readText("id"), label: readText("label"), description: readText("description"), ...numbers };
+}
+
+/**
+ * Reads a production config file: `{ "profiles": [...] }`, each entry shaped like `ProductionProfile`.
+ */
+export function parseProductionProfiles(value: unknown): ProductionProfile[] {
+  const profiles =
+    typeof value === "object" && value !== null && !Array.isArray(value)
+      ? (value as Record<string, unknown>).profiles
+      : undefined;
+  if (!Array.isArray(profiles)) {
+    throw new ProductionProfileError('Production config must have a "profiles" list.');
+  }
+  const parsed = profiles.map((profile, index) => parseProductionProfile(profile, `profiles[${index}]`));
+  const ids = new Set<string>();
+  parsed.forEach((profile) => {
+    if (ids.has(profile.id)) {
+      throw new ProductionProfileError(`Production profile "${profile.id}" is listed more than once.`);
+    }
+    ids.add(profile.id);
+  });
+  return parsed;
+}
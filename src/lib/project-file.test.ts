@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_ARTWORK_ORIENTATION } from "./artwork-transform";
+import { DEFAULT_STACK_ALIGNMENT, NO_PRINT_MARGINS } from "./geometry";
+import { DEFAULT_PRODUCTION_PROFILE } from "./production-profiles";
+import {
+  PROJECT_FORMAT,
+  PROJECT_SCHEMA_VERSION,
+  ProjectFileError,
+  migrateProjectDocument,
+  parseProjectDocument,
+  serializeProjectDocument,
+} from "./project-file";
+import { createSpineText } from "./spine-text";
+import { DEFAULT_UNIT_SYSTEM } from "./units";
+
+/** A project as the first release saved it: no spine text, one large text block and a bare artwork record. */
+function versionOneDocument(): Record<string, unknown> {
+  return {
+    format: PROJECT_FORMAT,
+    version: 1,
+    savedAt: "2024-01-01T00:00:00.000Z",
+    books: [
+      {
+        id: 1,
+        label: "Dune",
+        heightCm: 24,
+        spineWidthCm: 3,
+        coverWidthCm: 15,
+        flapWidthCm: 0,
+        color: "#2563eb",
+      },
+    ],
+    layoutMode: "spines",
+    paper: { id: "tabloid", orientation: "landscape", custom: [] },
+    artwork: {
+      source: null,
+      offsetMm: { x: 0, y: 0 },
+      zoom: 1,
+      hasManualOffset: false,
+      hasManualZoom: false,
+      dpiThresholds: { warningDpi: 150, errorDpi: 100 },
+    },
+    largeText: { enabled: true, text: "My shelf", fontFamily: "Georgia", sizeMm: 20, placement: "frontCovers" },
+  };
+}
+
+describe("migrateProjectDocument", () => {
+  it("brings a version 1 project up to the current schema with each version's defaults", () => {
+    const document = migrateProjectDocument(versionOneDocument());
+    expect(document.version).toBe(PROJECT_SCHEMA_VERSION);
+    expect(document).not.toHaveProperty("largeText");
+    expect(document.books).toEqual([
+      expect.objectContaining({ spineText: createSpineText(), isbn: null, verticalOffsetMm: 0 }),
+    ]);
+    expect(document.textLayers).toEqual([
+      expect.objectContaining({
+        text: "My shelf",
+        fontFamily: "Georgia",
+        sizeMm: 20,
+        visible: true,
+        anchor: { kind: "frontCovers" },
+        autoShrink: false,
+        gutterMode: "none",
+      }),
+    ]);
+    expect(document.fonts).toEqual([]);
+    expect(document.artwork).toMatchObject({
+      opacity: 1,
+      blendMode: "normal",
+      overlays: [],
+      orientation: DEFAULT_ARTWORK_ORIENTATION,
+    });
+    expect(document.print).toEqual(NO_PRINT_MARGINS);
+    expect(document.production).toEqual(DEFAULT_PRODUCTION_PROFILE);
+    expect(document.units).toBe(DEFAULT_UNIT_SYSTEM);
+    expect(document.stackAlignment).toBe(DEFAULT_STACK_ALIGNMENT);
+  });
+
+  it("hides a disabled large text block", () => {
+    const legacy = { ...versionOneDocument(), largeText: { enabled: false } };
+    expect(migrateProjectDocument(legacy).textLayers).toEqual([
+      expect.objectContaining({ visible: false, anchor: { kind: "stack" } }),
+    ]);
+  });
+
+  it("leaves a current document as it is", () => {
+    const current = parseProjectDocument(versionOneDocument());
+    expect(migrateProjectDocument(current)).toEqual(current);
+  });
+
+  it("rejects files that are not projects or come from a newer build", () => {
+    expect(() => migrateProjectDocument({ format: "other", version: 1 })).toThrow(
+      "This file is not a Flyleaf project.",
+    );
+    expect(() => migrateProjectDocument({ ...versionOneDocument(), version: PROJECT_SCHEMA_VERSION + 1 })).toThrow(
+      `This project was saved by a newer version of Flyleaf (schema ${PROJECT_SCHEMA_VERSION + 1}).`,
+    );
+    expect(() => migrateProjectDocument({ ...versionOneDocument(), version: 0 })).toThrow(ProjectFileError);
+  });
+});
+
+describe("parseProjectDocument", () => {
+  it("round-trips a document through serializeProjectDocument", () => {
+    const document = parseProjectDocument(versionOneDocument());
+    const edited = {
+      ...document,
+      stackAlignment: "center" as const,
+      books: [{ ...document.books[0], isbn: "9780306406157", verticalOffsetMm: -4 }],
+      units: "inFraction" as const,
+    };
+    expect(parseProjectDocument(JSON.parse(serializeProjectDocument(edited)))).toEqual(edited);
+  });
+
+  it("names the field at fault", () => {
+    const document = parseProjectDocument(versionOneDocument());
+    const broken = (patch: Record<string, unknown>) => () => parseProjectDocument({ ...document, ...patch });
+    expect(broken({ books: [] })).toThrow("A project needs at least one book.");
+    expect(broken({ books: [{ ...document.books[0], heightCm: "24" }] })).toThrow(
+      '"books[0].heightCm" must be a number.',
+    );
+    expect(broken({ stackAlignment: "middle" })).toThrow('"stackAlignment" must be one of top, center, bottom.');
+    expect(broken({ production: { ...document.production, gapMm: -1 } })).toThrow(ProjectFileError);
+  });
+
+  it("rejects embedded artwork that is not an image", () => {
+    const document = parseProjectDocument(versionOneDocument());
+    const source = { kind: "embedded", dataUrl: "data:text/html,<p>", name: null, isVector: false };
+    expect(() => parseProjectDocument({ ...document, artwork: { ...document.artwork, source } })).toThrow(
+      "Embedded artwork must be an image data URL.",
+    );
+  });
+});
@@ -0,0 +1,568 @@
+import { ARTWORK_BLEND_MODES, type ArtworkOverlay } from "./artwork-layers";
+import { DEFAULT_ARTWORK_ORIENTATION, clampArtworkCrop, type ArtworkOrientation } from "./artwork-transform";
+import type { UploadedFont } from "./fonts";
+import {
+  DEFAULT_STACK_ALIGNMENT,
+  NO_PRINT_MARGINS,
+  STACK_ALIGNMENTS,
+  type BookFormState,
+  type LayoutMode,
+  type PrintMargins,
+  type StackAlignment,
+} from "./geometry";
+import type { PaperOrientation, PaperSize } from "./paper-sizes";
+import type { DpiThresholds } from "./print-resolution";
+import {
+  DEFAULT_PRODUCTION_PROFILE,
+  ProductionProfileError,
+  parseProductionProfile,
+  type ProductionProfile,
+} from "./production-profiles";
+import { createSpineText, type SpineText } from "./spine-text";
+import { createTextLayer, type TextLayer, type TextLayerAnchor } from "./text-layers";
+import { DEFAULT_UNIT_SYSTEM, UNIT_SYSTEMS, type UnitSystem } from "./units";
+
+export const PROJECT_FORMAT = "flyleaf-project";
+export const PROJECT_SCHEMA_VERSION = 13;
+export const PROJECT_FILE_EXTENSION = ".flyleaf.json";
+export const AUTOSAVE_STORAGE_KEY = "flyleaf:autosave";
+
+export type ProjectArtworkSource =
+  | { kind: "embedded"; dataUrl: string; name: string | null; isVector: boolean }
+  | { kind: "reference"; url: string; name: string | null; isVector: boolean };
+
+/**
+ * Everything needed to restore a design. Geometry is stored in the same canonical units the designer uses
+ * (centimetres for book inputs, millimetres for placement). See docs/PROJECT_FORMAT.md.
+ */
+export type ProjectDocument = {
+  format: typeof PROJECT_FORMAT;
+  version: typeof PROJECT_SCHEMA_VERSION;
+  savedAt: string;
+  books: BookFormState[];
+  layoutMode: LayoutMode;
+  /** Which edge books of different heights line up on, before each book's own vertical offset. */
+  stackAlignment: StackAlignment;
+  paper: {
+    id: string;
+    orientation: PaperOrientation;
+    custom: PaperSize[];
+  };
+  artwork: {
+    source: ProjectArtworkSource | null;
+    offsetMm: { x: number; y: number };
+    zoom: number;
+    orientation: ArtworkOrientation;
+    hasManualOffset: boolean;
+    hasManualZoom: boolean;
+    dpiThresholds: DpiThresholds;
+    opacity: number;
+    blendMode: ArtworkOverlay["blendMode"];
+    /** Per-spine images drawn over the background in order, so later overlays sit on top. */
+    overlays: ArtworkOverlay[];
+  };
+  /** Drawn in order, so later layers sit on top. */
+  textLayers: TextLayer[];
+  /** User-uploaded fonts, embedded so text set in them renders and exports the same after reopening. */
+  fonts: UploadedFont[];
+  /** Bleed past each trim edge and the margin text keeps inside it, in millimetres. */
+  print: PrintMargins;
+  /** The print partner's rules the design was laid out under, kept whole so the file reopens on the same layout. */
+  production: ProductionProfile;
+  /** How the designer shows and reads lengths; stored values above stay metric. */
+  units: UnitSystem;
+};
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectFileError";
+  }
+}
+
+type RawDocument = Record<string, unknown> & { version: number };
+
+/**
+ * Upgrades a document saved by an older build one version at a time. Each entry takes a document at version `n`
+ * and returns it at version `n + 1`; add one whenever a field is renamed, removed or needs a default.
+ */
+const MIGRATIONS: Record<number, (document: RawDocument) => RawDocument> = {
+  // v2: per-spine text, starting empty with the default style.
+  1: (document) => ({
+    ...document,
+    version: 2,
+    books: Array.isArray(document.books)
+      ? document.books.map((book) => (isRecord(book) ? { ...book, spineText: createSpineText() } : book))
+      : document.books,
+  }),
+  // v3: the single large text block becomes the first of any number of text layers.
+  2: ({ largeText, ...document }) => {
+    const legacy = isRecord(largeText) ? largeText : {};
+    return {
+      ...document,
+      version: 3,
+      textLayers: [
+        createTextLayer(1, {
+          visible: legacy.enabled !== false,
+          ...(typeof legacy.text === "string" ? { text: legacy.text } : {}),
+          ...(typeof legacy.fontFamily === "string" ? { fontFamily: legacy.fontFamily } : {}),
+          ...(typeof legacy.sizeMm === "number" ? { sizeMm: legacy.sizeMm } : {}),
+          anchor: legacy.placement === "frontCovers" ? { kind: "frontCovers" } : { kind: "stack" },
+        }),
+      ],
+    };
+  },
+  // v4: text layers can shrink to fit their anchor; existing layers keep their fixed size.
+  3: (document) => ({
+    ...document,
+    version: 4,
+    textLayers: Array.isArray(document.textLayers)
+      ? document.textLayers.map((layer) => (isRecord(layer) ? { ...layer, autoShrink: false } : layer))
+      : document.textLayers,
+  }),
+  // v5: stack-wide text can be laid out around the gaps between books; existing layers ignore them as before.
+  4: (document) => ({
+    ...document,
+    version: 5,
+    textLayers: Array.isArray(document.textLayers)
+      ? document.textLayers.map((layer) => (isRecord(layer) ? { ...layer, gutterMode: "none" } : layer))
+      : document.textLayers,
+  }),
+  // v6: uploaded fonts are stored with the project; older projects only used the bundled ones.
+  5: (document) => ({ ...document, version: 6, fonts: [] }),
+  // v7: the artwork becomes a background layer with opacity and blend mode, plus optional per-spine overlays.
+  6: (document) => ({
+    ...document,
+    version: 7,
+    artwork: isRecord(document.artwork)
+      ? { ...document.artwork, opacity: 1, blendMode: "normal", overlays: [] }
+      : document.artwork,
+  }),
+  // v8: artwork can be rotated, flipped and cropped; older artwork is placed upright and uncropped.
+  7: (document) => ({
+    ...document,
+    version: 8,
+    artwork: isRecord(document.artwork)
+      ? { ...document.artwork, orientation: DEFAULT_ARTWORK_ORIENTATION }
+      : document.artwork,
+  }),
+  // v9: bleed and safe margins are configurable; older projects keep the layout they had, with neither.
+  8: (document) => ({ ...document, version: 9, print: NO_PRINT_MARGINS }),
+  // v10: gaps, clearances and book ranges come from a production profile; older projects used the standard rules.
+  9: (document) => ({ ...document, version: 10, production: DEFAULT_PRODUCTION_PROFILE }),
+  // v11: books can carry an ISBN; older books have none.
+  10: (document) => ({
+    ...document,
+    version: 11,
+    books: Array.isArray(document.books)
+      ? document.books.map((book) => (isRecord(book) ? { ...book, isbn: null } : book))
+      : document.books,
+  }),
+  // v12: the designer can show lengths in millimetres or inches; older projects were shown in centimetres.
+  11: (document) => ({ ...document, version: 12, units: DEFAULT_UNIT_SYSTEM }),
+  // v13: stacks can be top-, centre- or bottom-aligned and books offset vertically; older stacks stood on the shelf.
+  12: (document) => ({
+    ...document,
+    version: 13,
+    stackAlignment: DEFAULT_STACK_ALIGNMENT,
+    books: Array.isArray(document.books)
+      ? document.books.map((book) => (isRecord(book) ? { ...book, verticalOffsetMm: 0 } : book))
+      : document.books,
+  }),
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readNumber(value: unknown, field: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new ProjectFileError(`"${field}" must be a number.`);
+  }
+  return value;
+}
+
+function readString(value: unknown, field: string): string {
+  if (typeof value !== "string") {
+    throw new ProjectFileError(`"${field}" must be text.`);
+  }
+  return value;
+}
+
+function readBoolean(value: unknown, field: string): boolean {
+  if (typeof value !== "boolean") {
+    throw new ProjectFileError(`"${field}" must be true or false.`);
+  }
+  return value;
+}
+
+function readOneOf<T extends string>(value: unknown, options: readonly T[], field: string): T {
+  if (typeof value !== "string" || !options.includes(value as T)) {
+    throw new ProjectFileError(`"${field}" must be one of ${options.join(", ")}.`);
+  }
+  return value as T;
+}
+
+function readRecord(value: unknown, field: string): Record<string, unknown> {
+  if (!isRecord(value)) {
+    throw new ProjectFileError(`"${field}" is missing or malformed.`);
+  }
+  return value;
+}
+
+function readSpineText(value: unknown, field: string): SpineText {
+  const text = readRecord(value, field);
+  const style = readRecord(text.style, `${field}.style`);
+  return {
+    title: readString(text.title, `${field}.title`),
+    author: readString(text.author, `${field}.author`),
+    volume: readString(text.volume, `${field}.volume`),
+    style: {
+      fontFamily: readString(style.fontFamily, `${field}.style.fontFamily`),
+      sizeMm: readNumber(style.sizeMm, `${field}.style.sizeMm`),
+      color: readString(style.color, `${field}.style.color`),
+      align: readOneOf(style.align, ["start", "center", "end"] as const, `${field}.style.align`),
+      direction: readOneOf(style.direction, ["topToBottom", "bottomToTop"] as const, `${field}.style.direction`),
+    },
+  };
+}
+
+function readTextLayerAnchor(value: unknown, field: string): TextLayerAnchor {
+  const anchor = readRecord(value, field);
+  const kind = readOneOf(anchor.kind, ["stack", "spine", "frontCovers"] as const, `${field}.kind`);
+  return kind === "spine" ? { kind, bookId: readNumber(anchor.bookId, `${field}.bookId`) } : { kind };
+}
+
+function readTextLayer(value: unknown, index: number): TextLayer {
+  const field = `textLayers[${index}]`;
+  const layer = readRecord(value, field);
+  const offset = readRecord(layer.offsetMm, `${field}.offsetMm`);
+  const outline = readRecord(layer.outline, `${field}.outline`);
+  const shadow = readRecord(layer.shadow, `${field}.shadow`);
+  return {
+    id: readNumber(layer.id, `${field}.id`),
+    name: readString(layer.name, `${field}.name`),
+    text: readString(layer.text, `${field}.text`),
+    visible: readBoolean(layer.visible, `${field}.visible`),
+    anchor: readTextLayerAnchor(layer.anchor, `${field}.anchor`),
+    fontFamily: readString(layer.fontFamily, `${field}.fontFamily`),
+    sizeMm: readNumber(layer.sizeMm, `${field}.sizeMm`),
+    autoShrink: readBoolean(layer.autoShrink, `${field}.autoShrink`),
+    weight: readNumber(layer.weight, `${field}.weight`),
+    color: readString(layer.color, `${field}.color`),
+    letterSpacingMm: readNumber(layer.letterSpacingMm, `${field}.letterSpacingMm`),
+    lineHeight: readNumber(layer.lineHeight, `${field}.lineHeight`),
+    align: readOneOf(layer.align, ["left", "center", "right"] as const, `${field}.align`),
+    gutterMode: readOneOf(layer.gutterMode, ["none", "letterSpacing", "words"] as const, `${field}.gutterMode`),
+    rotationDeg: readNumber(layer.rotationDeg, `${field}.rotationDeg`),
+    offsetMm: { x: readNumber(offset.x, `${field}.offsetMm.x`), y: readNumber(offset.y, `${field}.offsetMm.y`) },
+    outline: {
+      enabled: readBoolean(outline.enabled, `${field}.outline.enabled`),
+      color: readString(outline.color, `${field}.outline.color`),
+      widthMm: readNumber(outline.widthMm, `${field}.outline.widthMm`),
+    },
+    shadow: {
+      enabled: readBoolean(shadow.enabled, `${field}.shadow.enabled`),
+      color: readString(shadow.color, `${field}.shadow.color`),
+      offsetXMm: readNumber(shadow.offsetXMm, `${field}.shadow.offsetXMm`),
+      offsetYMm: readNumber(shadow.offsetYMm, `${field}.shadow.offsetYMm`),
+    },
+  };
+}
+
+function readUploadedFont(value: unknown, index: number): UploadedFont {
+  const font = readRecord(value, `fonts[${index}]`);
+  const dataUrl = readString(font.dataUrl, `fonts[${index}].dataUrl`);
+  if (!dataUrl.startsWith("data:font/")) {
+    throw new ProjectFileError("Uploaded fonts must be embedded as font data URLs.");
+  }
+  return {
+    label: readString(font.label, `fonts[${index}].label`),
+    family: readString(font.family, `fonts[${index}].family`),
+    fileName: readString(font.fileName, `fonts[${index}].fileName`),
+    dataUrl,
+  };
+}
+
+function readBook(value: unknown, index: number): BookFormState {
+  const book = readRecord(value, `books[${index}]`);
+  return {
+    id: readNumber(book.id, `books[${index}].id`),
+    label: readString(book.label, `books[${index}].label`),
+    heightCm: readNumber(book.heightCm, `books[${index}].heightCm`),
+    spineWidthCm: readNumber(book.spineWidthCm, `books[${index}].spineWidthCm`),
+    coverWidthCm: readNumber(book.coverWidthCm, `books[${index}].coverWidthCm`),
+    flapWidthCm: readNumber(book.flapWidthCm, `books[${index}].flapWidthCm`),
+    color: readString(book.color, `books[${index}].color`),
+    isbn: book.isbn === null ? null : readString(book.isbn, `books[${index}].isbn`),
+    verticalOffsetMm: readNumber(book.verticalOffsetMm, `books[${index}].verticalOffsetMm`),
+    spineText: readSpineText(book.spineText, `books[${index}].spineText`),
+  };
+}
+
+function readPaper(value: unknown, index: number): PaperSize {
+  const paper = readRecord(value, `paper.custom[${index}]`);
+  return {
+    id: readString(paper.id, `paper.custom[${index}].id`),
+    label: readString(paper.label, `paper.custom[${index}].label`),
+    shortEdgeMm: readNumber(paper.shortEdgeMm, `paper.custom[${index}].shortEdgeMm`),
+    longEdgeMm: readNumber(paper.longEdgeMm, `paper.custom[${index}].longEdgeMm`),
+    kind: readOneOf(paper.kind, ["sheet", "roll"] as const, `paper.custom[${index}].kind`),
+    custom: true,
+  };
+}
+
+function readArtworkSource(value: unknown, field = "artwork.source"): ProjectArtworkSource | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const source = readRecord(value, field);
+  const kind = readOneOf(source.kind, ["embedded", "reference"] as const, `${field}.kind`);
+  const name = source.name === null || source.name === undefined ? null : readString(source.name, `${field}.name`);
+  const isVector = readBoolean(source.isVector, `${field}.isVector`);
+  if (kind === "embedded") {
+    const dataUrl = readString(source.dataUrl, `${field}.dataUrl`);
+    if (!dataUrl.startsWith("data:image/")) {
+      throw new ProjectFileError("Embedded artwork must be an image data URL.");
+    }
+    return { kind, dataUrl, name, isVector };
+  }
+  return { kind, url: readString(source.url, `${field}.url`), name, isVector };
+}
+
+function readArtworkOrientation(value: unknown): ArtworkOrientation {
+  const orientation = readRecord(value, "artwork.orientation");
+  const crop = readRecord(orientation.crop, "artwork.orientation.crop");
+  return {
+    rotationDeg: readNumber(orientation.rotationDeg, "artwork.orientation.rotationDeg"),
+    flipX: readBoolean(orientation.flipX, "artwork.orientation.flipX"),
+    flipY: readBoolean(orientation.flipY, "artwork.orientation.flipY"),
+    crop: clampArtworkCrop({
+      x: readNumber(crop.x, "artwork.orientation.crop.x"),
+      y: readNumber(crop.y, "artwork.orientation.crop.y"),
+      width: readNumber(crop.width, "artwork.orientation.crop.width"),
+      height: readNumber(crop.height, "artwork.orientation.crop.height"),
+    }),
+  };
+}
+
+function readPrintMargins(value: unknown): PrintMargins {
+  const print = readRecord(value, "print");
+  const bleed = readRecord(print.bleedMm, "print.bleedMm");
+  return {
+    bleedMm: {
+      top: readNumber(bleed.top, "print.bleedMm.top"),
+      right: readNumber(bleed.right, "print.bleedMm.right"),
+      bottom: readNumber(bleed.bottom, "print.bleedMm.bottom"),
+      left: readNumber(bleed.left, "print.bleedMm.left"),
+    },
+    safeMarginMm: readNumber(print.safeMarginMm, "print.safeMarginMm"),
+  };
+}
+
+function readProductionProfile(value: unknown): ProductionProfile {
+  try {
+    return parseProductionProfile(value, "production");
+  } catch (error) {
+    if (error instanceof ProductionProfileError) {
+      throw new ProjectFileError(error.message);
+    }
+    throw error;
+  }
+}
+
+const BLEND_MODE_VALUES = ARTWORK_BLEND_MODES.map((mode) => mode.value);
+const UNIT_SYSTEM_VALUES = UNIT_SYSTEMS.map((option) => option.value);
+const STACK_ALIGNMENT_VALUES = STACK_ALIGNMENTS.map((option) => option.value);
+
+function readArtworkOverlays(value: unknown): ArtworkOverlay[] {
+  if (!Array.isArray(value)) {
+    throw new ProjectFileError('"artwork.overlays" must be a list.');
+  }
+  return value.map(readArtworkOverlay);
+}
+
+function readArtworkOverlay(value: unknown, index: number): ArtworkOverlay {
+  const field = `artwork.overlays[${index}]`;
+  const overlay = readRecord(value, field);
+  const source = readArtworkSource(overlay.source, `${field}.source`);
+  if (!source) {
+    throw new ProjectFileError(`"${field}.source" is missing.`);
+  }
+  const pixelSize = readRecord(overlay.pixelSize, `${field}.pixelSize`);
+  const offset = readRecord(overlay.offsetMm, `${field}.offsetMm`);
+  if (!Array.isArray(overlay.bookIds)) {
+    throw new ProjectFileError(`"${field}.bookIds" must be a list of book ids.`);
+  }
+  return {
+    id: readNumber(overlay.id, `${field}.id`),
+    name: readString(overlay.name, `${field}.name`),
+    visible: readBoolean(overlay.visible, `${field}.visible`),
+    source,
+    pixelSize: {
+      widthPx: readNumber(pixelSize.widthPx, `${field}.pixelSize.widthPx`),
+      heightPx: readNumber(pixelSize.heightPx, `${field}.pixelSize.heightPx`),
+    },
+    bookIds: overlay.bookIds.map((bookId, bookIndex) => readNumber(bookId, `${field}.bookIds[${bookIndex}]`)),
+    edge: readOneOf(overlay.edge, ["top", "bottom"] as const, `${field}.edge`),
+    offsetMm: { x: readNumber(offset.x, `${field}.offsetMm.x`), y: readNumber(offset.y, `${field}.offsetMm.y`) },
+    zoom: readNumber(overlay.zoom, `${field}.zoom`),
+    opacity: readNumber(overlay.opacity, `${field}.opacity`),
+    blendMode: readOneOf(overlay.blendMode, BLEND_MODE_VALUES, `${field}.blendMode`),
+  };
+}
+
+/**
+ * Brings a parsed document up to the current schema version, rejecting files from newer builds.
+ */
+export function migrateProjectDocument(value: unknown): RawDocument {
+  if (!isRecord(value) || value.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError("This file is not a Flyleaf project.");
+  }
+  let document = { ...value, version: readNumber(value.version, "version") } as RawDocument;
+  if (document.version > PROJECT_SCHEMA_VERSION) {
+    throw new ProjectFileError(
+      `This project was saved by a newer version of Flyleaf (schema ${document.version}). Please update and try again.`,
+    );
+  }
+  while (document.version < PROJECT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[document.version];
+    if (!migrate) {
+      throw new ProjectFileError(`Projects saved with schema ${document.version} can no longer be opened.`);
+    }
+    document = migrate(document);
+  }
+  return document;
+}
+
+/**
+ * Validates a project file (already JSON-parsed), migrating older schema versions first.
+ */
+export function parseProjectDocument(value: unknown): ProjectDocument {
+  const document = migrateProjectDocument(value);
+  if (!Array.isArray(document.books) || document.books.length === 0) {
+    throw new ProjectFileError("A project needs at least one book.");
+  }
+  const paper = readRecord(document.paper, "paper");
+  const artwork = readRecord(document.artwork, "artwork");
+  const offset = readRecord(artwork.offsetMm, "artwork.offsetMm");
+  const thresholds = readRecord(artwork.dpiThresholds, "artwork.dpiThresholds");
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_SCHEMA_VERSION,
+    savedAt: typeof document.savedAt === "string" ? document.savedAt : new Date().toISOString(),
+    books: document.books.map(readBook),
+    layoutMode: readOneOf(document.layoutMode, ["spines", "jacket"] as const, "layoutMode"),
+    stackAlignment: readOneOf(document.stackAlignment, STACK_ALIGNMENT_VALUES, "stackAlignment"),
+    paper: {
+      id: readString(paper.id, "paper.id"),
+      orientation: readOneOf(paper.orientation, ["landscape", "portrait"] as const, "paper.orientation"),
+      custom: Array.isArray(paper.custom) ? paper.custom.map(readPaper) : [],
+    },
+    artwork: {
+      source: readArtworkSource(artwork.source),
+      offsetMm: { x: readNumber(offset.x, "artwork.offsetMm.x"), y: readNumber(offset.y, "artwork.offsetMm.y") },
+      zoom: readNumber(artwork.zoom, "artwork.zoom"),
+      orientation: readArtworkOrientation(artwork.orientation),
+      hasManualOffset: readBoolean(artwork.hasManualOffset, "artwork.hasManualOffset"),
+      hasManualZoom: readBoolean(artwork.hasManualZoom, "artwork.hasManualZoom"),
+      dpiThresholds: {
+        warningDpi: readNumber(thresholds.warningDpi, "artwork.dpiThresholds.warningDpi"),
+        errorDpi: readNumber(thresholds.errorDpi, "artwork.dpiThresholds.errorDpi"),
+      },
+      opacity: readNumber(artwork.opacity, "artwork.opacity"),
+      blendMode: readOneOf(artwork.blendMode, BLEND_MODE_VALUES, "artwork.blendMode"),
+      overlays: readArtworkOverlays(artwork.overlays),
+    },
+    textLayers: Array.isArray(document.textLayers) ? document.textLayers.map(readTextLayer) : [],
+    fonts: Array.isArray(document.fonts) ? document.fonts.map(readUploadedFont) : [],
+    print: readPrintMargins(document.print),
+    production: readProductionProfile(document.production),
+    units: readOneOf(document.units, UNIT_SYSTEM_VALUES, "units"),
+  };
+}
+
+export function serializeProjectDocument(document: ProjectDocument): string {
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * Reads a blob (an uploaded artwork's object URL target) into a data URL so it can be embedded in a project file.
+ */
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new ProjectFileError("The artwork could not be embedded in the project."));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Writes the autosave slot. Returns false when the browser refuses (usually because embedded artwork exceeds the
+ * storage quota) so the caller can retry without the artwork.
+ */
+export function writeAutosave(document: ProjectDocument): boolean {
+  try {
+    window.localStorage.setItem(AUTOSAVE_STORAGE_KEY, serializeProjectDocument(document));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function readAutosave(): ProjectDocument | null {
+  try {
+    const stored = window.localStorage.getItem(AUTOSAVE_STORAGE_KEY);
+    return stored ? parseProjectDocument(JSON.parse(stored)) : null;
+  } catch {
+    return null;
+  }
+}
+
+const embeddedArtworkCache = new Map<string, string>();
+
+async function embedBlobUrl(url: string): Promise<string> {
+  let dataUrl = embeddedArtworkCache.get(url);
+  if (!dataUrl) {
+    const response = await fetch(url);
+    dataUrl = await blobToDataUrl(await response.blob());
+    embeddedArtworkCache.set(url, dataUrl);
+  }
+  return dataUrl;
+}
+
+async function embedArtworkSource(source: ProjectArtworkSource): Promise<ProjectArtworkSource> {
+  if (source.kind !== "reference" || !source.url.startsWith("blob:")) {
+    return source;
+  }
+  return { kind: "embedded", dataUrl: await embedBlobUrl(source.url), name: source.name, isVector: source.isVector };
+}
+
+/**
+ * Swaps references to uploaded (blob:) artwork and overlays for embedded data URLs, since object URLs do not survive a
+ * reload or leave the browser. Public artwork URLs stay as references.
+ */
+export async function embedProjectArtwork(document: ProjectDocument): Promise<ProjectDocument> {
+  const { source, overlays } = document.artwork;
+  const isUploaded = (candidate: ProjectArtworkSource | null) =>
+    candidate?.kind === "reference" && candidate.url.startsWith("blob:");
+  if (!isUploaded(source) && !overlays.some((overlay) => isUploaded(overlay.source))) {
+    return document;
+  }
+  return {
+    ...document,
+    artwork: {
+      ...document.artwork,
+      source: source ? await embedArtworkSource(source) : null,
+      overlays: await Promise.all(
+        overlays.map(async (overlay) => ({ ...overlay, source: await embedArtworkSource(overlay.source) })),
+      ),
+    },
+  };
+}
+
+export function withoutArtwork(document: ProjectDocument): ProjectDocument {
+  return { ...document, artwork: { ...document.artwork, source: null, overlays: [] } };
+}
@@ -0,0 +1,48 @@
+import { CM_TO_MM } from "./geometry";
+
+/** A text paper and how thick one leaf (two pages) of it is. */
+export type PaperStock = {
+  id: string;
+  label: string;
+  leafCaliperMm: number;
+};
+
+export type BindingStyle = "paperback" | "hardcover";
+
+export const PAPER_STOCKS: PaperStock[] = [
+  { id: "uncoated-80", label: "Uncoated white, 80 gsm", leafCaliperMm: 0.1 },
+  { id: "book-wove-70", label: "Cream book wove, 70 gsm (bulky)", leafCaliperMm: 0.12 },
+  { id: "mass-market-52", label: "Mass-market newsprint, 52 gsm", leafCaliperMm: 0.09 },
+  { id: "coated-matt-130", label: "Coated matt, 130 gsm", leafCaliperMm: 0.11 },
+  { id: "coated-gloss-115", label: "Coated gloss, 115 gsm", leafCaliperMm: 0.085 },
+];
+
+export const DEFAULT_PAPER_STOCK_ID = "uncoated-80";
+
+export const BINDING_STYLES: { value: BindingStyle; label: string }[] = [
+  { value: "paperback", label: "Paperback" },
+  { value: "hardcover", label: "Hardcover" },
+];
+
+/** What the binding adds to the text block: the cover wrap for paperbacks, boards and hinge for hardcovers. */
+const BINDING_ALLOWANCE_MM: Record<BindingStyle, number> = {
+  paperback: 0.6,
+  hardcover: 6,
+};
+
+/** Estimates are rounded to the same 0.05 cm step as the spine width input. */
+const ESTIMATE_STEP_CM = 0.05;
+
+export function findPaperStock(id: string): PaperStock {
+  return PAPER_STOCKS.find((stock) => stock.id === id) ?? PAPER_STOCKS[0];
+}
+
+/**
+ * Estimates a spine width from the page count when no measured width is known: one paper caliper per leaf plus the
+ * binding's allowance. Paper varies between mills, so the estimate should be checked against a proof copy.
+ */
+export function estimateSpineWidthCm(pageCount: number, stock: PaperStock, binding: BindingStyle): number {
+  const leaves = Math.ceil(Math.max(pageCount, 0) / 2);
+  const widthCm = (leaves * stock.leafCaliperMm + BINDING_ALLOWANCE_MM[binding]) / CM_TO_MM;
+  return Number((Math.round(widthCm / ESTIMATE_STEP_CM) * ESTIMATE_STEP_CM).toFixed(2));
+}
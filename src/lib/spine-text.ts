@@ -0,0 +1,145 @@
+import type { BookRect } from "./geometry";
+
+/** Reading direction along a spine: English-language convention runs top to bottom, much of Europe bottom to top. */
+export type SpineTextDirection = "topToBottom" | "bottomToTop";
+
+/** Where the line sits along the spine, measured in its reading direction. */
+export type SpineTextAlign = "start" | "center" | "end";
+
+export type SpineTextStyle = {
+  fontFamily: string;
+  sizeMm: number;
+  color: string;
+  align: SpineTextAlign;
+  direction: SpineTextDirection;
+};
+
+export type SpineText = {
+  title: string;
+  author: string;
+  volume: string;
+  style: SpineTextStyle;
+};
+
+/**
+ * The safe area text may occupy on one spine, in the same printed coordinates as its `BookRect`. `lengthMm` runs along
+ * the spine (the reading direction) and `thicknessMm` across it.
+ */
+export type SpineTextFrame = {
+  xMm: number;
+  yMm: number;
+  widthMm: number;
+  heightMm: number;
+  lengthMm: number;
+  thicknessMm: number;
+};
+
+/** Width in millimetres of `text` set at `sizeMm` in whichever font the caller renders with. */
+export type TextMeasure = (text: string, sizeMm: number) => number;
+
+export type FittedSpineText = {
+  line: string;
+  sizeMm: number;
+  lineWidthMm: number;
+  frame: SpineTextFrame;
+  fits: boolean;
+};
+
+export const SPINE_TEXT_MARGIN_ACROSS_MM = 1.5;
+export const SPINE_TEXT_MARGIN_ALONG_MM = 6;
+export const SPINE_TEXT_MIN_SIZE_MM = 1.5;
+/** Font size as a fraction of the spine thickness, leaving room for ascenders and descenders. */
+export const SPINE_TEXT_THICKNESS_RATIO = 0.8;
+export const SPINE_TEXT_SEPARATOR = "  ·  ";
+
+export const DEFAULT_SPINE_TEXT_STYLE: SpineTextStyle = {
+  fontFamily: "'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif",
+  sizeMm: 8,
+  color: "#f8fafc",
+  align: "center",
+  direction: "topToBottom",
+};
+
+export function createSpineText(title = ""): SpineText {
+  return { title, author: "", volume: "", style: { ...DEFAULT_SPINE_TEXT_STYLE } };
+}
+
+/**
+ * Joins the non-empty parts into the single line printed along the spine.
+ */
+export function composeSpineLine(text: SpineText): string {
+  const volume = text.volume.trim();
+  return [text.title.trim(), text.author.trim(), volume ? `Vol. ${volume}` : ""]
+    .filter((part) => part.length > 0)
+    .join(SPINE_TEXT_SEPARATOR);
+}
+
+/**
+ * The spine's text area, kept at least `safeMarginMm` from every trim: the head and tail always, and the sides only
+ * where the spine is the whole footprint (in a jacket they are folds).
+ */
+export function spineTextFrame(rect: BookRect, safeMarginMm = 0): SpineTextFrame | null {
+  const spine = rect.panels.find((panel) => panel.kind === "spine");
+  if (!spine) {
+    return null;
+  }
+  const sidesAreTrims = spine.widthMm === rect.widthMm;
+  const acrossMm = Math.max(SPINE_TEXT_MARGIN_ACROSS_MM, sidesAreTrims ? safeMarginMm : 0);
+  const alongMm = Math.max(SPINE_TEXT_MARGIN_ALONG_MM, safeMarginMm);
+  const widthMm = spine.widthMm - acrossMm * 2;
+  const heightMm = rect.heightMm - alongMm * 2;
+  if (widthMm <= 0 || heightMm <= 0) {
+    return null;
+  }
+  return {
+    xMm: spine.xMm + acrossMm,
+    yMm: rect.yMm + alongMm,
+    widthMm,
+    heightMm,
+    lengthMm: heightMm,
+    thicknessMm: widthMm,
+  };
+}
+
+/**
+ * Picks the largest size up to the book's chosen size at which the line fits the spine's safe area, both across
+ * (thickness) and along (length). Lines that would need less than `SPINE_TEXT_MIN_SIZE_MM` are set at the minimum and
+ * reported as not fitting.
+ */
+export function fitSpineText(
+  text: SpineText,
+  rect: BookRect,
+  measure: TextMeasure,
+  safeMarginMm = 0,
+): FittedSpineText | null {
+  const line = composeSpineLine(text);
+  const frame = spineTextFrame(rect, safeMarginMm);
+  if (!line || !frame) {
+    return null;
+  }
+  const widthAtOneMm = measure(line, 1);
+  const sizeForLengthMm = widthAtOneMm > 0 ? frame.lengthMm / widthAtOneMm : Number.POSITIVE_INFINITY;
+  const fittedMm = Math.min(text.style.sizeMm, frame.thicknessMm * SPINE_TEXT_THICKNESS_RATIO, sizeForLengthMm);
+  const sizeMm = Math.max(fittedMm, SPINE_TEXT_MIN_SIZE_MM);
+  return {
+    line,
+    sizeMm,
+    lineWidthMm: widthAtOneMm * sizeMm,
+    frame,
+    fits: fittedMm >= SPINE_TEXT_MIN_SIZE_MM,
+  };
+}
+
+/**
+ * Measures with a 2D canvas in the browser. Without a DOM (server rendering) it falls back to an average glyph width,
+ * which is only used until the client takes over.
+ */
+export function createCanvasTextMeasure(fontFamily: string, weight = 400): TextMeasure {
+  const context = typeof document === "undefined" ? null : document.createElement("canvas").getContext("2d");
+  if (!context) {
+    return (text, sizeMm) => text.length * sizeMm * 0.55;
+  }
+  const referencePx = 100;
+  context.font = `${weight} ${referencePx}px ${fontFamily}`;
+  return (text, sizeMm) => (context.measureText(text).width / referencePx) * sizeMm;
+}
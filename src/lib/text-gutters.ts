@@ -0,0 +1,100 @@
+import type { StackGeometry } from "./geometry";
+
+/** The gap between two neighbouring spines in shelf coordinates; anything printed here is cut off. */
+export type Gutter = {
+  leftMm: number;
+  rightMm: number;
+};
+
+/**
+ * How stack-wide text keeps clear of gutters: `letterSpacing` widens the space before the one glyph that would land in
+ * a gap, `words` moves the whole word onto the next spine (falling back to a letter break for words wider than a spine).
+ */
+export type TextGutterMode = "none" | "letterSpacing" | "words";
+
+/** One character on a line: where it starts and how far it advances, before any gutter spacing. */
+export type GlyphSpan = {
+  character: string;
+  startMm: number;
+  widthMm: number;
+};
+
+/** Glyphs are kept at least this far from a gutter edge so ink overhang and trimming tolerance stay on the spine. */
+export const GUTTER_CLEARANCE_MM = 0.3;
+
+export const TEXT_GUTTER_MODES: { value: TextGutterMode; label: string }[] = [
+  { value: "none", label: "Ignore gutters" },
+  { value: "letterSpacing", label: "Space letters around gutters" },
+  { value: "words", label: "Move words past gutters" },
+];
+
+export function findShelfGutters(shelf: StackGeometry): Gutter[] {
+  return shelf.rects.slice(1).map((rect, index) => {
+    const previous = shelf.rects[index];
+    return { leftMm: previous.xMm + previous.widthMm, rightMm: rect.xMm };
+  });
+}
+
+export function straddlesGutter(gutters: Gutter[], leftMm: number, rightMm: number): boolean {
+  return gutters.some((gutter) => rightMm > gutter.leftMm && leftMm < gutter.rightMm);
+}
+
+function isBlank(character: string): boolean {
+  return /\s/.test(character);
+}
+
+/**
+ * Extra space to insert before each glyph so no visible character lands in or beside a gutter, for a line whose first
+ * glyph starts at `lineStartMm` in shelf coordinates. Spacing only ever pushes text to the right, so the line grows by
+ * the sum of the returned values. Blank characters may sit in a gutter.
+ */
+export function spaceGlyphsAroundGutters(
+  glyphs: GlyphSpan[],
+  lineStartMm: number,
+  gutters: Gutter[],
+  mode: Exclude<TextGutterMode, "none">,
+): number[] {
+  const extras = glyphs.map(() => 0);
+  let shiftMm = 0;
+  let movedWordStart = -1;
+  for (let position = 0; position < glyphs.length; position += 1) {
+    const glyph = glyphs[position];
+    if (isBlank(glyph.character)) {
+      continue;
+    }
+    const leftMm = lineStartMm + glyph.startMm + shiftMm;
+    const gutter = gutters.find(
+      (candidate) =>
+        leftMm + glyph.widthMm > candidate.leftMm - GUTTER_CLEARANCE_MM &&
+        leftMm < candidate.rightMm + GUTTER_CLEARANCE_MM,
+    );
+    if (!gutter) {
+      continue;
+    }
+    let target = position;
+    if (mode === "words") {
+      let wordStart = position;
+      while (wordStart > 0 && !isBlank(glyphs[wordStart - 1].character)) {
+        wordStart -= 1;
+      }
+      let wordEnd = position;
+      while (wordEnd < glyphs.length - 1 && !isBlank(glyphs[wordEnd + 1].character)) {
+        wordEnd += 1;
+      }
+      const wordWidthMm = glyphs[wordEnd].startMm + glyphs[wordEnd].widthMm - glyphs[wordStart].startMm;
+      const nextGutter = gutters.find((candidate) => candidate.leftMm >= gutter.rightMm);
+      const roomMm = nextGutter ? nextGutter.leftMm - gutter.rightMm - 2 * GUTTER_CLEARANCE_MM : Infinity;
+      // A word wider than the next spine would only collide again there, so it breaks between letters instead.
+      if (wordStart !== movedWordStart && wordWidthMm <= roomMm) {
+        target = wordStart;
+        movedWordStart = wordStart;
+      }
+    }
+    const pushMm = gutter.rightMm + GUTTER_CLEARANCE_MM - (lineStartMm + glyphs[target].startMm + shiftMm);
+    extras[target] += pushMm;
+    shiftMm += pushMm;
+    // Re-check from the moved glyph: it now clears this gutter but may reach the next one on a narrow spine.
+    position = target - 1;
+  }
+  return extras;
+}
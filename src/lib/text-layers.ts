@@ -0,0 +1,390 @@
+import { clamp, type StackLayout } from "./geometry";
+import type { TextMeasure } from "./spine-text";
+import {
+  spaceGlyphsAroundGutters,
+  straddlesGutter,
+  type GlyphSpan,
+  type Gutter,
+  type TextGutterMode,
+} from "./text-gutters";
+
+/**
+ * What a text layer is positioned against. `stack` spans the spines in shelf coordinates (so in jacket mode it shows
+ * through each spine, like the artwork); `spine` pins the layer to one book's spine; `frontCovers` repeats it on every
+ * front cover and falls back to `stack` in spines-only mode.
+ */
+export type TextLayerAnchor = { kind: "stack" } | { kind: "spine"; bookId: number } | { kind: "frontCovers" };
+
+export type TextLayerAlign = "left" | "center" | "right";
+
+export type TextLayerOutline = {
+  enabled: boolean;
+  color: string;
+  widthMm: number;
+};
+
+export type TextLayerShadow = {
+  enabled: boolean;
+  color: string;
+  offsetXMm: number;
+  offsetYMm: number;
+};
+
+/**
+ * One block of text on the design. `offsetMm` moves the block's centre away from the centre of its anchor box and
+ * `rotationDeg` turns it clockwise about that centre. With `autoShrink`, `sizeMm` is the largest size and the layer is
+ * set smaller whenever that is what it takes to fit its anchor. `gutterMode` only affects unrotated stack-wide layers,
+ * the only ones that can run across the gaps between books.
+ */
+export type TextLayer = {
+  id: number;
+  name: string;
+  text: string;
+  visible: boolean;
+  anchor: TextLayerAnchor;
+  fontFamily: string;
+  sizeMm: number;
+  autoShrink: boolean;
+  weight: number;
+  color: string;
+  letterSpacingMm: number;
+  lineHeight: number;
+  align: TextLayerAlign;
+  gutterMode: TextGutterMode;
+  rotationDeg: number;
+  offsetMm: { x: number; y: number };
+  outline: TextLayerOutline;
+  shadow: TextLayerShadow;
+};
+
+/**
+ * An anchor resolved against the current layout. `space` says whether the box is in shelf coordinates (shared with the
+ * artwork) or printed coordinates (the layout's own rects); printed boxes also name the book they sit on.
+ */
+export type TextLayerBox = {
+  space: "shelf" | "printed";
+  bookId: number | null;
+  leftMm: number;
+  topMm: number;
+  widthMm: number;
+  heightMm: number;
+};
+
+export const TEXT_LAYER_WEIGHTS = [
+  { value: 400, label: "Regular" },
+  { value: 500, label: "Medium" },
+  { value: 600, label: "Semibold" },
+  { value: 700, label: "Bold" },
+] as const;
+
+/** Weights from here up print with the bold cut of the PDF font. */
+export const TEXT_LAYER_BOLD_WEIGHT = 600;
+/** Share of the anchor box a line may fill before it wraps. */
+export const TEXT_LAYER_WRAP_RATIO = 0.92;
+
+export function createTextLayer(id: number, overrides: Partial<TextLayer> = {}): TextLayer {
+  return {
+    id,
+    name: `Text ${id}`,
+    text: "Collection Title",
+    visible: true,
+    anchor: { kind: "stack" },
+    fontFamily: "'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif",
+    sizeMm: 36,
+    autoShrink: false,
+    weight: 400,
+    color: "#f8fafc",
+    letterSpacingMm: 0,
+    lineHeight: 1.1,
+    align: "center",
+    gutterMode: "none",
+    rotationDeg: 0,
+    offsetMm: { x: 0, y: 0 },
+    outline: { enabled: false, color: "#0f172a", widthMm: 0.4 },
+    shadow: { enabled: true, color: "#0f172a", offsetXMm: 0.3, offsetYMm: 0.5 },
+    ...overrides,
+  };
+}
+
+export function describeTextLayerAnchor(anchor: TextLayerAnchor, bookLabels: ReadonlyMap<number, string>): string {
+  if (anchor.kind === "spine") {
+    return `${bookLabels.get(anchor.bookId) ?? "Missing book"} spine`;
+  }
+  return anchor.kind === "frontCovers" ? "Each front cover" : "Across the stack";
+}
+
+/**
+ * Boxes the layer is laid out in. The stack box is the band every spine shares: from the first spine to the last and
+ * from the lowest top edge to the highest bottom edge, so it follows the stack alignment and book offsets (and is empty
+ * when no height is common to every spine). A layer pinned to a book that no longer exists resolves to no boxes and is
+ * not drawn.
+ */
+export function resolveTextLayerBoxes(layer: TextLayer, layout: StackLayout): TextLayerBox[] {
+  const anchor =
+    layer.anchor.kind === "frontCovers" && layout.mode !== "jacket" ? { kind: "stack" as const } : layer.anchor;
+  if (anchor.kind === "spine") {
+    const rect = layout.rects.find((candidate) => candidate.id === anchor.bookId);
+    const spine = rect?.panels.find((panel) => panel.kind === "spine");
+    return rect && spine
+      ? [
+          {
+            space: "printed",
+            bookId: rect.id,
+            leftMm: spine.xMm,
+            topMm: rect.yMm,
+            widthMm: spine.widthMm,
+            heightMm: rect.heightMm,
+          },
+        ]
+      : [];
+  }
+  if (anchor.kind === "frontCovers") {
+    return layout.rects.flatMap((rect) =>
+      rect.panels
+        .filter((panel) => panel.kind === "frontCover")
+        .map((panel) => ({
+          space: "printed" as const,
+          bookId: rect.id,
+          leftMm: panel.xMm,
+          topMm: rect.yMm,
+          widthMm: panel.widthMm,
+          heightMm: rect.heightMm,
+        })),
+    );
+  }
+  const rects = layout.shelf.rects;
+  if (rects.length === 0) {
+    return [];
+  }
+  const leftMm = rects[0].xMm;
+  const topMm = Math.max(...rects.map((rect) => rect.yMm));
+  const bottomMm = Math.min(...rects.map((rect) => rect.yMm + rect.heightMm));
+  const last = rects[rects.length - 1];
+  return [
+    {
+      space: "shelf",
+      bookId: null,
+      leftMm,
+      topMm,
+      widthMm: last.xMm + last.widthMm - leftMm,
+      heightMm: Math.max(bottomMm - topMm, 0),
+    },
+  ];
+}
+
+/** A run of a line drawn in one piece; `offsetMm` is measured from the line start and includes gutter spacing. */
+export type TextSegment = {
+  text: string;
+  offsetMm: number;
+};
+
+/** `startMm` is the line's left edge relative to the layer centre, before rotation. */
+export type TextLine = {
+  text: string;
+  startMm: number;
+  widthMm: number;
+  segments: TextSegment[];
+};
+
+/** An axis-aligned box, in the same coordinates as the anchor box, around a visible glyph overlapping a gutter. */
+export type GutterCollision = {
+  leftMm: number;
+  topMm: number;
+  widthMm: number;
+  heightMm: number;
+};
+
+/**
+ * A layer's text broken into lines at one size. Widths include letter spacing and gutter spacing; the block spans
+ * `blockLeftMm` to `blockLeftMm + blockWidthMm` horizontally and is centred vertically on the layer centre.
+ */
+export type TextLayerLayout = {
+  lines: TextLine[];
+  lineHeightMm: number;
+  blockLeftMm: number;
+  blockWidthMm: number;
+  blockHeightMm: number;
+  collisions: GutterCollision[];
+};
+
+/**
+ * Wraps text the way the preview's `whitespace-pre-wrap break-words` span does: explicit newlines are kept, words
+ * wrap greedily, and words wider than the box are broken between characters.
+ */
+export function wrapTextLines(text: string, measure: (value: string) => number, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  text.split("\n").forEach((paragraph) => {
+    let line = "";
+    paragraph.split(/(\s+)/).forEach((token) => {
+      if (!token) {
+        return;
+      }
+      const candidate = line + token;
+      if (measure(candidate) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (/^\s+$/.test(token)) {
+        lines.push(line);
+        line = "";
+        return;
+      }
+      if (line.trim()) {
+        lines.push(line.trimEnd());
+        line = "";
+      }
+      Array.from(token).forEach((character) => {
+        if (line && measure(line + character) > maxWidth) {
+          lines.push(line);
+          line = "";
+        }
+        line += character;
+      });
+    });
+    lines.push(line.trimEnd());
+  });
+
+  return lines;
+}
+
+/**
+ * Longest line that still fits inside the box once rotated: a line at angle θ needs `L·|cos θ|` of the box width and
+ * `L·|sin θ|` of its height.
+ */
+export function textLayerWrapWidthMm(box: TextLayerBox, rotationDeg: number): number {
+  const radians = (rotationDeg * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  const byWidth = cos > 1e-6 ? box.widthMm / cos : Number.POSITIVE_INFINITY;
+  const byHeight = sin > 1e-6 ? box.heightMm / sin : Number.POSITIVE_INFINITY;
+  return Math.min(byWidth, byHeight) * TEXT_LAYER_WRAP_RATIO;
+}
+
+/**
+ * Keeps the layer's centre inside its anchor box so a layer can never be pushed off the spines entirely.
+ */
+export function textLayerCentreMm(layer: TextLayer, box: TextLayerBox): { x: number; y: number } {
+  const halfWidth = box.widthMm / 2;
+  const halfHeight = box.heightMm / 2;
+  return {
+    x: box.leftMm + halfWidth + clamp(layer.offsetMm.x, -halfWidth, halfWidth),
+    y: box.topMm + halfHeight + clamp(layer.offsetMm.y, -halfHeight, halfHeight),
+  };
+}
+
+function measureGlyphs(text: string, measureLine: (value: string) => number, letterSpacingMm: number): GlyphSpan[] {
+  const characters = Array.from(text);
+  let startMm = 0;
+  return characters.map((character, index) => {
+    const endMm = measureLine(characters.slice(0, index + 1).join(""));
+    const glyph = { character, startMm, widthMm: endMm - startMm - letterSpacingMm };
+    startMm = endMm;
+    return glyph;
+  });
+}
+
+/** Splits a line wherever gutter spacing was inserted so each run can be drawn at its own offset. */
+function segmentLine(glyphs: GlyphSpan[], extras: number[]): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let shiftMm = 0;
+  glyphs.forEach((glyph, index) => {
+    shiftMm += extras[index];
+    const current = segments[segments.length - 1];
+    if (current && extras[index] === 0) {
+      current.text += glyph.character;
+    } else {
+      segments.push({ text: glyph.character, offsetMm: glyph.startMm + shiftMm });
+    }
+  });
+  return segments;
+}
+
+/**
+ * Wraps the layer to its anchor at `sizeMm` using `measure`, which the preview backs with a canvas and the PDF export
+ * with the embedded font, so both break lines in the same places for the same metrics. When the box is in shelf
+ * coordinates, `gutters` are the gaps between spines: glyphs are spaced around them if the layer asks for it, and any
+ * visible glyph still overlapping one is reported as a collision.
+ */
+export function layoutTextLayer(
+  layer: TextLayer,
+  box: TextLayerBox,
+  measure: TextMeasure,
+  sizeMm = layer.sizeMm,
+  gutters: Gutter[] = [],
+): TextLayerLayout {
+  const measureLine = (value: string) => measure(value, sizeMm) + layer.letterSpacingMm * Array.from(value).length;
+  const texts = wrapTextLines(layer.text, measureLine, textLayerWrapWidthMm(box, layer.rotationDeg));
+  const naturalWidthsMm = texts.map(measureLine);
+  const naturalBlockWidthMm = Math.max(0, ...naturalWidthsMm);
+  const lineHeightMm = sizeMm * layer.lineHeight;
+  const blockHeightMm = texts.length * lineHeightMm;
+  const centre = textLayerCentreMm(layer, box);
+  const shelfGutters = box.space === "shelf" ? gutters : [];
+  const gutterMode = shelfGutters.length > 0 && layer.rotationDeg === 0 ? layer.gutterMode : "none";
+
+  // Each line's glyphs and where each one ends up after gutter spacing, for collision checks.
+  const placedGlyphs: { glyph: GlyphSpan; offsetMm: number }[][] = [];
+  const lines = texts.map((text, index) => {
+    const naturalWidthMm = naturalWidthsMm[index];
+    const startMm =
+      layer.align === "left"
+        ? -naturalBlockWidthMm / 2
+        : layer.align === "right"
+          ? naturalBlockWidthMm / 2 - naturalWidthMm
+          : -naturalWidthMm / 2;
+    const glyphs = shelfGutters.length > 0 ? measureGlyphs(text, measureLine, layer.letterSpacingMm) : [];
+    const extras =
+      gutterMode === "none"
+        ? glyphs.map(() => 0)
+        : spaceGlyphsAroundGutters(glyphs, centre.x + startMm, shelfGutters, gutterMode);
+    let shiftMm = 0;
+    placedGlyphs.push(
+      glyphs.map((glyph, glyphIndex) => {
+        shiftMm += extras[glyphIndex];
+        return { glyph, offsetMm: glyph.startMm + shiftMm };
+      }),
+    );
+    return gutterMode === "none"
+      ? { text, startMm, widthMm: naturalWidthMm, segments: [{ text, offsetMm: 0 }] }
+      : { text, startMm, widthMm: naturalWidthMm + shiftMm, segments: segmentLine(glyphs, extras) };
+  });
+
+  const blockLeftMm = lines.length > 0 ? Math.min(...lines.map((line) => line.startMm)) : 0;
+  const blockRightMm = lines.length > 0 ? Math.max(...lines.map((line) => line.startMm + line.widthMm)) : 0;
+  const radians = (layer.rotationDeg * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const collisions: GutterCollision[] = [];
+  lines.forEach((line, index) => {
+    const topMm = -blockHeightMm / 2 + index * lineHeightMm;
+    placedGlyphs[index].forEach(({ glyph, offsetMm }) => {
+      if (/\s/.test(glyph.character)) {
+        return;
+      }
+      const leftMm = line.startMm + offsetMm;
+      const corners = [
+        [leftMm, topMm],
+        [leftMm + glyph.widthMm, topMm],
+        [leftMm, topMm + lineHeightMm],
+        [leftMm + glyph.widthMm, topMm + lineHeightMm],
+      ].map(([x, y]) => ({ x: centre.x + x * cos - y * sin, y: centre.y + x * sin + y * cos }));
+      const minX = Math.min(...corners.map((corner) => corner.x));
+      const maxX = Math.max(...corners.map((corner) => corner.x));
+      if (straddlesGutter(shelfGutters, minX, maxX)) {
+        const minY = Math.min(...corners.map((corner) => corner.y));
+        const maxY = Math.max(...corners.map((corner) => corner.y));
+        collisions.push({ leftMm: minX, topMm: minY, widthMm: maxX - minX, heightMm: maxY - minY });
+      }
+    });
+  });
+
+  return {
+    lines,
+    lineHeightMm,
+    blockLeftMm,
+    blockWidthMm: blockRightMm - blockLeftMm,
+    blockHeightMm,
+    collisions,
+  };
+}
@@ -0,0 +1,211 @@
+import type { StackLayout } from "./geometry";
+import { textSafeBounds, type ZoneBoxMm } from "./print-zones";
+import type { TextMeasure } from "./spine-text";
+import { findShelfGutters, type Gutter } from "./text-gutters";
+import {
+  layoutTextLayer,
+  resolveTextLayerBoxes,
+  textLayerCentreMm,
+  type TextLayer,
+  type TextLayerBox,
+  type TextLayerLayout,
+} from "./text-layers";
+import { formatLength, type UnitSystem } from "./units";
+
+export type TextLevel = "ok" | "warning" | "error";
+
+export type TextLayerFit = {
+  sizeMm: number;
+  overflowMm: number;
+};
+
+export type TextLayerAssessment = TextLayerFit & {
+  id: number;
+  characterCount: number;
+  shrunk: boolean;
+  /** The stack-wide layout at the fitted size, or null for layers anchored to a single panel. */
+  shelfLayout: TextLayerLayout | null;
+  level: TextLevel;
+  message: string;
+};
+
+export type TextReport = {
+  level: TextLevel;
+  layers: TextLayerAssessment[];
+};
+
+export const TEXT_LAYER_MAX_CHARACTERS = 500;
+/** The counter turns to a warning once this share of the limit is used. */
+export const TEXT_LAYER_CHARACTER_WARNING_RATIO = 0.9;
+export const TEXT_LAYER_MIN_SIZE_MM = 2;
+/** Overflow smaller than this is measurement noise rather than clipped ink. */
+const OVERFLOW_TOLERANCE_MM = 0.05;
+const SHRINK_ITERATIONS = 12;
+
+/**
+ * How far a laid-out block, rotated about the layer centre, reaches past the edges of `bounds` (by default its own
+ * anchor `box`). Zero means every line is inside and nothing is clipped.
+ */
+export function textLayerOverflowMm(
+  layer: TextLayer,
+  box: TextLayerBox,
+  layout: TextLayerLayout,
+  bounds: ZoneBoxMm = box,
+): number {
+  const radians = (layer.rotationDeg * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const centre = textLayerCentreMm(layer, box);
+  const left = layout.blockLeftMm;
+  const right = left + layout.blockWidthMm;
+  const top = -layout.blockHeightMm / 2;
+  const bottom = layout.blockHeightMm / 2;
+  const corners = [
+    [left, top],
+    [right, top],
+    [left, bottom],
+    [right, bottom],
+  ].map(([x, y]) => ({ x: centre.x + x * cos - y * sin, y: centre.y + x * sin + y * cos }));
+  return Math.max(
+    0,
+    bounds.leftMm - Math.min(...corners.map((corner) => corner.x)),
+    Math.max(...corners.map((corner) => corner.x)) - (bounds.leftMm + bounds.widthMm),
+    bounds.topMm - Math.min(...corners.map((corner) => corner.y)),
+    Math.max(...corners.map((corner) => corner.y)) - (bounds.topMm + bounds.heightMm),
+  );
+}
+
+/**
+ * The size a layer is set at across all of its boxes. Without `autoShrink` that is always `sizeMm`; with it, the
+ * largest size down to `TEXT_LAYER_MIN_SIZE_MM` at which every box fits, so repeated cover titles stay identical.
+ */
+export function fitTextLayerSize(
+  layer: TextLayer,
+  boxes: TextLayerBox[],
+  measure: TextMeasure,
+  gutters: Gutter[] = [],
+): TextLayerFit {
+  const overflowAt = (sizeMm: number) =>
+    Math.max(
+      0,
+      ...boxes.map((box) => textLayerOverflowMm(layer, box, layoutTextLayer(layer, box, measure, sizeMm, gutters))),
+    );
+  const overflowMm = overflowAt(layer.sizeMm);
+  if (!layer.autoShrink || overflowMm <= OVERFLOW_TOLERANCE_MM || layer.sizeMm <= TEXT_LAYER_MIN_SIZE_MM) {
+    return { sizeMm: layer.sizeMm, overflowMm };
+  }
+  const minOverflowMm = overflowAt(TEXT_LAYER_MIN_SIZE_MM);
+  if (minOverflowMm > OVERFLOW_TOLERANCE_MM) {
+    return { sizeMm: TEXT_LAYER_MIN_SIZE_MM, overflowMm: minOverflowMm };
+  }
+  let low = TEXT_LAYER_MIN_SIZE_MM;
+  let high = layer.sizeMm;
+  for (let step = 0; step < SHRINK_ITERATIONS; step += 1) {
+    const middle = (low + high) / 2;
+    if (overflowAt(middle) <= OVERFLOW_TOLERANCE_MM) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return { sizeMm: low, overflowMm: 0 };
+}
+
+function assessTextLayer(
+  layer: TextLayer,
+  layout: StackLayout,
+  measure: TextMeasure,
+  units: UnitSystem,
+): TextLayerAssessment {
+  const formatDistance = (valueMm: number) => formatLength(valueMm, units);
+  const formatSize = (valueMm: number) => formatLength(valueMm, units, "type");
+  const characterCount = layer.text.length;
+  const isPrinted = layer.visible && layer.text.trim().length > 0;
+  const boxes = resolveTextLayerBoxes(layer, layout);
+  const gutters = findShelfGutters(layout.shelf);
+  const fit = isPrinted ? fitTextLayerSize(layer, boxes, measure, gutters) : { sizeMm: layer.sizeMm, overflowMm: 0 };
+  const shrunk = fit.sizeMm < layer.sizeMm;
+  const shelfBox = boxes.find((box) => box.space === "shelf");
+  const shelfLayout = isPrinted && shelfBox ? layoutTextLayer(layer, shelfBox, measure, fit.sizeMm, gutters) : null;
+  const collisionCount = shelfLayout?.collisions.length ?? 0;
+  // Where the fitted text reaches into the safe margin, by book, or the whole stack for stack-wide layers.
+  const unsafePlaces = isPrinted
+    ? boxes.flatMap((box) => {
+        const laidOut = layoutTextLayer(layer, box, measure, fit.sizeMm, gutters);
+        const intrusionMm = textLayerOverflowMm(layer, box, laidOut, textSafeBounds(box, layout));
+        if (intrusionMm <= OVERFLOW_TOLERANCE_MM) {
+          return [];
+        }
+        const label = layout.rects.find((rect) => rect.id === box.bookId)?.label ?? "the stack";
+        return [{ label, intrusionMm }];
+      })
+    : [];
+  const result = (level: TextLevel, message: string) => ({
+    id: layer.id,
+    characterCount,
+    shrunk,
+    shelfLayout,
+    ...fit,
+    level,
+    message,
+  });
+
+  if (characterCount > TEXT_LAYER_MAX_CHARACTERS) {
+    return result(
+      "error",
+      `${layer.name} is ${characterCount - TEXT_LAYER_MAX_CHARACTERS} characters over the ${TEXT_LAYER_MAX_CHARACTERS}-character limit.`,
+    );
+  }
+  if (fit.overflowMm > OVERFLOW_TOLERANCE_MM) {
+    return result(
+      "error",
+      layer.autoShrink
+        ? `${layer.name} does not fit even at ${formatSize(TEXT_LAYER_MIN_SIZE_MM)} — shorten the text or move it.`
+        : `${layer.name} runs ${formatDistance(fit.overflowMm)} past its anchor — shorten it, make it smaller or turn on shrink to fit.`,
+    );
+  }
+  if (unsafePlaces.length > 0) {
+    const intrusionMm = Math.max(...unsafePlaces.map((place) => place.intrusionMm));
+    const places = unsafePlaces.map((place) => place.label).join(", ");
+    return result(
+      "warning",
+      `${layer.name} reaches ${formatDistance(intrusionMm)} into the ${formatDistance(layout.metrics.margins.safeMarginMm)} safe margin on ${places} and may be trimmed.`,
+    );
+  }
+  if (collisionCount > 0) {
+    const characters = collisionCount === 1 ? "1 character sits" : `${collisionCount} characters sit`;
+    return result(
+      "warning",
+      layer.gutterMode === "none"
+        ? `${characters} in the gaps between books and will be cut apart — choose a gutter option to avoid them.`
+        : `${characters} in the gaps between books even after spacing — shorten the text or make it smaller.`,
+    );
+  }
+  if (characterCount >= TEXT_LAYER_MAX_CHARACTERS * TEXT_LAYER_CHARACTER_WARNING_RATIO) {
+    return result("warning", `${TEXT_LAYER_MAX_CHARACTERS - characterCount} characters left.`);
+  }
+  if (!isPrinted) {
+    return result("ok", layer.visible ? "Empty layers are not printed." : "Hidden layers are not printed.");
+  }
+  return result("ok", shrunk ? `Shrunk to ${formatSize(fit.sizeMm)} to fit.` : `Fits at ${formatSize(fit.sizeMm)}.`);
+}
+
+/**
+ * Checks every layer against the character limit and measures it against its anchor. Errors block export; the
+ * returned sizes are what the preview should render at. Sizes, overflows and margins in messages are written in
+ * `units`, type sizes with the finer precision the type inputs use.
+ */
+export function assessTextLayers(
+  layers: TextLayer[],
+  layout: StackLayout,
+  measureFor: (layer: TextLayer) => TextMeasure,
+  units: UnitSystem = "mm",
+): TextReport {
+  const assessed = layers.map((layer) => assessTextLayer(layer, layout, measureFor(layer), units));
+  const level = assessed.some((layer) => layer.level === "error")
+    ? "error"
+    : assessed.some((layer) => layer.level === "warning")
+      ? "warning"
+      : "ok";
+  return { level, layers: assessed };
+}
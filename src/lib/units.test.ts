@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+
+import { MM_PER_INCH } from "./geometry";
+import { formatLength, formatLengthValue, lengthStepMm, parseLength } from "./units";
+
+describe("parseLength", () => {
+  it("reads bare numbers in the chosen units", () => {
+    expect(parseLength("23.5", "cm")).toBe(235);
+    expect(parseLength("235", "mm")).toBe(235);
+    expect(parseLength("9.25", "inDecimal")).toBeCloseTo(9.25 * MM_PER_INCH);
+  });
+
+  it("accepts a decimal comma", () => {
+    expect(parseLength("23,5", "cm")).toBe(235);
+  });
+
+  it("reads whole and bare fractions", () => {
+    expect(parseLength("9 1/4", "inFraction")).toBeCloseTo(234.95);
+    expect(parseLength("9-1/4", "inFraction")).toBeCloseTo(234.95);
+    expect(parseLength("3/8", "inFraction")).toBeCloseTo(0.375 * MM_PER_INCH);
+  });
+
+  it("lets a typed symbol override the chosen units", () => {
+    expect(parseLength("23 cm", "inFraction")).toBe(230);
+    expect(parseLength("3 mm", "cm")).toBe(3);
+    expect(parseLength('9 1/4"', "cm")).toBeCloseTo(234.95);
+    expect(parseLength("2 in", "mm")).toBeCloseTo(2 * MM_PER_INCH);
+  });
+
+  it("keeps the sign of negative lengths", () => {
+    expect(parseLength("-5", "mm")).toBe(-5);
+  });
+
+  it("rejects text that is not a length", () => {
+    expect(parseLength("", "cm")).toBeNull();
+    expect(parseLength("abc", "cm")).toBeNull();
+    expect(parseLength("9 1/", "inFraction")).toBeNull();
+    expect(parseLength("1/0", "inFraction")).toBeNull();
+  });
+});
+
+describe("formatLengthValue", () => {
+  it("rounds to each unit's places", () => {
+    expect(formatLengthValue(235, "cm")).toBe("23.5");
+    expect(formatLengthValue(234.5, "mm")).toBe("234.5");
+    expect(formatLengthValue(235.04, "mm")).toBe("235");
+    expect(formatLengthValue(234.95, "inDecimal")).toBe("9.25");
+  });
+
+  it("writes fractional inches to the nearest sixteenth in lowest terms", () => {
+    expect(formatLengthValue(234.95, "inFraction")).toBe("9 1/4");
+    expect(formatLengthValue(2, "inFraction")).toBe("1/16");
+    expect(formatLengthValue(MM_PER_INCH * 3, "inFraction")).toBe("3");
+    expect(formatLengthValue(-MM_PER_INCH / 2, "inFraction")).toBe("-1/2");
+  });
+
+  it("never shows fine type metrics as zero", () => {
+    for (const units of ["cm", "mm", "inDecimal", "inFraction"] as const) {
+      expect(formatLengthValue(0.3, units, "type")).not.toBe("0");
+      expect(formatLengthValue(0.5, units, "type")).not.toBe("0");
+    }
+    expect(formatLengthValue(0.3, "inFraction", "type")).toBe("0.012");
+  });
+
+  it("round-trips through parseLength", () => {
+    for (const units of ["cm", "mm", "inDecimal", "inFraction"] as const) {
+      expect(parseLength(formatLengthValue(234.95, units), units)).toBeCloseTo(234.95, 0);
+    }
+  });
+});
+
+describe("formatLength", () => {
+  it("adds the unit symbol", () => {
+    expect(formatLength(235, "cm")).toBe("23.5 cm");
+    expect(formatLength(234.95, "inFraction")).toBe("9 1/4 in");
+    expect(formatLength(8, "inFraction", "type")).toBe("0.315 in");
+  });
+});
+
+describe("lengthStepMm", () => {
+  it("steps type metrics more finely than book lengths", () => {
+    expect(lengthStepMm("mm")).toBe(1);
+    expect(lengthStepMm("inFraction")).toBeCloseTo(MM_PER_INCH / 16);
+    expect(lengthStepMm("mm", "type")).toBe(0.1);
+    expect(lengthStepMm("inFraction", "type")).toBeCloseTo(MM_PER_INCH / 100);
+  });
+});
@@ -0,0 +1,114 @@
+import { CM_TO_MM, MM_PER_INCH } from "./geometry";
+
+/**
+ * How lengths are shown and typed in the designer. Geometry, project files and the API stay in millimetres and
+ * centimetres whatever is chosen; this only changes inputs, readouts and messages.
+ */
+export type UnitSystem = "cm" | "mm" | "inDecimal" | "inFraction";
+
+export const UNIT_SYSTEMS: { value: UnitSystem; label: string }[] = [
+  { value: "cm", label: "Centimetres" },
+  { value: "mm", label: "Millimetres" },
+  { value: "inDecimal", label: "Inches (9.25)" },
+  { value: "inFraction", label: "Inches (9 1/4)" },
+];
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = "cm";
+
+/**
+ * How finely a length is shown and stepped. Type metrics (sizes, letter spacing, outlines and shadows) are often a
+ * fraction of a millimetre, too fine for sixteenths of an inch, so they use decimal inches and more places.
+ */
+export type LengthPrecision = "length" | "type";
+
+/** Fractional inches are shown to the nearest sixteenth, the finest mark on most rulers. */
+export const INCH_FRACTION_DENOMINATOR = 16;
+
+const MM_PER_UNIT: Record<UnitSystem, number> = {
+  cm: CM_TO_MM,
+  mm: 1,
+  inDecimal: MM_PER_INCH,
+  inFraction: MM_PER_INCH,
+};
+
+const DECIMAL_PLACES: Record<LengthPrecision, Record<UnitSystem, number>> = {
+  length: { cm: 2, mm: 1, inDecimal: 3, inFraction: 3 },
+  type: { cm: 3, mm: 2, inDecimal: 3, inFraction: 3 },
+};
+
+// One arrow-key step in a length input: a millimetre, or a hundredth or sixteenth of an inch; type metrics step by a
+// tenth of a millimetre or a hundredth of an inch.
+const STEP_MM: Record<LengthPrecision, Record<UnitSystem, number>> = {
+  length: { cm: 1, mm: 1, inDecimal: MM_PER_INCH / 100, inFraction: MM_PER_INCH / INCH_FRACTION_DENOMINATOR },
+  type: { cm: 0.1, mm: 0.1, inDecimal: MM_PER_INCH / 100, inFraction: MM_PER_INCH / 100 },
+};
+
+/** The symbol written after a length: `cm`, `mm` or `in`. */
+export function unitSymbol(units: UnitSystem): string {
+  return units === "inDecimal" || units === "inFraction" ? "in" : units;
+}
+
+export function lengthStepMm(units: UnitSystem, precision: LengthPrecision = "length"): number {
+  return STEP_MM[precision][units];
+}
+
+function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? a : greatestCommonDivisor(b, a % b);
+}
+
+function formatInchFraction(valueIn: number): string {
+  const sixteenths = Math.round(Math.abs(valueIn) * INCH_FRACTION_DENOMINATOR);
+  const whole = Math.floor(sixteenths / INCH_FRACTION_DENOMINATOR);
+  const remainder = sixteenths % INCH_FRACTION_DENOMINATOR;
+  const divisor = greatestCommonDivisor(remainder, INCH_FRACTION_DENOMINATOR);
+  const fraction = remainder === 0 ? "" : `${remainder / divisor}/${INCH_FRACTION_DENOMINATOR / divisor}`;
+  const sign = valueIn < 0 && sixteenths > 0 ? "-" : "";
+  return sign + (whole > 0 && fraction ? `${whole} ${fraction}` : fraction || String(whole));
+}
+
+/** A length in the chosen units without the symbol, such as `23.5`, `235` or `9 1/4`. */
+export function formatLengthValue(valueMm: number, units: UnitSystem, precision: LengthPrecision = "length"): string {
+  const value = valueMm / MM_PER_UNIT[units];
+  if (units === "inFraction" && precision === "length") {
+    return formatInchFraction(value);
+  }
+  return String(Number(value.toFixed(DECIMAL_PLACES[precision][units])));
+}
+
+/** A length in the chosen units with its symbol, such as `23.5 cm` or `9 1/4 in`. */
+export function formatLength(valueMm: number, units: UnitSystem, precision: LengthPrecision = "length"): string {
+  return `${formatLengthValue(valueMm, units, precision)} ${unitSymbol(units)}`;
+}
+
+const LENGTH_PATTERN = /^(-)?\s*(?:(\d+)(?:\s+|\s*-\s*)(\d+)\s*\/\s*(\d+)|(\d+)\s*\/\s*(\d+)|(\d*\.?\d+))\s*(cm|mm|in|inch|inches|"|″)?$/i;
+
+/**
+ * Reads a typed length into millimetres, or returns null when it is not one. Accepts decimals (with a point or comma),
+ * fractions such as `9 1/4`, `9-1/4` or `3/8`, and an optional symbol that overrides `units` (`23 cm`, `9 1/4"`).
+ */
+export function parseLength(text: string, units: UnitSystem): number | null {
+  const match = text.trim().replace(",", ".").match(LENGTH_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const [, minus, whole, numerator, denominator, bareNumerator, bareDenominator, decimal, symbol] = match;
+  let value: number;
+  if (decimal !== undefined) {
+    value = Number(decimal);
+  } else {
+    const top = Number(numerator ?? bareNumerator);
+    const bottom = Number(denominator ?? bareDenominator);
+    if (bottom === 0) {
+      return null;
+    }
+    value = Number(whole ?? 0) + top / bottom;
+  }
+  const symbolUnits: UnitSystem | null = !symbol
+    ? null
+    : symbol.toLowerCase() === "cm"
+      ? "cm"
+      : symbol.toLowerCase() === "mm"
+        ? "mm"
+        : "inDecimal";
+  return (minus ? -value : value) * MM_PER_UNIT[symbolUnits ?? units];
+}